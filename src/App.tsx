@@ -4,16 +4,22 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "./hooks/useAuth";
+import { TierPromotionCelebration } from "./components/TierPromotionCelebration";
+import { MatchNotifications } from "./components/MatchNotifications";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import MonsterCreator from "./pages/MonsterCreator";
 import Connections from "./pages/Connections";
+import MonsterJournal from "./pages/MonsterJournal";
+import MatchChat from "./pages/MatchChat";
 import WhatWorks from "./pages/WhatWorks";
 import Profile from "./pages/Profile";
 import ProfileRegistration from "./pages/ProfileRegistration";
 import Analytics from "./pages/Analytics";
 import PhotoChallenge from "./pages/PhotoChallenge";
+import ChallengeGallery from "./pages/ChallengeGallery";
 import Achievements from "./pages/Achievements";
+import Citadel from "./pages/Citadel";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -24,18 +30,24 @@ const App = () => (
       <TooltipProvider>
         <Toaster />
         <Sonner />
+        <TierPromotionCelebration />
+        <MatchNotifications />
         <BrowserRouter>
           <Routes>
             <Route path="/" element={<Index />} />
             <Route path="/auth" element={<Auth />} />
             <Route path="/create-monster" element={<MonsterCreator />} />
             <Route path="/connections" element={<Connections />} />
+            <Route path="/connections/:matchId/journal" element={<MonsterJournal />} />
+            <Route path="/connections/:matchId/chat" element={<MatchChat />} />
             <Route path="/what-works" element={<WhatWorks />} />
             <Route path="/profile" element={<Profile />} />
             <Route path="/profile-registration" element={<ProfileRegistration />} />
             <Route path="/analytics" element={<Analytics />} />
             <Route path="/achievements" element={<Achievements />} />
             <Route path="/photo-challenges" element={<PhotoChallenge />} />
+            <Route path="/photo-challenges/:challengeId/gallery" element={<ChallengeGallery />} />
+            <Route path="/citadel" element={<Citadel />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
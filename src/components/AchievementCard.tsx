@@ -144,15 +144,19 @@ export const AchievementCard = ({
 
             {/* Reward */}
             <div className="flex items-center justify-between mt-3">
-              <div className="flex items-center gap-1">
-                <Star className="h-3 w-3 text-primary" />
-                <span className={cn(
-                  'font-medium text-primary',
-                  size === 'sm' ? 'text-xs' : 'text-sm'
-                )}>
-                  +{achievement.points_reward} Light
-                </span>
-              </div>
+              {achievement.points_reward > 0 ? (
+                <div className="flex items-center gap-1">
+                  <Star className="h-3 w-3 text-primary" />
+                  <span className={cn(
+                    'font-medium text-primary',
+                    size === 'sm' ? 'text-xs' : 'text-sm'
+                  )}>
+                    +{achievement.points_reward} Light
+                  </span>
+                </div>
+              ) : (
+                <div />
+              )}
               
               {isComplete && (
                 <Badge variant="outline" className="text-xs text-emerald-600 border-emerald-200">
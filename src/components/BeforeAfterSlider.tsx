@@ -0,0 +1,90 @@
+import { useState, useRef } from 'react';
+import { ChevronsLeftRight } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface BeforeAfterSliderProps {
+  beforeUrl?: string;
+  afterUrl?: string;
+  beforeLabel: string;
+  afterLabel: string;
+  className?: string;
+}
+
+const KEYBOARD_STEP = 5;
+
+const clamp = (value: number) => Math.min(100, Math.max(0, value));
+
+// Two photos stacked in the same frame; dragging the handle reveals more of one or the other
+export const BeforeAfterSlider = ({ beforeUrl, afterUrl, beforeLabel, afterLabel, className }: BeforeAfterSliderProps) => {
+  const [position, setPosition] = useState(50);
+  const [dragging, setDragging] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const moveTo = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0) return;
+    setPosition(clamp(((clientX - rect.left) / rect.width) * 100));
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragging(true);
+    moveTo(event.clientX);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (dragging) moveTo(event.clientX);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'ArrowLeft') {
+      setPosition(p => clamp(p - KEYBOARD_STEP));
+      event.preventDefault();
+    } else if (event.key === 'ArrowRight') {
+      setPosition(p => clamp(p + KEYBOARD_STEP));
+      event.preventDefault();
+    }
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn('relative aspect-[3/4] w-full overflow-hidden rounded-lg bg-muted select-none touch-none cursor-ew-resize', className)}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => setDragging(false)}
+      onPointerCancel={() => setDragging(false)}
+    >
+      {afterUrl && (
+        <img src={afterUrl} alt={afterLabel} className="absolute inset-0 h-full w-full object-cover" draggable={false} />
+      )}
+      {beforeUrl && (
+        <img
+          src={beforeUrl}
+          alt={beforeLabel}
+          className="absolute inset-0 h-full w-full object-cover"
+          style={{ clipPath: `inset(0 ${100 - position}% 0 0)` }}
+          draggable={false}
+        />
+      )}
+
+      <span className="absolute top-2 left-2 rounded bg-black/60 px-2 py-1 text-xs text-white">{beforeLabel}</span>
+      <span className="absolute top-2 right-2 rounded bg-black/60 px-2 py-1 text-xs text-white">{afterLabel}</span>
+
+      <div className="absolute inset-y-0 w-0.5 bg-white shadow" style={{ left: `${position}%` }}>
+        <div
+          role="slider"
+          tabIndex={0}
+          aria-label="Compare photos"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(position)}
+          onKeyDown={handleKeyDown}
+          className="absolute top-1/2 left-1/2 flex h-8 w-8 -translate-x-1/2 -translate-y-1/2 items-center justify-center rounded-full bg-white text-black shadow focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+        >
+          <ChevronsLeftRight className="h-4 w-4" />
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Match, MatchProfile, getOtherUserId } from '@/hooks/useMatches';
+import { ShieldOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface BlockedUsersListProps {
+  blocked: Match[];
+  profiles: Record<string, MatchProfile>;
+  userId: string;
+  updating: string | number | null;
+  onUnblock: (otherUserId: string) => void;
+  className?: string;
+}
+
+// People the user has blocked. Blocks set by the other side aren't listed.
+export const BlockedUsersList = ({
+  blocked,
+  profiles,
+  userId,
+  updating,
+  onUnblock,
+  className
+}: BlockedUsersListProps) => {
+  if (blocked.length === 0) return null;
+
+  return (
+    <Card className={cn('border-gray-200', className)}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <ShieldOff className="h-5 w-5 text-muted-foreground" />
+          Blocked
+        </CardTitle>
+        <CardDescription>
+          Blocked people can't find you, send requests, read your journals or send you support.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {blocked.map(match => {
+          const otherUserId = getOtherUserId(match, userId);
+          const profile = profiles[otherUserId];
+          const name = profile?.display_name || profile?.username || 'Anonymous User';
+
+          return (
+            <div key={match.id} className="flex items-center justify-between gap-4 p-3 rounded-lg bg-muted/50">
+              <div className="flex items-center gap-3 min-w-0">
+                <Avatar className="h-8 w-8">
+                  <AvatarFallback>{name[0].toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <p className="font-medium truncate">{name}</p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => onUnblock(otherUserId)}
+                disabled={updating === otherUserId}
+              >
+                Unblock
+              </Button>
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
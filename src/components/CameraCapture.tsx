@@ -1,8 +1,11 @@
 import { useState, useEffect, useRef } from 'react';
 import { useCamera } from '@/hooks/useCamera';
+import { usePhotoAlignment } from '@/hooks/usePhotoAlignment';
+import { processPhoto, ProcessedPhoto } from '@/lib/imageProcessing';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Slider } from '@/components/ui/slider';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import {
   Camera,
@@ -14,17 +17,21 @@ import {
   Info,
   Eye,
   EyeOff,
-  Calendar
+  Calendar,
+  Layers,
+  Crosshair
 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
 
 interface CameraCaptureProps {
   challengeId: string;
   dayNumber: number;
   guideImageUrl?: string;
+  previousPhotoUrl?: string; // Signed URL of the last photo in this challenge, shown as an onion skin
   title: string;
   instructions: string[];
-  onPhotoTaken: (photo: Blob, dayNumber: number) => Promise<void>;
+  onPhotoTaken: (photo: ProcessedPhoto, dayNumber: number) => Promise<void>;
   onClose: () => void;
 }
 
@@ -32,6 +39,7 @@ export const CameraCapture = ({
   challengeId,
   dayNumber,
   guideImageUrl,
+  previousPhotoUrl,
   title,
   instructions,
   onPhotoTaken,
@@ -42,9 +50,17 @@ export const CameraCapture = ({
   const [countdown, setCountdown] = useState<number | null>(null);
   const [showGuideOverlay, setShowGuideOverlay] = useState(false);
   const [showInstructions, setShowInstructions] = useState(true);
+  const [showGhost, setShowGhost] = useState(true);
+  const [ghostOpacity, setGhostOpacity] = useState(40);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
+  const ghostVisible = showGhost && !!previousPhotoUrl && state.isActive;
+  const { score: alignmentScore, isAligned } = usePhotoAlignment(videoRef, previousPhotoUrl, {
+    enabled: ghostVisible,
+    mirrored: state.facingMode === 'user'
+  });
+
   useEffect(() => {
     // Add a small delay to ensure the component is fully mounted and video element is ready
     const timer = setTimeout(() => {
@@ -119,11 +135,8 @@ export const CameraCapture = ({
       }
       setCountdown(null);
       const photo = await capturePhoto();
+      // The parent reports whether the photo was saved or queued for later
       await onPhotoTaken(photo, dayNumber);
-      toast({
-        title: "Photo Captured!",
-        description: `Day ${dayNumber} photo saved successfully.`,
-      });
       onClose();
     } catch (error) {
       console.error('Error capturing photo:', error);
@@ -159,10 +172,11 @@ export const CameraCapture = ({
       return;
     }
 
-    if (file.size > 10 * 1024 * 1024) {
+    // Files are shrunk before upload, so this only guards against decoding huge images
+    if (file.size > 25 * 1024 * 1024) {
       toast({
         title: "File Too Large",
-        description: "Please select an image smaller than 10MB.",
+        description: "Please select an image smaller than 25MB.",
         variant: "destructive"
       });
       return;
@@ -170,12 +184,8 @@ export const CameraCapture = ({
 
     try {
       setIsCapturing(true);
-      const blob = new Blob([file], { type: file.type });
-      await onPhotoTaken(blob, dayNumber);
-      toast({
-        title: "Photo Uploaded!",
-        description: `Day ${dayNumber} photo saved successfully.`,
-      });
+      const photo = await processPhoto(file);
+      await onPhotoTaken(photo, dayNumber);
       onClose();
     } catch (error) {
       console.error('Error uploading photo:', error);
@@ -290,6 +300,18 @@ Copy this information when reporting issues.
               </Button>
             )}
 
+            {previousPhotoUrl && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowGhost(!showGhost)}
+                className={cn('text-white hover:bg-white/20', showGhost && 'bg-white/20')}
+              >
+                <Layers className="h-4 w-4 mr-1" />
+                Ghost
+              </Button>
+            )}
+
             {state.isActive && (
               <Button
                 variant="ghost"
@@ -341,6 +363,17 @@ Copy this information when reporting issues.
         
         {state.isActive ? (
           <div className="absolute inset-0">
+            {/* Saved photos are already mirrored like the preview, so no transform is needed */}
+            {ghostVisible && (
+              <img
+                src={previousPhotoUrl}
+                alt="Previous day's photo"
+                crossOrigin="anonymous"
+                className="absolute inset-0 z-10 w-full h-full object-cover pointer-events-none"
+                style={{ opacity: ghostOpacity / 100 }}
+              />
+            )}
+
             {showGuideOverlay && guideImageUrl && dayNumber > 1 && (
               <div className="absolute inset-0 z-10 pointer-events-none flex items-center justify-center">
                 <img
@@ -360,8 +393,15 @@ Copy this information when reporting issues.
 
             {countdown !== null && (
               <div className="absolute inset-0 z-30 flex items-center justify-center bg-black/50">
-                <div className="text-white text-9xl font-bold animate-pulse">
-                  {countdown}
+                <div className="text-center">
+                  <div className="text-white text-9xl font-bold animate-pulse">
+                    {countdown}
+                  </div>
+                  {ghostVisible && alignmentScore !== null && (
+                    <p className={cn('text-sm mt-2', isAligned ? 'text-green-400' : 'text-yellow-400')}>
+                      {isAligned ? 'Hold still' : 'Framing has drifted'}
+                    </p>
+                  )}
                 </div>
               </div>
             )}
@@ -477,7 +517,7 @@ Copy this information when reporting issues.
 
       {/* Instructions Panel */}
       {showInstructions && state.isActive && (
-        <div className="absolute bottom-20 left-4 right-4 z-20">
+        <div className={cn('absolute left-4 right-4 z-20', ghostVisible ? 'bottom-40' : 'bottom-20')}>
           <Card className="bg-black/80 border-white/20 backdrop-blur-sm">
             <CardContent className="p-4">
               <div className="flex items-start justify-between mb-3">
@@ -514,6 +554,35 @@ Copy this information when reporting issues.
       {/* Capture Controls */}
       {state.isActive && (
         <div className="absolute bottom-0 left-0 right-0 z-20 bg-gradient-to-t from-black/80 to-transparent p-6">
+          {ghostVisible && (
+            <div className="flex items-center justify-center gap-3 mb-4">
+              <Layers className="h-4 w-4 text-white/80" />
+              <Slider
+                value={[ghostOpacity]}
+                onValueChange={([value]) => setGhostOpacity(value)}
+                min={10}
+                max={80}
+                step={5}
+                className="w-32"
+                aria-label="Previous photo opacity"
+              />
+              <Badge
+                variant="secondary"
+                className={cn(
+                  'text-xs text-white',
+                  alignmentScore === null ? 'bg-black/50' : isAligned ? 'bg-green-600/80' : 'bg-yellow-600/80'
+                )}
+              >
+                <Crosshair className="h-3 w-3 mr-1" />
+                {alignmentScore === null
+                  ? 'Checking framing...'
+                  : isAligned
+                    ? `Framing matches (${alignmentScore}%)`
+                    : `Line up with last photo (${alignmentScore}%)`}
+              </Badge>
+            </div>
+          )}
+
           <div className="flex items-center justify-center">
             <Button
               size="lg"
@@ -0,0 +1,121 @@
+import { useMemo } from 'react';
+import { GalleryEntry } from '@/hooks/useChallengeGallery';
+import { EyeOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ChallengeCalendarGridProps {
+  entries: GalleryEntry[];
+  photoUrls: Record<string, string>;
+  beforeId?: string | null;
+  afterId?: string | null;
+  selectedId?: string | null;
+  onSelect: (entry: GalleryEntry) => void;
+  className?: string;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local calendar date, so a late-evening photo lands on the day it was taken
+const dateKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// Whole weeks from the first photo to the last, with each photo on the date it was taken
+export const ChallengeCalendarGrid = ({
+  entries,
+  photoUrls,
+  beforeId,
+  afterId,
+  selectedId,
+  onSelect,
+  className
+}: ChallengeCalendarGridProps) => {
+  const days = useMemo(() => {
+    if (entries.length === 0) return [];
+
+    const byDate: Record<string, GalleryEntry> = {};
+    let first = startOfDay(new Date(entries[0].taken_at));
+    let last = first;
+    entries.forEach(entry => {
+      const date = startOfDay(new Date(entry.taken_at));
+      byDate[dateKey(date)] = byDate[dateKey(date)] || entry;
+      if (date < first) first = date;
+      if (date > last) last = date;
+    });
+
+    const start = new Date(first.getFullYear(), first.getMonth(), first.getDate() - first.getDay());
+    const end = new Date(last.getFullYear(), last.getMonth(), last.getDate() + (6 - last.getDay()));
+    const count = Math.round((end.getTime() - start.getTime()) / DAY_MS) + 1;
+
+    return Array.from({ length: count }, (_, i) => {
+      const date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + i);
+      return { date, entry: byDate[dateKey(date)] };
+    });
+  }, [entries]);
+
+  return (
+    <div className={cn('grid grid-cols-7 gap-1', className)}>
+      {WEEKDAYS.map(day => (
+        <div key={day} className="text-center text-xs font-medium text-muted-foreground pb-1">
+          {day}
+        </div>
+      ))}
+
+      {days.map(({ date, entry }) => {
+        const label = date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+        if (!entry) {
+          return (
+            <div key={dateKey(date)} className="aspect-square rounded-md border border-dashed border-border p-1">
+              <span className="text-[10px] text-muted-foreground">{date.getDate()}</span>
+            </div>
+          );
+        }
+
+        const url = (entry.thumbnail_path && photoUrls[entry.thumbnail_path]) || photoUrls[entry.image_path];
+        const role = entry.id === beforeId ? 'Before' : entry.id === afterId ? 'After' : null;
+
+        return (
+          <button
+            key={dateKey(date)}
+            type="button"
+            onClick={() => onSelect(entry)}
+            aria-label={`Day ${entry.day_number}, ${label}`}
+            className={cn(
+              'relative aspect-square overflow-hidden rounded-md border bg-muted focus:outline-none focus-visible:ring-2 focus-visible:ring-primary',
+              entry.id === selectedId && 'ring-2 ring-primary',
+              role === 'Before' && 'border-2 border-blue-500',
+              role === 'After' && 'border-2 border-green-500'
+            )}
+          >
+            {url && (
+              <img
+                src={url}
+                alt=""
+                className={cn('h-full w-full object-cover', entry.exclude_from_timelapse && 'opacity-40 grayscale')}
+              />
+            )}
+            <span className="absolute bottom-0 left-0 right-0 bg-black/60 text-[10px] text-white">
+              Day {entry.day_number}
+            </span>
+            {role && (
+              <span
+                className={cn(
+                  'absolute top-0 left-0 px-1 text-[10px] text-white',
+                  role === 'Before' ? 'bg-blue-500' : 'bg-green-500'
+                )}
+              >
+                {role}
+              </span>
+            )}
+            {entry.exclude_from_timelapse && (
+              <EyeOff className="absolute top-1 right-1 h-3 w-3 text-white drop-shadow" />
+            )}
+          </button>
+        );
+      })}
+    </div>
+  );
+};
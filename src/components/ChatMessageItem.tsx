@@ -0,0 +1,73 @@
+import { Button } from '@/components/ui/button';
+import { MatchMessage } from '@/hooks/useMatchMessages';
+import { BookOpen, Flag, CheckCheck } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ChatMessageItemProps {
+  message: MatchMessage;
+  isOwn: boolean;
+  seen: boolean; // Read receipt, shown on the user's latest seen message
+  onReport: (message: MatchMessage) => void;
+  className?: string;
+}
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+export const ChatMessageItem = ({ message, isOwn, seen, onReport, className }: ChatMessageItemProps) => {
+  return (
+    <div className={cn('group flex flex-col', isOwn ? 'items-end' : 'items-start', className)}>
+      <div
+        className={cn(
+          'max-w-[80%] rounded-lg p-3 space-y-2',
+          isOwn ? 'bg-gradient-to-r from-pink-100 to-purple-100' : 'bg-muted'
+        )}
+      >
+        {message.body && (
+          <p className="text-sm whitespace-pre-wrap break-words">{message.body}</p>
+        )}
+
+        {message.strategy_id && (
+          message.strategy ? (
+            <div className="rounded-md border border-pink-200 bg-background p-3">
+              <p className="text-xs font-semibold text-purple-600 flex items-center gap-1 mb-1">
+                <BookOpen className="h-3 w-3" />
+                What Works
+              </p>
+              <p className="text-sm font-medium">{message.strategy.title}</p>
+              <p className="text-xs text-muted-foreground line-clamp-3">{message.strategy.description}</p>
+              {message.strategy.effectiveness_rating && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Rated {message.strategy.effectiveness_rating}/5
+                </p>
+              )}
+            </div>
+          ) : (
+            <p className="text-xs italic text-muted-foreground">This strategy is no longer available.</p>
+          )
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 mt-1 text-xs text-muted-foreground">
+        <span>{formatTime(message.created_at)}</span>
+        {isOwn && seen && (
+          <span className="flex items-center gap-1 text-purple-500">
+            <CheckCheck className="h-3 w-3" />
+            Seen
+          </span>
+        )}
+        {!isOwn && (
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-6 px-1 opacity-0 group-hover:opacity-100 focus:opacity-100"
+            onClick={() => onReport(message)}
+            title="Report"
+          >
+            <Flag className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,172 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { CitadelUpgrade, CitadelContributor, describePerk, isMaxLevel } from '@/hooks/useCitadel';
+import { Castle, Zap, Crown, ChevronDown, Sparkles } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface CitadelUpgradeCardProps {
+  upgrade: CitadelUpgrade;
+  myContribution: number;
+  availableLight: number;
+  contributing: boolean;
+  onContribute: (upgradeId: string, amount: number) => Promise<unknown>;
+  onLoadLeaderboard: (upgradeId: string) => Promise<CitadelContributor[]>;
+  className?: string;
+}
+
+const QUICK_AMOUNTS = [10, 50, 100];
+
+export const CitadelUpgradeCard = ({
+  upgrade,
+  myContribution,
+  availableLight,
+  contributing,
+  onContribute,
+  onLoadLeaderboard,
+  className
+}: CitadelUpgradeCardProps) => {
+  const [amount, setAmount] = useState('');
+  const [leaderboard, setLeaderboard] = useState<CitadelContributor[] | null>(null);
+  const [leaderboardOpen, setLeaderboardOpen] = useState(false);
+
+  const level = upgrade.current_level || 0;
+  const maxLevel = upgrade.max_level || 0;
+  const maxed = isMaxLevel(upgrade);
+  const perk = describePerk(upgrade);
+  const levelProgress = maxed ? 100 : (upgrade.progress_light / upgrade.cost) * 100;
+  const parsedAmount = parseInt(amount, 10);
+  const canContribute = !maxed && parsedAmount > 0 && parsedAmount <= availableLight && !contributing;
+
+  const handleContribute = async () => {
+    if (!canContribute) return;
+    await onContribute(upgrade.id, parsedAmount);
+    setAmount('');
+    if (leaderboardOpen) {
+      setLeaderboard(await onLoadLeaderboard(upgrade.id));
+    }
+  };
+
+  const handleLeaderboardToggle = async (open: boolean) => {
+    setLeaderboardOpen(open);
+    if (open) {
+      setLeaderboard(await onLoadLeaderboard(upgrade.id));
+    }
+  };
+
+  return (
+    <Card className={cn('bg-white/60 backdrop-blur', maxed && 'border-amber-300 dark:border-amber-700', className)}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center justify-between gap-2 text-lg">
+          <span className="flex items-center gap-2">
+            <Castle className="h-5 w-5 text-primary" />
+            {upgrade.name}
+          </span>
+          <Badge variant={maxed ? 'default' : 'secondary'} className="text-xs capitalize">
+            {maxed ? 'Complete' : upgrade.upgrade_type}
+          </Badge>
+        </CardTitle>
+        {upgrade.description && (
+          <p className="text-sm text-muted-foreground">{upgrade.description}</p>
+        )}
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        {/* Level Progress */}
+        <div className="space-y-2">
+          <div className="flex justify-between text-sm">
+            <span className="text-muted-foreground">Level {level}/{maxLevel}</span>
+            <span className="font-medium">
+              {maxed ? 'Fully built' : `${upgrade.progress_light}/${upgrade.cost} Light`}
+            </span>
+          </div>
+          <Progress value={levelProgress} className="h-2" />
+        </div>
+
+        {perk && (
+          <div className="flex items-start gap-2 p-3 rounded-lg bg-primary/5 border border-primary/10 text-sm">
+            <Sparkles className="h-4 w-4 text-primary mt-0.5 shrink-0" />
+            <span>
+              {perk}
+              {level > 0 && <span className="text-muted-foreground"> (active: level {level})</span>}
+            </span>
+          </div>
+        )}
+
+        {/* Contribution */}
+        {!maxed && (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              {QUICK_AMOUNTS.map(quick => (
+                <Button
+                  key={quick}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setAmount(String(quick))}
+                  disabled={quick > availableLight}
+                  className="flex-1"
+                >
+                  {quick}
+                </Button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Input
+                type="number"
+                min={1}
+                max={availableLight}
+                placeholder="Light to pool"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+              <Button onClick={handleContribute} disabled={!canContribute}>
+                <Zap className="h-4 w-4 mr-1" />
+                {contributing ? 'Pooling...' : 'Contribute'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {myContribution > 0 && (
+          <p className="text-xs text-muted-foreground text-center">
+            You have pooled {myContribution.toLocaleString()} Light into this upgrade
+          </p>
+        )}
+
+        {/* Leaderboard */}
+        <Collapsible open={leaderboardOpen} onOpenChange={handleLeaderboardToggle}>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="w-full flex items-center justify-between">
+              <span className="flex items-center gap-2">
+                <Crown className="h-4 w-4 text-amber-500" />
+                Top Contributors
+              </span>
+              <ChevronDown className={cn('h-4 w-4 transition-transform', leaderboardOpen && 'rotate-180')} />
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="pt-2 space-y-1">
+            {leaderboard === null ? (
+              <p className="text-xs text-muted-foreground text-center">Loading...</p>
+            ) : leaderboard.length === 0 ? (
+              <p className="text-xs text-muted-foreground text-center">Be the first to contribute!</p>
+            ) : (
+              leaderboard.map((contributor, index) => (
+                <div key={contributor.user_id} className="flex items-center justify-between text-sm px-2 py-1 rounded bg-white/50 dark:bg-black/20">
+                  <span className="flex items-center gap-2">
+                    <span className="w-5 text-muted-foreground">{index + 1}.</span>
+                    {contributor.display_name}
+                  </span>
+                  <span className="font-medium">{contributor.light_spent.toLocaleString()} Light</span>
+                </div>
+              ))
+            )}
+          </CollapsibleContent>
+        </Collapsible>
+      </CardContent>
+    </Card>
+  );
+};
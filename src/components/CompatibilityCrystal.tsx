@@ -1,11 +1,14 @@
 import { useState, useEffect } from 'react';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { CompatibilityDimension } from '@/hooks/useMatchCandidates';
 
 interface CompatibilityCrystalProps {
   matchScore: number;
+  breakdown?: CompatibilityDimension[];
   className?: string;
 }
 
-const CompatibilityCrystal = ({ matchScore, className = "" }: CompatibilityCrystalProps) => {
+const CompatibilityCrystal = ({ matchScore, breakdown = [], className = "" }: CompatibilityCrystalProps) => {
   const [isCharging, setIsCharging] = useState(false);
 
   useEffect(() => {
@@ -59,6 +62,11 @@ const CompatibilityCrystal = ({ matchScore, className = "" }: CompatibilityCryst
     }
   };
 
+  // Dimensions both profiles filled in, plus any relief bonus that applied
+  const facets = breakdown.filter(dimension =>
+    dimension.score !== null && (dimension.method !== 'complementary' || dimension.points > 0)
+  );
+
   return (
     <div className={`relative flex flex-col items-center ${className}`}>
       {/* Crystal Container */}
@@ -131,6 +139,43 @@ const CompatibilityCrystal = ({ matchScore, className = "" }: CompatibilityCryst
         </div>
       </div>
 
+      {/* Facets: one bar per scoring dimension */}
+      {facets.length > 0 && (
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <div className="mt-1 flex items-end gap-0.5 h-4 cursor-help" aria-label="Compatibility breakdown">
+              {facets.map(dimension => (
+                <div
+                  key={dimension.key}
+                  className={`w-1.5 rounded-sm bg-gradient-to-t ${getCrystalColor()}`}
+                  style={{ height: `${Math.max(15, dimension.score ?? 0)}%` }}
+                />
+              ))}
+            </div>
+          </TooltipTrigger>
+          <TooltipContent className="w-56">
+            <div className="space-y-1.5">
+              {facets.map(dimension => (
+                <div key={dimension.key}>
+                  <div className="flex justify-between text-xs">
+                    <span className="font-medium">{dimension.label}</span>
+                    <span className="text-muted-foreground">
+                      {dimension.method === 'complementary' ? `+${dimension.points}` : `${dimension.score}%`}
+                    </span>
+                  </div>
+                  <div className="h-1 rounded-full bg-muted overflow-hidden">
+                    <div
+                      className={`h-full bg-gradient-to-r ${getCrystalColor()}`}
+                      style={{ width: `${dimension.score ?? 0}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </TooltipContent>
+        </Tooltip>
+      )}
+
       {/* Floating Particles for high-level crystals */}
       {crystalState === 'legendary' && (
         <div className="absolute inset-0 pointer-events-none">
@@ -0,0 +1,108 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Match, MatchProfile, MatchResponse } from '@/hooks/useMatches';
+import { MatchExplanationPanel } from '@/components/MatchExplanationPanel';
+import { Inbox, Check, X, ShieldOff } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ConnectionRequestsInboxProps {
+  requests: Match[];
+  profiles: Record<string, MatchProfile>;
+  userId: string;
+  updating: string | number | null;
+  onRespond: (matchId: number, response: MatchResponse) => void;
+  className?: string;
+}
+
+export const ConnectionRequestsInbox = ({
+  requests,
+  profiles,
+  userId,
+  updating,
+  onRespond,
+  className
+}: ConnectionRequestsInboxProps) => {
+  if (requests.length === 0) return null;
+
+  return (
+    <Card className={cn('border-pink-200', className)}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Inbox className="h-5 w-5 text-pink-500" />
+          Connection Requests
+          <Badge variant="secondary">{requests.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {requests.map(request => {
+          const profile = profiles[request.user1_id];
+          const name = profile?.display_name || profile?.username || 'Anonymous User';
+          const busy = updating === request.id;
+
+          return (
+            <div key={request.id} className="p-3 rounded-lg bg-gradient-to-r from-pink-50 to-purple-50">
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex items-center gap-3 min-w-0">
+                  <Avatar className="h-10 w-10">
+                    <AvatarFallback className="bg-gradient-to-r from-pink-200 to-purple-200">
+                      {name[0].toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="min-w-0">
+                    <p className="font-medium truncate">{name}</p>
+                    {request.match_reason?.shared_keywords && request.match_reason.shared_keywords.length > 0 && (
+                      <p className="text-xs text-muted-foreground truncate">
+                        Shared traits: {request.match_reason.shared_keywords.join(', ')}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <Button
+                    size="sm"
+                    onClick={() => onRespond(request.id, 'accepted')}
+                    disabled={busy}
+                    className="bg-gradient-to-r from-pink-500 to-purple-500 hover:from-pink-600 hover:to-purple-600"
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => onRespond(request.id, 'declined')}
+                    disabled={busy}
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Decline
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => onRespond(request.id, 'blocked')}
+                    disabled={busy}
+                    title="Block"
+                  >
+                    <ShieldOff className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              {request.match_reason && (
+                <MatchExplanationPanel
+                  explanation={request.match_reason}
+                  userId={userId}
+                  otherUserId={request.user1_id}
+                  otherName={name}
+                  viewerIsRequester={false}
+                  className="mt-2"
+                />
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,142 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Match, MatchProfile, getOtherUserId } from '@/hooks/useMatches';
+import { MatchExplanationPanel } from '@/components/MatchExplanationPanel';
+import { Users, BookOpen, Clock, ShieldOff, Flag, MessageCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface ConnectionsListProps {
+  connections: Match[];
+  outgoingRequests: Match[];
+  profiles: Record<string, MatchProfile>;
+  userId: string;
+  unreadCounts: Record<number, number>;
+  messageUnreadCounts: Record<number, number>;
+  updating: string | number | null;
+  onOpenJournal: (matchId: number) => void;
+  onOpenChat: (matchId: number) => void;
+  onBlock: (matchId: number) => void;
+  onReport: (otherUserId: string, name: string) => void;
+  className?: string;
+}
+
+export const ConnectionsList = ({
+  connections,
+  outgoingRequests,
+  profiles,
+  userId,
+  unreadCounts,
+  messageUnreadCounts,
+  updating,
+  onOpenJournal,
+  onOpenChat,
+  onBlock,
+  onReport,
+  className
+}: ConnectionsListProps) => {
+  if (connections.length === 0 && outgoingRequests.length === 0) return null;
+
+  const renderRow = (match: Match, pending: boolean) => {
+    const otherUserId = getOtherUserId(match, userId);
+    const profile = profiles[otherUserId];
+    const name = profile?.display_name || profile?.username || 'Anonymous User';
+    const unread = unreadCounts[match.id] || 0;
+    const unreadMessages = messageUnreadCounts[match.id] || 0;
+
+    return (
+      <div key={match.id} className="p-3 rounded-lg bg-gradient-to-r from-pink-50 to-purple-50">
+        <div className="flex items-center justify-between gap-4">
+          <div className="flex items-center gap-3 min-w-0">
+            <Avatar className="h-10 w-10">
+              <AvatarFallback className="bg-gradient-to-r from-pink-200 to-purple-200">
+                {name[0].toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <div className="min-w-0">
+              <p className="font-medium truncate">{name}</p>
+              {match.match_reason?.shared_keywords && match.match_reason.shared_keywords.length > 0 && (
+                <p className="text-xs text-muted-foreground truncate">
+                  Shared traits: {match.match_reason.shared_keywords.join(', ')}
+                </p>
+              )}
+            </div>
+          </div>
+          <div className="flex items-center gap-2 flex-shrink-0">
+            {pending ? (
+              <Badge variant="outline" className="py-1">
+                <Clock className="h-3 w-3 mr-1" />
+                Request Sent
+              </Badge>
+            ) : (
+              <>
+                <Button size="sm" variant="outline" onClick={() => onOpenChat(match.id)}>
+                  <MessageCircle className="h-4 w-4 mr-1" />
+                  Chat
+                  {unreadMessages > 0 && (
+                    <Badge className="ml-2 h-5 min-w-5 justify-center px-1.5 bg-pink-500 hover:bg-pink-500">
+                      {unreadMessages}
+                    </Badge>
+                  )}
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => onOpenJournal(match.id)}>
+                  <BookOpen className="h-4 w-4 mr-1" />
+                  Journal
+                  {unread > 0 && (
+                    <Badge className="ml-2 h-5 min-w-5 justify-center px-1.5 bg-pink-500 hover:bg-pink-500">
+                      {unread}
+                    </Badge>
+                  )}
+                </Button>
+              </>
+            )}
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onReport(otherUserId, name)}
+              title="Report"
+            >
+              <Flag className="h-4 w-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onBlock(match.id)}
+              disabled={updating === match.id}
+              title="Block"
+            >
+              <ShieldOff className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        {match.match_reason && (
+          <MatchExplanationPanel
+            explanation={match.match_reason}
+            userId={userId}
+            otherUserId={otherUserId}
+            otherName={name}
+            viewerIsRequester={match.user1_id === userId}
+            className="mt-2"
+          />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Card className={cn('border-pink-200', className)}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Users className="h-5 w-5 text-pink-500" />
+          Your Connections
+          <Badge variant="secondary">{connections.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {connections.map(match => renderRow(match, false))}
+        {outgoingRequests.map(match => renderRow(match, true))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,123 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { JournalEntry, MAX_JOURNAL_ENTRY_LENGTH } from '@/hooks/useMonsterJournal';
+import { Pencil, Trash2, Sparkles } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface JournalEntryItemProps {
+  entry: JournalEntry;
+  authorName: string;
+  isOwn: boolean;
+  saving: boolean;
+  onUpdate: (entryId: number, text: string) => Promise<{ success: boolean }>;
+  onDelete: (entryId: number) => Promise<{ success: boolean }>;
+  className?: string;
+}
+
+const formatTimestamp = (timestamp: string | null) =>
+  timestamp
+    ? new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+    : '';
+
+export const JournalEntryItem = ({
+  entry,
+  authorName,
+  isOwn,
+  saving,
+  onUpdate,
+  onDelete,
+  className
+}: JournalEntryItemProps) => {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(entry.entry_text);
+
+  const handleSave = async () => {
+    const result = await onUpdate(entry.id, draft);
+    if (result.success) setEditing(false);
+  };
+
+  const handleCancel = () => {
+    setDraft(entry.entry_text);
+    setEditing(false);
+  };
+
+  const isGenerated = !entry.author_id;
+
+  return (
+    <div className={cn('flex gap-3', isOwn && 'flex-row-reverse', className)}>
+      <Avatar className="h-8 w-8 flex-shrink-0">
+        <AvatarFallback className="text-xs bg-gradient-to-r from-pink-200 to-purple-200">
+          {isGenerated ? <Sparkles className="h-4 w-4 text-purple-500" /> : authorName[0].toUpperCase()}
+        </AvatarFallback>
+      </Avatar>
+      <div
+        className={cn(
+          'max-w-[80%] rounded-lg p-3',
+          isOwn ? 'bg-gradient-to-r from-pink-100 to-purple-100' : 'bg-muted'
+        )}
+      >
+        <div className="flex items-center gap-2 mb-1 text-xs text-muted-foreground">
+          <span className="font-medium text-foreground">{authorName}</span>
+          <span>{formatTimestamp(entry.created_at)}</span>
+          {entry.updated_at && <span>(edited)</span>}
+        </div>
+
+        {editing ? (
+          <div className="space-y-2">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              maxLength={MAX_JOURNAL_ENTRY_LENGTH}
+              rows={3}
+              className="bg-background"
+            />
+            <div className="flex justify-end gap-2">
+              <Button size="sm" variant="ghost" onClick={handleCancel} disabled={saving}>
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleSave}
+                disabled={saving || !draft.trim() || draft.trim() === entry.entry_text}
+              >
+                Save
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm whitespace-pre-wrap break-words">{entry.entry_text}</p>
+        )}
+
+        {isOwn && !editing && (
+          <div className="flex justify-end gap-1 mt-2">
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2"
+              onClick={() => {
+                setDraft(entry.entry_text);
+                setEditing(true);
+              }}
+              disabled={saving}
+              title="Edit"
+            >
+              <Pencil className="h-3 w-3" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2"
+              onClick={() => onDelete(entry.id)}
+              disabled={saving}
+              title="Delete"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
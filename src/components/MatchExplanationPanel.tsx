@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { MatchExplanation, MatchLearning } from '@/hooks/useMatches';
+import { ChevronDown, Lightbulb, Sparkles, GraduationCap } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface MatchExplanationPanelProps {
+  explanation: MatchExplanation;
+  userId?: string;
+  otherUserId?: string;
+  otherName: string;
+  viewerIsRequester?: boolean;
+  defaultOpen?: boolean;
+  className?: string;
+}
+
+const LEARNING_LABELS: Record<MatchLearning['kind'], string> = {
+  strategy: 'Strategy',
+  supplement: 'Supplement',
+  medication: 'Medication'
+};
+
+const BadgeList = ({ title, items }: { title: string; items?: string[] }) => {
+  if (!items || items.length === 0) return null;
+
+  return (
+    <div>
+      <h5 className="text-xs font-semibold text-muted-foreground mb-1">{title}</h5>
+      <div className="flex flex-wrap gap-1">
+        {items.map(item => (
+          <Badge key={item} variant="outline" className="border-pink-200 text-xs">
+            {item}
+          </Badge>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const LearningList = ({ title, learnings }: { title: string; learnings?: MatchLearning[] }) => {
+  if (!learnings || learnings.length === 0) return null;
+
+  return (
+    <div>
+      <h5 className="text-xs font-semibold text-muted-foreground mb-1 flex items-center gap-1">
+        <GraduationCap className="h-3 w-3" />
+        {title}
+      </h5>
+      <ul className="space-y-1">
+        {learnings.map(learning => (
+          <li key={`${learning.kind}-${learning.title}`} className="text-sm">
+            <span className="text-xs text-purple-600 font-medium mr-1">{LEARNING_LABELS[learning.kind]}:</span>
+            {learning.title}
+            {learning.symptoms && learning.symptoms.length > 0 && (
+              <span className="text-xs text-muted-foreground"> (for {learning.symptoms.join(', ')})</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+// Why two people were matched: each dimension's contribution, what they share,
+// and what they could learn from each other
+export const MatchExplanationPanel = ({
+  explanation,
+  userId,
+  otherUserId,
+  otherName,
+  viewerIsRequester = true,
+  defaultOpen = false,
+  className
+}: MatchExplanationPanelProps) => {
+  const [open, setOpen] = useState(defaultOpen);
+
+  // Relief bonuses were scored for the requester; the recipient sees them as learnings instead
+  const dimensions = (explanation.dimensions || []).filter(dimension =>
+    dimension.score !== null && (viewerIsRequester || dimension.method !== 'complementary')
+  );
+  const learnFromThem = userId ? explanation.learnings?.[userId] : undefined;
+  const learnFromYou = otherUserId ? explanation.learnings?.[otherUserId] : undefined;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className={className}>
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <Lightbulb className="h-4 w-4 text-purple-500" />
+            Why you match
+          </span>
+          <ChevronDown className={cn('h-4 w-4 transition-transform', open && 'rotate-180')} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="pt-3 space-y-4">
+        {dimensions.length > 0 && (
+          <div className="space-y-2">
+            {dimensions.map(dimension => (
+              <div key={dimension.key} title={dimension.description || undefined}>
+                <div className="flex justify-between text-xs mb-1">
+                  <span className="font-medium flex items-center gap-1">
+                    {dimension.method === 'complementary' && <Sparkles className="h-3 w-3 text-amber-500" />}
+                    {dimension.label}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {dimension.score}% · +{dimension.points} pts
+                  </span>
+                </div>
+                <Progress value={dimension.score ?? 0} className="h-1.5" />
+                {dimension.shared.length > 0 ? (
+                  <p className="text-xs text-muted-foreground mt-1 truncate">
+                    {dimension.shared.join(', ')}
+                  </p>
+                ) : (dimension.shared_count ?? 0) > 0 && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {dimension.shared_count} in common · details shown once you connect
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        <BadgeList title="Shared monster traits" items={explanation.shared_keywords} />
+        <BadgeList title="Shared symptoms" items={explanation.shared_symptoms} />
+        <BadgeList title="What helps you both" items={explanation.shared_strategies} />
+        <LearningList title={`What you could learn from ${otherName}`} learnings={learnFromThem} />
+        <LearningList title={`What ${otherName} could learn from you`} learnings={learnFromYou} />
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
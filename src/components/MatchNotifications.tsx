@@ -0,0 +1,7 @@
+import { useMatchNotifications } from '@/hooks/useMatches';
+
+// Mounted once in App so connection requests and acceptances are announced on every page
+export const MatchNotifications = () => {
+  useMatchNotifications();
+  return null;
+};
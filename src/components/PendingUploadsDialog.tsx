@@ -0,0 +1,107 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { QueuedCapture } from '@/lib/captureQueue';
+import { CloudOff, RefreshCw, Trash2, Replace, Loader2 } from 'lucide-react';
+
+interface PendingUploadsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  captures: QueuedCapture[];
+  syncing: boolean;
+  onRetry: (id: number) => void;
+  onDiscard: (id: number) => void;
+  onReplace: (id: number) => void;
+}
+
+const STATUS_LABELS: Record<QueuedCapture['status'], string> = {
+  pending: 'Waiting for connection',
+  failed: "Couldn't save",
+  conflict: 'Already uploaded from another device'
+};
+
+const CaptureThumbnail = ({ blob }: { blob: Blob }) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  return url ? <img src={url} alt="" className="h-14 w-14 rounded-md object-cover flex-shrink-0" /> : null;
+};
+
+// Photos captured while offline (or that couldn't be saved), oldest first
+export const PendingUploadsDialog = ({
+  open,
+  onOpenChange,
+  captures,
+  syncing,
+  onRetry,
+  onDiscard,
+  onReplace
+}: PendingUploadsDialogProps) => (
+  <Dialog open={open} onOpenChange={onOpenChange}>
+    <DialogContent className="max-w-md">
+      <DialogHeader>
+        <DialogTitle className="flex items-center gap-2">
+          <CloudOff className="h-5 w-5" />
+          Pending Uploads
+        </DialogTitle>
+        <DialogDescription>
+          These photos are saved on this device and upload in order when you're back online.
+        </DialogDescription>
+      </DialogHeader>
+
+      {captures.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center py-4">Everything is uploaded.</p>
+      ) : (
+        <ul className="space-y-3 max-h-96 overflow-y-auto">
+          {captures.map(capture => (
+            <li key={capture.id} className="flex items-start gap-3 rounded-lg border p-3">
+              <CaptureThumbnail blob={capture.thumbnail} />
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-sm truncate">{capture.challengeTitle}</span>
+                  <Badge variant="outline" className="text-xs">Day {capture.dayNumber}</Badge>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {new Date(capture.takenAt).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                  {' · '}
+                  {STATUS_LABELS[capture.status]}
+                </p>
+                {capture.status === 'failed' && capture.lastError && (
+                  <p className="text-xs text-destructive">{capture.lastError}</p>
+                )}
+
+                <div className="flex flex-wrap gap-2 pt-1">
+                  {capture.status === 'conflict' ? (
+                    <Button size="sm" variant="outline" onClick={() => onReplace(capture.id!)} disabled={syncing}>
+                      <Replace className="h-3 w-3 mr-1" />
+                      Use This Photo
+                    </Button>
+                  ) : (
+                    <Button size="sm" variant="outline" onClick={() => onRetry(capture.id!)} disabled={syncing}>
+                      {syncing ? (
+                        <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                      ) : (
+                        <RefreshCw className="h-3 w-3 mr-1" />
+                      )}
+                      Retry
+                    </Button>
+                  )}
+                  <Button size="sm" variant="ghost" onClick={() => onDiscard(capture.id!)} disabled={syncing}>
+                    <Trash2 className="h-3 w-3 mr-1" />
+                    {capture.status === 'conflict' ? 'Keep Other Photo' : 'Discard'}
+                  </Button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </DialogContent>
+  </Dialog>
+);
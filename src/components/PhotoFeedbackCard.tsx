@@ -0,0 +1,60 @@
+import { Badge } from '@/components/ui/badge';
+import { PhotoFeedback, PhotoSentiment } from '@/hooks/usePhotoFeedback';
+import { Sparkles, Lightbulb, Loader2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface PhotoFeedbackCardProps {
+  feedback?: PhotoFeedback;
+  analyzing?: boolean;
+  className?: string;
+}
+
+const SENTIMENT_LABELS: Record<PhotoSentiment, string> = {
+  proud: 'Proud',
+  encouraging: 'Encouraging',
+  hopeful: 'Hopeful',
+  supportive: 'Supportive'
+};
+
+// Feedback on the latest photo of a challenge, compared with the days before it
+export const PhotoFeedbackCard = ({ feedback, analyzing = false, className }: PhotoFeedbackCardProps) => {
+  if (!analyzing && !feedback?.feedback) return null;
+
+  return (
+    <div className={cn('rounded-lg bg-muted/50 p-3 space-y-2', className)}>
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="text-sm font-medium flex items-center gap-1">
+          <Sparkles className="h-4 w-4 text-primary" />
+          {feedback ? `Day ${feedback.dayNumber} feedback` : 'Photo feedback'}
+        </h4>
+        {!analyzing && feedback?.sentiment && SENTIMENT_LABELS[feedback.sentiment] && (
+          <Badge variant="outline" className="text-xs">
+            {SENTIMENT_LABELS[feedback.sentiment]}
+          </Badge>
+        )}
+      </div>
+
+      {analyzing ? (
+        <p className="text-sm text-muted-foreground flex items-center gap-2">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          Comparing your photo with previous days...
+        </p>
+      ) : (
+        <>
+          <p className="text-sm">{feedback?.feedback}</p>
+
+          {feedback && feedback.suggestions.length > 0 && (
+            <ul className="space-y-1">
+              {feedback.suggestions.map(suggestion => (
+                <li key={suggestion} className="text-xs text-muted-foreground flex items-start gap-1">
+                  <Lightbulb className="h-3 w-3 mt-0.5 flex-shrink-0 text-yellow-500" />
+                  {suggestion}
+                </li>
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
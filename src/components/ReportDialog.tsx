@@ -0,0 +1,121 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import {
+  useContentReports,
+  ContentReport,
+  ReportContentType,
+  ReportReason,
+  REPORT_REASONS,
+  MAX_REPORT_DETAILS_LENGTH
+} from '@/hooks/useContentReports';
+import { Flag } from 'lucide-react';
+
+interface ReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  contentType: ReportContentType;
+  contentId: string;
+  subject: string; // What is being reported, e.g. "this strategy" or a person's name
+  canBlockAuthor?: boolean; // False for anonymous posts, whose author must stay hidden
+  onReported?: (report: ContentReport) => void;
+}
+
+export const ReportDialog = ({
+  open,
+  onOpenChange,
+  contentType,
+  contentId,
+  subject,
+  canBlockAuthor = true,
+  onReported
+}: ReportDialogProps) => {
+  const { submitting, reportContent } = useContentReports();
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState('');
+  const [blockAuthor, setBlockAuthor] = useState(false);
+
+  useEffect(() => {
+    if (!open) {
+      setReason(null);
+      setDetails('');
+      setBlockAuthor(false);
+    }
+  }, [open]);
+
+  const handleSubmit = async () => {
+    if (!reason) return;
+
+    const result = await reportContent({ contentType, contentId, reason, details, blockAuthor: canBlockAuthor && blockAuthor });
+    if (result.success && result.report) {
+      onReported?.(result.report);
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Flag className="h-5 w-5 text-red-500" />
+            Report {subject}
+          </DialogTitle>
+          <DialogDescription>
+            Reports are anonymous. Content that several people report is hidden until a moderator reviews it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={reason ?? ''} onValueChange={(value) => setReason(value as ReportReason)}>
+          {REPORT_REASONS.map(option => (
+            <div key={option.value} className="flex items-center space-x-2">
+              <RadioGroupItem value={option.value} id={`report-reason-${option.value}`} />
+              <Label htmlFor={`report-reason-${option.value}`} className="font-normal cursor-pointer">
+                {option.label}
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <div className="space-y-1">
+          <Textarea
+            placeholder="Anything else moderators should know? (optional)"
+            value={details}
+            onChange={(e) => setDetails(e.target.value)}
+            maxLength={MAX_REPORT_DETAILS_LENGTH}
+            rows={3}
+          />
+          <p className="text-xs text-muted-foreground text-right">
+            {details.length}/{MAX_REPORT_DETAILS_LENGTH}
+          </p>
+        </div>
+
+        {canBlockAuthor && (
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="report-block-author"
+              checked={blockAuthor}
+              onCheckedChange={(checked) => setBlockAuthor(checked === true)}
+            />
+            <Label htmlFor="report-block-author" className="font-normal cursor-pointer">
+              Also block this person
+            </Label>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+            Cancel
+          </Button>
+          <Button variant="destructive" onClick={handleSubmit} disabled={!reason || submitting}>
+            {submitting ? 'Sending...' : 'Send Report'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,109 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { MessageStrategy } from '@/hooks/useMatchMessages';
+import { BookOpen, Search } from 'lucide-react';
+
+interface StrategyPickerProps {
+  onSelect: (strategy: MessageStrategy) => void;
+  disabled?: boolean;
+}
+
+const SEARCH_LIMIT = 20;
+
+// Pick a What Works strategy to attach to a message
+export const StrategyPicker = ({ onSelect, disabled }: StrategyPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState('');
+  const [strategies, setStrategies] = useState<MessageStrategy[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const fetchStrategies = async () => {
+      setLoading(true);
+
+      let query = supabase
+        .from('relief_strategies')
+        .select('id, title, description, strategy_type, effectiveness_rating')
+        .eq('is_approved', true)
+        .order('effectiveness_rating', { ascending: false })
+        .limit(SEARCH_LIMIT);
+
+      const term = search.trim().replace(/[%_,()]/g, ' ');
+      if (term) {
+        query = query.or(`title.ilike.%${term}%,description.ilike.%${term}%`);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error fetching strategies:', error);
+      } else {
+        setStrategies(data || []);
+      }
+      setLoading(false);
+    };
+
+    const timeout = setTimeout(fetchStrategies, 300);
+    return () => clearTimeout(timeout);
+  }, [open, search]);
+
+  const handleSelect = (strategy: MessageStrategy) => {
+    onSelect(strategy);
+    setOpen(false);
+    setSearch('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm" disabled={disabled} title="Share a strategy">
+          <BookOpen className="h-4 w-4 mr-1" />
+          Strategy
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share a Strategy</DialogTitle>
+          <DialogDescription>
+            Attach something from What Works that might help.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="relative">
+          <Search className="h-4 w-4 absolute left-3 top-3 text-muted-foreground" />
+          <Input
+            placeholder="Search strategies..."
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+
+        <div className="max-h-80 overflow-y-auto space-y-2">
+          {loading && strategies.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">Searching...</p>
+          ) : strategies.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No strategies found.</p>
+          ) : (
+            strategies.map(strategy => (
+              <button
+                key={strategy.id}
+                type="button"
+                onClick={() => handleSelect(strategy)}
+                className="w-full text-left rounded-md border p-3 hover:bg-muted transition-colors"
+              >
+                <p className="text-sm font-medium">{strategy.title}</p>
+                <p className="text-xs text-muted-foreground line-clamp-2">{strategy.description}</p>
+              </button>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -9,6 +9,7 @@ import {
   Star, 
   Heart 
 } from 'lucide-react';
+import { getTier } from '@/data/tiers';
 import { cn } from '@/lib/utils';
 
 interface TierBadgeProps {
@@ -18,10 +19,8 @@ interface TierBadgeProps {
   size?: 'sm' | 'md' | 'lg';
 }
 
-const TIER_CONFIG = {
+const TIER_STYLES = {
   1: {
-    title: 'The Spark',
-    description: 'A faint, glowing ember of hope',
     icon: Flame,
     gradient: 'from-amber-400 to-orange-500',
     bg: 'bg-amber-50 dark:bg-amber-950',
@@ -29,8 +28,6 @@ const TIER_CONFIG = {
     text: 'text-amber-700 dark:text-amber-300'
   },
   2: {
-    title: 'The Lamplighter',
-    description: 'A steady, warm flame spreading light',
     icon: Lightbulb,
     gradient: 'from-yellow-400 to-amber-500',
     bg: 'bg-yellow-50 dark:bg-yellow-950',
@@ -38,8 +35,6 @@ const TIER_CONFIG = {
     text: 'text-yellow-700 dark:text-yellow-300'
   },
   3: {
-    title: 'The Beacon',
-    description: 'A lighthouse casting powerful beams',
     icon: Building,
     gradient: 'from-blue-400 to-cyan-500',
     bg: 'bg-blue-50 dark:bg-blue-950',
@@ -47,8 +42,6 @@ const TIER_CONFIG = {
     text: 'text-blue-700 dark:text-blue-300'
   },
   4: {
-    title: 'The Sentinel',
-    description: 'A radiant shield protecting others',
     icon: Shield,
     gradient: 'from-purple-400 to-indigo-500',
     bg: 'bg-purple-50 dark:bg-purple-950',
@@ -56,8 +49,6 @@ const TIER_CONFIG = {
     text: 'text-purple-700 dark:text-purple-300'
   },
   5: {
-    title: 'The Guardian',
-    description: 'Glowing wings uplifting the community',
     icon: Bird,
     gradient: 'from-emerald-400 to-teal-500',
     bg: 'bg-emerald-50 dark:bg-emerald-950',
@@ -65,8 +56,6 @@ const TIER_CONFIG = {
     text: 'text-emerald-700 dark:text-emerald-300'
   },
   6: {
-    title: 'The Luminary',
-    description: 'A constellation guiding others',
     icon: Star,
     gradient: 'from-violet-400 to-purple-500',
     bg: 'bg-violet-50 dark:bg-violet-950',
@@ -74,8 +63,6 @@ const TIER_CONFIG = {
     text: 'text-violet-700 dark:text-violet-300'
   },
   7: {
-    title: 'The Citadel Heart',
-    description: 'The beating heart of hope itself',
     icon: Heart,
     gradient: 'from-rose-400 to-pink-500',
     bg: 'bg-rose-50 dark:bg-rose-950',
@@ -85,7 +72,8 @@ const TIER_CONFIG = {
 };
 
 export const TierBadge = ({ tier, className, showTitle = true, size = 'md' }: TierBadgeProps) => {
-  const config = TIER_CONFIG[tier as keyof typeof TIER_CONFIG] || TIER_CONFIG[1];
+  const definition = getTier(tier);
+  const config = TIER_STYLES[definition.tier as keyof typeof TIER_STYLES];
   const Icon = config.icon;
 
   const sizeClasses = {
@@ -137,14 +125,14 @@ export const TierBadge = ({ tier, className, showTitle = true, size = 'md' }: Ti
         <div className="flex-1 min-w-0">
           <div className="flex items-center gap-2">
             <h3 className={cn('font-bold text-lg', config.text)}>
-              {config.title}
+              {definition.title}
             </h3>
             <Badge variant="secondary" className="text-xs">
-              Tier {tier}
+              Tier {definition.tier}
             </Badge>
           </div>
           <p className={cn('text-sm opacity-80', config.text)}>
-            {config.description}
+            {definition.description}
           </p>
         </div>
       </div>
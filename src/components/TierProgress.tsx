@@ -1,6 +1,7 @@
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
 import { TierBadge } from './TierBadge';
+import { getTier, getNextTier } from '@/data/tiers';
 import { cn } from '@/lib/utils';
 
 interface TierProgressProps {
@@ -9,21 +10,11 @@ interface TierProgressProps {
   className?: string;
 }
 
-const TIER_THRESHOLDS = [
-  { tier: 1, threshold: 0, title: 'The Spark' },
-  { tier: 2, threshold: 250, title: 'The Lamplighter' },
-  { tier: 3, threshold: 1000, title: 'The Beacon' },
-  { tier: 4, threshold: 3000, title: 'The Sentinel' },
-  { tier: 5, threshold: 7000, title: 'The Guardian' },
-  { tier: 6, threshold: 15000, title: 'The Luminary' },
-  { tier: 7, threshold: 30000, title: 'The Citadel Heart' }
-];
-
 export const TierProgress = ({ currentTier, totalLight, className }: TierProgressProps) => {
-  const currentTierData = TIER_THRESHOLDS.find(t => t.tier === currentTier);
-  const nextTierData = TIER_THRESHOLDS.find(t => t.tier === currentTier + 1);
+  const currentTierData = getTier(currentTier);
+  const nextTierData = getNextTier(currentTier);
   
-  const currentThreshold = currentTierData?.threshold || 0;
+  const currentThreshold = currentTierData.threshold;
   const nextThreshold = nextTierData?.threshold || currentThreshold;
   
   const progressInTier = totalLight - currentThreshold;
@@ -0,0 +1,48 @@
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { TierBadge } from './TierBadge';
+import { useTierPromotions } from '@/hooks/useTierPromotions';
+import { getTier, getNextTier } from '@/data/tiers';
+import { Sparkles } from 'lucide-react';
+
+export const TierPromotionCelebration = () => {
+  const { currentPromotion, acknowledgePromotion } = useTierPromotions();
+
+  if (!currentPromotion) return null;
+
+  const newTier = getTier(currentPromotion.to_tier);
+  const nextTier = getNextTier(newTier.tier);
+
+  const handleClose = () => {
+    acknowledgePromotion(currentPromotion.id);
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-md text-center">
+        <DialogHeader>
+          <div className="flex justify-center mb-2">
+            <Sparkles className="h-10 w-10 text-primary animate-pulse" />
+          </div>
+          <DialogTitle className="text-2xl text-center">Tier Promotion!</DialogTitle>
+          <DialogDescription className="text-center">
+            Your Light has grown to {currentPromotion.total_light.toLocaleString()}.
+            You are now {newTier.title}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <TierBadge tier={newTier.tier} size="lg" />
+
+        {nextTier && (
+          <p className="text-sm text-muted-foreground">
+            Next up: {nextTier.title} at {nextTier.threshold.toLocaleString()} Light
+          </p>
+        )}
+
+        <Button onClick={handleClose} className="w-full">
+          Keep Shining
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+};
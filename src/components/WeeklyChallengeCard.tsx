@@ -0,0 +1,147 @@
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { useWeeklyChallenges, getDaysRemaining } from '@/hooks/useWeeklyChallenges';
+import { Swords, Users, Clock, Zap, CheckCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+
+interface WeeklyChallengeCardProps {
+  className?: string;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  beacon_hope: 'Beacon of Hope',
+  silence_whispers: 'Silence Whispers',
+  reinforce_resistance: 'Welcome Members',
+  expose_deceit: 'Expose Deceit',
+  forbidden_knowledge: 'Share What Works',
+  daily_defiance: 'Daily Check-in',
+  daily_photo_capture: 'Challenge Photo'
+};
+
+export const WeeklyChallengeCard = ({ className }: WeeklyChallengeCardProps) => {
+  const { challenges, participation, loading, joining, joinChallenge, getProgress } = useWeeklyChallenges();
+
+  if (loading && challenges.length === 0) {
+    return null;
+  }
+
+  return (
+    <Card className={cn('bg-gradient-to-br from-rose-50 to-amber-50 dark:from-rose-950 dark:to-amber-950 border-rose-200 dark:border-rose-800', className)}>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-rose-700 dark:text-rose-300">
+          <Swords className="h-5 w-5" />
+          Weekly Challenge
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {challenges.length === 0 && (
+          <p className="text-sm text-muted-foreground text-center">
+            The next challenge begins soon. Check back shortly!
+          </p>
+        )}
+
+        {challenges.map(challenge => {
+          const entry = participation[challenge.id];
+          const participants = challenge.current_participants || 0;
+          const daysRemaining = getDaysRemaining(challenge);
+          const communityProgress = challenge.target_participants
+            ? Math.min(100, (participants / challenge.target_participants) * 100)
+            : 100;
+
+          return (
+            <div key={challenge.id} className="space-y-4">
+              <div>
+                <h3 className="font-semibold text-foreground">{challenge.title}</h3>
+                {challenge.description && (
+                  <p className="text-sm text-muted-foreground">{challenge.description}</p>
+                )}
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {challenge.qualifying_actions.map(action => (
+                  <Badge key={action} variant="secondary" className="text-xs">
+                    {ACTION_LABELS[action] || action}
+                  </Badge>
+                ))}
+              </div>
+
+              {/* Community goal */}
+              <div className="space-y-2">
+                <div className="flex justify-between text-sm">
+                  <span className="flex items-center gap-1 text-muted-foreground">
+                    <Users className="h-4 w-4" />
+                    Resistance fighters
+                  </span>
+                  <span className="font-medium">
+                    {participants}{challenge.target_participants ? `/${challenge.target_participants}` : ''}
+                  </span>
+                </div>
+                <Progress value={communityProgress} className="h-2" />
+              </div>
+
+              {/* Personal progress */}
+              {entry ? (
+                <div className="space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Your actions</span>
+                    <span className="font-medium">
+                      {entry.actions_completed || 0}/{challenge.action_target}
+                    </span>
+                  </div>
+                  <Progress value={getProgress(challenge.id)} className="h-2" />
+                  {entry.completed_at && (
+                    <div className="flex items-center gap-1 text-sm text-green-700 dark:text-green-300">
+                      <CheckCircle className="h-4 w-4" />
+                      Target reached! Bonus paid when the challenge ends.
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <Button
+                  onClick={() => joinChallenge(challenge.id)}
+                  disabled={joining === challenge.id}
+                  className="w-full bg-gradient-to-r from-rose-500 to-amber-500 hover:from-rose-600 hover:to-amber-600"
+                >
+                  <Swords className="h-4 w-4 mr-2" />
+                  {joining === challenge.id ? 'Joining...' : 'Join the Challenge'}
+                </Button>
+              )}
+
+              {/* Stats Row */}
+              <div className="grid grid-cols-3 gap-3">
+                <div className="text-center p-2 rounded-lg bg-white/50 dark:bg-black/20">
+                  <Zap className="h-4 w-4 text-primary mx-auto mb-1" />
+                  <div className="text-sm font-bold text-foreground">+{challenge.base_reward}</div>
+                  <div className="text-xs text-muted-foreground">Per Action</div>
+                </div>
+                <div className="text-center p-2 rounded-lg bg-white/50 dark:bg-black/20">
+                  <Zap className="h-4 w-4 text-amber-500 mx-auto mb-1" />
+                  <div className="text-sm font-bold text-foreground">+{challenge.completion_bonus}</div>
+                  <div className="text-xs text-muted-foreground">Completion Bonus</div>
+                </div>
+                <div className="text-center p-2 rounded-lg bg-white/50 dark:bg-black/20">
+                  <Clock className="h-4 w-4 text-rose-500 mx-auto mb-1" />
+                  <div className="text-sm font-bold text-foreground">{daysRemaining}</div>
+                  <div className="text-xs text-muted-foreground">{daysRemaining === 1 ? 'Day Left' : 'Days Left'}</div>
+                </div>
+              </div>
+
+              {entry && (
+                <div className="text-xs text-muted-foreground text-center">
+                  {entry.light_earned || 0} Light earned from this challenge so far
+                </div>
+              )}
+            </div>
+          );
+        })}
+
+        <div className="text-xs text-muted-foreground text-center">
+          <p>The completion bonus is paid if the community reaches its goal by the end of the week</p>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
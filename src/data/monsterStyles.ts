@@ -0,0 +1,13 @@
+// Art style presets for generated monsters. Ids mirror STYLE_PRESETS in
+// supabase/functions/generate-monster-image/prompt-builder.ts.
+export const MONSTER_STYLES = [
+  { id: 'gothic-whimsy', name: 'Gothic Whimsy', description: 'Tim Burton-esque dark fantasy' },
+  { id: 'victorian-romance', name: 'Victorian Romance', description: 'Lace, lockets and gothic elegance' },
+  { id: 'dreamlike-surreal', name: 'Dreamlike Surreal', description: 'Soft pastel watercolor dreams' },
+  { id: 'storybook-friendly', name: 'Storybook Friendly', description: 'A gentle picture-book companion' },
+  { id: 'bioluminescent', name: 'Bioluminescent Deep', description: 'Glowing deep-sea creature' }
+] as const;
+
+export type MonsterStyle = typeof MONSTER_STYLES[number]['id'];
+
+export const DEFAULT_MONSTER_STYLE: MonsterStyle = 'gothic-whimsy';
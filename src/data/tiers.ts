@@ -0,0 +1,27 @@
+// Resistance tier definitions. Mirrors the tier_definitions table, which the
+// database uses to promote users whenever their total Light changes.
+export const TIERS = [
+  { tier: 1, threshold: 0, title: 'The Spark', description: 'A faint, glowing ember of hope' },
+  { tier: 2, threshold: 250, title: 'The Lamplighter', description: 'A steady, warm flame spreading light' },
+  { tier: 3, threshold: 1000, title: 'The Beacon', description: 'A lighthouse casting powerful beams' },
+  { tier: 4, threshold: 3000, title: 'The Sentinel', description: 'A radiant shield protecting others' },
+  { tier: 5, threshold: 7000, title: 'The Guardian', description: 'Glowing wings uplifting the community' },
+  { tier: 6, threshold: 15000, title: 'The Luminary', description: 'A constellation guiding others' },
+  { tier: 7, threshold: 30000, title: 'The Citadel Heart', description: 'The beating heart of hope itself' }
+] as const;
+
+export type TierDefinition = typeof TIERS[number];
+
+export const MAX_TIER = TIERS[TIERS.length - 1].tier;
+
+export const getTier = (tier: number): TierDefinition => {
+  return TIERS.find(t => t.tier === tier) || TIERS[0];
+};
+
+export const getNextTier = (tier: number): TierDefinition | undefined => {
+  return TIERS.find(t => t.tier === tier + 1);
+};
+
+export const getTierForLight = (totalLight: number): TierDefinition => {
+  return [...TIERS].reverse().find(t => totalLight >= t.threshold) || TIERS[0];
+};
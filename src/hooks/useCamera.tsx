@@ -1,4 +1,5 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
+import { processPhoto, ProcessedPhoto } from '@/lib/imageProcessing';
 
 export interface CameraState {
   isActive: boolean;
@@ -305,7 +306,7 @@ export const useCamera = () => {
     }, 100);
   }, [state.isActive, state.isLoading, state.facingMode, stopCamera, requestPermission]);
 
-  const capturePhoto = useCallback((): Promise<Blob> => {
+  const capturePhoto = useCallback((): Promise<ProcessedPhoto> => {
     return new Promise((resolve, reject) => {
       if (!videoRef.current || !streamRef.current) {
         reject(new Error('Camera not initialized'));
@@ -347,15 +348,12 @@ export const useCamera = () => {
         }
 
         context.drawImage(video, 0, 0, width, height);
-        
-        canvas.toBlob((blob) => {
-          if (blob && blob.size > 0) {
-            console.log('Photo captured:', blob.size, 'bytes');
-            resolve(blob);
-          } else {
-            reject(new Error('Failed to create photo - blob is empty'));
-          }
-        }, 'image/jpeg', 0.92);
+
+        // Encode straight from the frame, resized for upload
+        processPhoto(canvas).then((processed) => {
+          console.log('Photo captured:', processed.photo.size, 'bytes', `${processed.width}x${processed.height}`);
+          resolve(processed);
+        }).catch(reject);
         
       } catch (error: any) {
         console.error('Capture error:', error);
@@ -0,0 +1,446 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { usePoints } from '@/hooks/usePoints';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { CHALLENGE_PHOTOS_BUCKET } from '@/lib/challengePhotos';
+import {
+  QueuedCapture,
+  addCapture,
+  putCapture,
+  deleteCapture,
+  getCaptures,
+  isCaptureQueueAvailable,
+  isNetworkError
+} from '@/lib/captureQueue';
+
+export type NewCapture = Omit<QueuedCapture, 'id' | 'userId' | 'stage' | 'status' | 'attempts'>;
+
+export interface SavedCapture {
+  capture: QueuedCapture;
+  entryId: string;
+  lightEarned: number; // What the ledger actually awarded, 0 if it refused
+  isFirstPhoto: boolean;
+  replaced: boolean; // Swapped in for another device's photo of the same day
+}
+
+export type CaptureOutcome =
+  | { status: 'saved'; saved: SavedCapture }
+  | { status: 'queued' }
+  | { status: 'conflict' }
+  | { status: 'failed'; error: string };
+
+interface RecordedProgress {
+  current_streak: number;
+  total_photos: number;
+}
+
+// Captured photos go to IndexedDB first and are replayed in order, so a dropped
+// connection never loses the photo or the streak it earned
+export const useCaptureQueue = (onSaved?: (saved: SavedCapture) => void) => {
+  const { user } = useAuth();
+  const { awardLight } = usePoints();
+  const [captures, setCaptures] = useState<QueuedCapture[]>([]);
+  const [syncing, setSyncing] = useState(false);
+  const syncingRef = useRef(false);
+  const onSavedRef = useRef(onSaved);
+  onSavedRef.current = onSaved;
+
+  const refresh = useCallback(async () => {
+    if (!user) {
+      setCaptures([]);
+      return;
+    }
+
+    try {
+      setCaptures(await getCaptures(user.id));
+    } catch (error) {
+      console.error('Error loading queued photos:', error);
+    }
+  }, [user]);
+
+  const save = useCallback(async (capture: QueuedCapture) => {
+    // Captures saved without IndexedDB have no id and nothing to persist
+    const update = async (changes: Partial<QueuedCapture>) => {
+      Object.assign(capture, changes);
+      if (capture.id !== undefined) await putCapture(capture);
+    };
+
+    // Fixed paths plus upsert make the upload safe to repeat
+    if (capture.stage === 'captured') {
+      const { error: uploadError } = await supabase.storage
+        .from(CHALLENGE_PHOTOS_BUCKET)
+        .upload(capture.imagePath, capture.photo, { contentType: capture.contentType, upsert: true });
+
+      if (uploadError) throw uploadError;
+
+      // Galleries fall back to the full photo, so a failed thumbnail isn't fatal
+      let thumbnailPath = capture.thumbnailPath;
+      if (thumbnailPath) {
+        const { error: thumbnailError } = await supabase.storage
+          .from(CHALLENGE_PHOTOS_BUCKET)
+          .upload(thumbnailPath, capture.thumbnail, { contentType: capture.contentType, upsert: true });
+
+        if (thumbnailError) {
+          if (isNetworkError(thumbnailError)) throw thumbnailError;
+          console.error('Error uploading thumbnail:', thumbnailError);
+          thumbnailPath = null;
+        }
+      }
+
+      await update({ stage: 'uploaded', thumbnailPath });
+    }
+
+    if (capture.stage === 'uploaded') {
+      const findExisting = async () => {
+        const { data, error } = await supabase
+          .from('challenge_entries')
+          .select('id, image_path')
+          .eq('challenge_id', capture.challengeId)
+          .eq('user_id', capture.userId)
+          .eq('day_number', capture.dayNumber)
+          .maybeSingle();
+
+        if (error) throw error;
+        return data;
+      };
+
+      const existing = await findExisting();
+
+      // Our own entry from an attempt that dropped before it was recorded locally
+      const own = existing?.image_path === capture.imagePath ? existing : null;
+      if (existing && !own) {
+        await update({ status: 'conflict', conflictEntryId: existing.id });
+        return null;
+      }
+
+      let entryId = own?.id;
+      if (!entryId) {
+        const { data: entry, error: entryError } = await supabase
+          .from('challenge_entries')
+          .insert({
+            challenge_id: capture.challengeId,
+            user_id: capture.userId,
+            image_path: capture.imagePath,
+            thumbnail_path: capture.thumbnailPath,
+            day_number: capture.dayNumber,
+            taken_at: capture.takenAt
+          })
+          .select('id')
+          .single();
+
+        // Another device saved this day between our check and the insert
+        if (entryError?.code === '23505') {
+          const winner = await findExisting();
+          if (winner) {
+            await update({ status: 'conflict', conflictEntryId: winner.id });
+            return null;
+          }
+        }
+
+        if (entryError) throw entryError;
+        entryId = entry.id;
+      }
+
+      // The first photo becomes the pose guide for later days
+      if (capture.dayNumber === 1) {
+        const { error: guideError } = await supabase
+          .from('photo_challenges')
+          .update({ pose_guide_url: capture.imagePath })
+          .eq('id', capture.challengeId);
+
+        if (guideError) {
+          if (isNetworkError(guideError)) throw guideError;
+          console.error('Error updating pose guide:', guideError);
+        }
+      }
+
+      await update({ stage: 'entry_saved', entryId });
+    }
+
+    // The server counts each entry once, so repeating this after a lost response is safe.
+    // Older captures stopped after this step without keeping the result; asking again returns it.
+    if (capture.streak === undefined || capture.totalPhotos === undefined) {
+      const { data, error: progressError } = await supabase.rpc('record_challenge_photo', {
+        p_entry_id: capture.entryId!
+      });
+
+      if (progressError) throw progressError;
+
+      const progress = data as unknown as RecordedProgress;
+      await update({ stage: 'progress_saved', streak: progress.current_streak, totalPhotos: progress.total_photos });
+    }
+
+    // Award Light for photo challenge completion
+    const newStreak = capture.streak!;
+    const isFirstPhoto = capture.totalPhotos === 1;
+    const basePoints = 15;
+    const bonusPoints = isFirstPhoto ? 10 : 0;
+    const streakBonus = newStreak > 1 ? Math.min(newStreak * 2, 20) : 0;
+    const lightAmount = basePoints + bonusPoints + streakBonus;
+
+    // Light is paid once per entry, so a replay after a lost response can't pay twice
+    if (capture.stage !== 'light_awarded') {
+      const award = await awardLight(
+        'daily_photo_capture',
+        lightAmount,
+        capture.entryId!,
+        'challenge_entry',
+        {
+          challenge_id: capture.challengeId,
+          challenge_type: capture.targetArea,
+          day_number: capture.dayNumber,
+          taken_at: capture.takenAt,
+          streak: newStreak,
+          is_first_photo: isFirstPhoto,
+          base_points: basePoints,
+          bonus_points: bonusPoints,
+          streak_bonus: streakBonus
+        }
+      );
+
+      if (!award.success && isNetworkError(award.error)) {
+        throw new Error(award.error);
+      }
+
+      // Anything else (e.g. the daily cap) still saves the photo, just without Light
+      let lightEarned = award.success && 'pointsAwarded' in award ? award.pointsAwarded : 0;
+
+      // An earlier attempt was paid but its response never arrived
+      if (!award.success && 'code' in award && award.code === '23505') {
+        const { data: paid, error: paidError } = await supabase
+          .from('points_transactions')
+          .select('points_amount')
+          .eq('user_id', capture.userId)
+          .eq('action_type', 'daily_photo_capture')
+          .eq('source_type', 'challenge_entry')
+          .eq('source_id', capture.entryId!)
+          .maybeSingle();
+
+        if (paidError) {
+          if (isNetworkError(paidError)) throw paidError;
+          console.error('Error loading awarded Light:', paidError);
+        }
+        lightEarned = paid?.points_amount ?? 0;
+      }
+
+      await update({ stage: 'light_awarded', lightEarned });
+    }
+
+    if (capture.id !== undefined) await deleteCapture(capture.id);
+    return { capture, entryId: capture.entryId!, lightEarned: capture.lightEarned ?? 0, isFirstPhoto, replaced: false };
+  }, [awardLight]);
+
+  // Replay everything waiting, oldest first. Stops at the first network error so order is kept.
+  // Failed captures are left for retryCapture.
+  const sync = useCallback(async (): Promise<Record<number, CaptureOutcome>> => {
+    const outcomes: Record<number, CaptureOutcome> = {};
+    if (!user || syncingRef.current) return outcomes;
+
+    try {
+      syncingRef.current = true;
+      setSyncing(true);
+
+      const queued = await getCaptures(user.id);
+      for (const capture of queued) {
+        if (capture.status === 'conflict') {
+          outcomes[capture.id!] = { status: 'conflict' };
+          continue;
+        }
+
+        // Errors other than a dropped connection won't fix themselves; the user retries or discards
+        if (capture.status === 'failed') {
+          outcomes[capture.id!] = { status: 'failed', error: capture.lastError ?? "Couldn't save photo" };
+          continue;
+        }
+
+        try {
+          const saved = await save(capture);
+          if (saved) {
+            outcomes[capture.id!] = { status: 'saved', saved };
+            onSavedRef.current?.(saved);
+          } else {
+            outcomes[capture.id!] = { status: 'conflict' };
+          }
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String((error as { message?: string })?.message ?? error);
+          const offline = isNetworkError(error);
+          await putCapture({
+            ...capture,
+            status: offline ? 'pending' : 'failed',
+            attempts: capture.attempts + 1,
+            lastError: message
+          });
+
+          if (offline) {
+            outcomes[capture.id!] = { status: 'queued' };
+            break;
+          }
+
+          console.error('Error saving queued photo:', error);
+          outcomes[capture.id!] = { status: 'failed', error: message };
+        }
+      }
+    } catch (error) {
+      console.error('Error syncing queued photos:', error);
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+      await refresh();
+    }
+
+    return outcomes;
+  }, [user, save, refresh]);
+
+  // Persist a new capture and try to save it straight away
+  const queueCapture = useCallback(async (input: NewCapture): Promise<CaptureOutcome> => {
+    if (!user) return { status: 'failed', error: 'User not authenticated' };
+
+    const record: Omit<QueuedCapture, 'id'> = { ...input, userId: user.id, stage: 'captured', status: 'pending', attempts: 0 };
+
+    // Without IndexedDB (e.g. some private windows) save directly, as before
+    if (!(await isCaptureQueueAvailable())) {
+      try {
+        const saved = await save({ ...record });
+        // There is nowhere to keep the photo while the user resolves a conflict
+        return saved
+          ? { status: 'saved', saved }
+          : { status: 'failed', error: 'This day was already uploaded from another device.' };
+      } catch (error) {
+        return { status: 'failed', error: error.message };
+      }
+    }
+
+    const capture = await addCapture(record);
+    setCaptures(prev => [...prev, capture]);
+
+    // Another sync is running; it picks this capture up after the ones before it
+    if (syncingRef.current) return { status: 'queued' };
+
+    const outcomes = await sync();
+    return outcomes[capture.id!] ?? { status: 'queued' };
+  }, [user, save, sync]);
+
+  const retryCapture = useCallback(async (id: number) => {
+    const capture = captures.find(c => c.id === id);
+    if (!capture) return;
+
+    await putCapture({ ...capture, status: 'pending' });
+    await sync();
+  }, [captures, sync]);
+
+  // Drop a capture for good, including anything it already uploaded
+  const discardCapture = useCallback(async (id: number) => {
+    const capture = captures.find(c => c.id === id);
+    if (!capture) return;
+
+    try {
+      if (capture.stage !== 'captured' && !capture.entryId) {
+        const paths = [capture.imagePath, ...(capture.thumbnailPath ? [capture.thumbnailPath] : [])];
+        const { error } = await supabase.storage.from(CHALLENGE_PHOTOS_BUCKET).remove(paths);
+        if (error) console.error('Error removing discarded photo:', error);
+      }
+
+      await deleteCapture(id);
+      await refresh();
+    } catch (error) {
+      console.error('Error discarding queued photo:', error);
+      toast({
+        title: "Couldn't discard photo",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  }, [captures, refresh]);
+
+  // Resolve a conflict by swapping the other device's photo for this one.
+  // Progress and Light were already counted for that day, so only the entry changes.
+  const replaceExisting = useCallback(async (id: number) => {
+    const capture = captures.find(c => c.id === id);
+    if (!capture?.conflictEntryId) return { success: false, error: 'Nothing to replace' };
+
+    try {
+      const { data: replaced, error: replacedError } = await supabase
+        .from('challenge_entries')
+        .select('image_path, thumbnail_path')
+        .eq('id', capture.conflictEntryId)
+        .eq('user_id', capture.userId)
+        .single();
+
+      if (replacedError) throw replacedError;
+
+      const { error } = await supabase
+        .from('challenge_entries')
+        .update({
+          image_path: capture.imagePath,
+          thumbnail_path: capture.thumbnailPath,
+          taken_at: capture.takenAt,
+          ai_feedback: null,
+          ai_sentiment: null
+        })
+        .eq('id', capture.conflictEntryId)
+        .eq('user_id', capture.userId);
+
+      if (error) throw error;
+
+      // Keep the pose guide pointing at a photo that still exists
+      if (capture.dayNumber === 1) {
+        const { error: guideError } = await supabase
+          .from('photo_challenges')
+          .update({ pose_guide_url: capture.imagePath })
+          .eq('id', capture.challengeId)
+          .eq('pose_guide_url', replaced.image_path);
+
+        if (guideError) console.error('Error updating pose guide:', guideError);
+      }
+
+      // The entry no longer points at the old photo, so nothing else will remove it
+      const stale = [replaced.image_path, replaced.thumbnail_path].filter(
+        (path): path is string => !!path && path !== capture.imagePath && path !== capture.thumbnailPath
+      );
+      if (stale.length > 0) {
+        const { error: removeError } = await supabase.storage.from(CHALLENGE_PHOTOS_BUCKET).remove(stale);
+        if (removeError) console.error('Error removing replaced photo:', removeError);
+      }
+
+      await deleteCapture(id);
+      await refresh();
+      onSavedRef.current?.({ capture, entryId: capture.conflictEntryId, lightEarned: 0, isFirstPhoto: false, replaced: true });
+      return { success: true, entryId: capture.conflictEntryId };
+    } catch (error) {
+      console.error('Error replacing photo:', error);
+      toast({
+        title: "Couldn't replace photo",
+        description: error.message,
+        variant: "destructive"
+      });
+      return { success: false, error: error.message };
+    }
+  }, [captures, refresh]);
+
+  useEffect(() => {
+    if (!user) {
+      setCaptures([]);
+      return;
+    }
+
+    // Anything left from an earlier session is replayed as soon as possible
+    sync();
+
+    window.addEventListener('online', sync);
+    return () => window.removeEventListener('online', sync);
+  }, [user, sync]);
+
+  const pendingCount = (challengeId: string) => captures.filter(c => c.challengeId === challengeId).length;
+
+  return {
+    captures,
+    syncing,
+    pendingCount,
+    queueCapture,
+    retryCapture,
+    discardCapture,
+    replaceExisting,
+    sync
+  };
+};
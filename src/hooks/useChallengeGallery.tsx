@@ -0,0 +1,126 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+
+export interface GalleryChallenge {
+  id: string;
+  title: string;
+  target_area: string;
+  target_days: number;
+  created_at: string;
+}
+
+export interface GalleryEntry {
+  id: string;
+  day_number: number;
+  taken_at: string;
+  image_path: string;
+  thumbnail_path: string | null;
+  notes: string | null;
+  exclude_from_timelapse: boolean;
+  ai_feedback: string | null;
+}
+
+export const MAX_ENTRY_NOTES_LENGTH = 1000;
+
+const ENTRY_COLUMNS = 'id, day_number, taken_at, image_path, thumbnail_path, notes, exclude_from_timelapse, ai_feedback';
+
+// All photos of one challenge in day order, with per-day notes and time-lapse selection
+export const useChallengeGallery = (challengeId: string | undefined) => {
+  const { user } = useAuth();
+  const [challenge, setChallenge] = useState<GalleryChallenge | null>(null);
+  const [entries, setEntries] = useState<GalleryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  const fetchGallery = useCallback(async () => {
+    if (!user || !challengeId) return;
+
+    try {
+      setLoading(true);
+
+      const { data: challengeData, error: challengeError } = await supabase
+        .from('photo_challenges')
+        .select('id, title, target_area, target_days, created_at')
+        .eq('id', challengeId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (challengeError) throw challengeError;
+
+      const { data: entriesData, error: entriesError } = await supabase
+        .from('challenge_entries')
+        .select(ENTRY_COLUMNS)
+        .eq('challenge_id', challengeId)
+        .eq('user_id', user.id)
+        .order('day_number', { ascending: true })
+        .order('taken_at', { ascending: true });
+
+      if (entriesError) throw entriesError;
+
+      setChallenge(challengeData as GalleryChallenge | null);
+      setEntries((entriesData || []) as GalleryEntry[]);
+    } catch (error) {
+      console.error('Error fetching challenge gallery:', error);
+      toast({
+        title: "Loading Failed",
+        description: "Failed to load your photos. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, challengeId]);
+
+  const updateEntry = useCallback(async (entryId: string, changes: Pick<Partial<GalleryEntry>, 'notes' | 'exclude_from_timelapse'>) => {
+    if (!user) return { success: false, error: 'User not authenticated' };
+
+    try {
+      setSaving(entryId);
+
+      const { data, error } = await supabase
+        .from('challenge_entries')
+        .update(changes)
+        .eq('id', entryId)
+        .eq('user_id', user.id)
+        .select(ENTRY_COLUMNS)
+        .single();
+
+      if (error) throw error;
+
+      setEntries(prev => prev.map(e => (e.id === entryId ? (data as GalleryEntry) : e)));
+      return { success: true, entry: data as GalleryEntry };
+    } catch (error) {
+      console.error('Error updating challenge entry:', error);
+      toast({
+        title: "Couldn't save changes",
+        description: error.message,
+        variant: "destructive"
+      });
+      return { success: false, error: error.message };
+    } finally {
+      setSaving(null);
+    }
+  }, [user]);
+
+  const saveNotes = useCallback((entryId: string, notes: string) =>
+    updateEntry(entryId, { notes: notes.trim() || null }), [updateEntry]);
+
+  const setExcluded = useCallback((entryId: string, excluded: boolean) =>
+    updateEntry(entryId, { exclude_from_timelapse: excluded }), [updateEntry]);
+
+  useEffect(() => {
+    fetchGallery();
+  }, [fetchGallery]);
+
+  return {
+    challenge,
+    entries,
+    loading,
+    saving,
+    saveNotes,
+    setExcluded,
+    refetch: fetchGallery
+  };
+};
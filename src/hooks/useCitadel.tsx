@@ -0,0 +1,208 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { Json } from '@/integrations/supabase/types';
+
+export interface CitadelUpgrade {
+  id: string;
+  name: string;
+  description: string | null;
+  upgrade_type: string;
+  cost: number;
+  current_level: number | null;
+  max_level: number | null;
+  progress_light: number;
+  perk: Json;
+  last_leveled_at: string | null;
+}
+
+export interface CitadelContributor {
+  user_id: string;
+  display_name: string;
+  light_spent: number;
+  contributions: number;
+  last_contributed_at: string;
+}
+
+interface ActionLimitPerk {
+  type: 'action_limit';
+  action_types: string[];
+  per_level: number;
+}
+
+interface ContributionResult {
+  light_spent: number;
+  levels_gained: number;
+  total_light: number;
+  upgrade: CitadelUpgrade;
+}
+
+const ACTION_NAMES: Record<string, string> = {
+  beacon_hope: 'Beacon of Hope',
+  silence_whispers: 'Silence Whispers',
+  reinforce_resistance: 'Welcome',
+  expose_deceit: 'Expose Deceit',
+  forge_alliance: 'Forge Alliance'
+};
+
+const isActionLimitPerk = (perk: Json): perk is ActionLimitPerk & { [key: string]: Json } =>
+  !!perk && typeof perk === 'object' && !Array.isArray(perk) && perk.type === 'action_limit';
+
+// Human-readable perk granted per level, or null for upgrades without a perk yet
+export const describePerk = (upgrade: CitadelUpgrade): string | null => {
+  if (!isActionLimitPerk(upgrade.perk)) return null;
+
+  const actions = upgrade.perk.action_types.map(action => ACTION_NAMES[action] || action).join(', ');
+  return `+${upgrade.perk.per_level} daily ${actions} per level for everyone`;
+};
+
+export const isMaxLevel = (upgrade: CitadelUpgrade) =>
+  (upgrade.current_level || 0) >= (upgrade.max_level || 0);
+
+export const useCitadel = () => {
+  const { user } = useAuth();
+  const [upgrades, setUpgrades] = useState<CitadelUpgrade[]>([]);
+  const [myContributions, setMyContributions] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(false);
+  const [contributing, setContributing] = useState<string | null>(null);
+
+  const fetchUpgrades = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+
+      const { data: upgradesData, error: upgradesError } = await supabase
+        .from('citadel_upgrades')
+        .select('id, name, description, upgrade_type, cost, current_level, max_level, progress_light, perk, last_leveled_at')
+        .eq('is_active', true)
+        .order('cost', { ascending: true });
+
+      if (upgradesError) throw upgradesError;
+
+      const { data: contributionsData, error: contributionsError } = await supabase
+        .from('user_citadel_contributions')
+        .select('upgrade_id, light_spent')
+        .eq('user_id', user.id);
+
+      if (contributionsError) throw contributionsError;
+
+      const totals: Record<string, number> = {};
+      (contributionsData || []).forEach(contribution => {
+        totals[contribution.upgrade_id] = (totals[contribution.upgrade_id] || 0) + contribution.light_spent;
+      });
+
+      setUpgrades(upgradesData || []);
+      setMyContributions(totals);
+    } catch (error) {
+      console.error('Error fetching citadel upgrades:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  // Spend Light on an upgrade. The server deducts it from the ledger and levels the upgrade up.
+  const contribute = useCallback(async (upgradeId: string, amount: number) => {
+    if (!user) return { success: false, error: 'User not authenticated' };
+
+    try {
+      setContributing(upgradeId);
+
+      const { data, error } = await supabase.rpc('contribute_to_citadel', {
+        p_upgrade_id: upgradeId,
+        p_amount: amount
+      });
+
+      if (error) throw error;
+
+      const result = data as unknown as ContributionResult;
+
+      setUpgrades(prev => prev.map(upgrade => (upgrade.id === upgradeId ? result.upgrade : upgrade)));
+      setMyContributions(prev => ({ ...prev, [upgradeId]: (prev[upgradeId] || 0) + result.light_spent }));
+
+      if (result.levels_gained > 0) {
+        toast({
+          title: `${result.upgrade.name} reached level ${result.upgrade.current_level}! 🏰`,
+          description: 'The whole community benefits from your Light.',
+          duration: 5000,
+        });
+      } else {
+        toast({
+          title: "Light Contributed!",
+          description: `${result.light_spent} Light pooled into ${result.upgrade.name}`,
+          duration: 3000,
+        });
+      }
+
+      return { success: true, lightSpent: result.light_spent, totalLight: result.total_light };
+    } catch (error) {
+      console.error('Error contributing to citadel:', error);
+      toast({
+        title: "Contribution failed",
+        description: error.message,
+        variant: "destructive",
+      });
+      return { success: false, error: error.message };
+    } finally {
+      setContributing(null);
+    }
+  }, [user]);
+
+  const fetchLeaderboard = useCallback(async (upgradeId: string, limit = 10): Promise<CitadelContributor[]> => {
+    try {
+      const { data, error } = await supabase.rpc('citadel_leaderboard', {
+        p_upgrade_id: upgradeId,
+        p_limit: limit
+      });
+
+      if (error) throw error;
+
+      return data || [];
+    } catch (error) {
+      console.error('Error fetching citadel leaderboard:', error);
+      return [];
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!user) {
+      setUpgrades([]);
+      setMyContributions({});
+      return;
+    }
+
+    fetchUpgrades();
+
+    // Other users' contributions move the shared progress bars
+    const channel = supabase
+      .channel('citadel-upgrades')
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'citadel_upgrades'
+        },
+        (payload) => {
+          const updated = payload.new as CitadelUpgrade;
+          setUpgrades(prev => prev.map(upgrade => (upgrade.id === updated.id ? { ...upgrade, ...updated } : upgrade)));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchUpgrades]);
+
+  return {
+    upgrades,
+    myContributions,
+    loading,
+    contributing,
+    contribute,
+    fetchLeaderboard,
+    fetchUpgrades
+  };
+};
@@ -63,8 +63,21 @@ export const useCommunityActions = () => {
 
       if (error) throw error;
 
+      // Daily caps include perks unlocked by the community in the Citadel
+      const { data: limits, error: limitsError } = await supabase.rpc('effective_action_limits');
+
+      if (limitsError) console.error('Error fetching action limits:', limitsError);
+
       // Update action counts
-      const updatedActions = { ...COMMUNITY_ACTIONS };
+      const updatedActions: Record<string, CommunityAction> = {};
+      Object.entries(COMMUNITY_ACTIONS).forEach(([actionType, action]) => {
+        updatedActions[actionType] = { ...action };
+      });
+      limits?.forEach(limit => {
+        if (updatedActions[limit.action_type] && limit.daily_limit !== null) {
+          updatedActions[limit.action_type].max_daily = limit.daily_limit;
+        }
+      });
       todaysActions?.forEach(action => {
         if (updatedActions[action.action_type]) {
           updatedActions[action.action_type].daily_count = action.daily_count;
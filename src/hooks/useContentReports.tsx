@@ -0,0 +1,86 @@
+import { useState, useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+
+// Matches report_thresholds.content_type
+export type ReportContentType = 'relief_strategy' | 'community_interaction' | 'message' | 'user';
+export type ReportReason = 'harassment' | 'spam' | 'misinformation' | 'hate' | 'self_harm' | 'other';
+
+export const REPORT_REASONS: { value: ReportReason; label: string }[] = [
+  { value: 'harassment', label: 'Harassment or bullying' },
+  { value: 'spam', label: 'Spam or advertising' },
+  { value: 'misinformation', label: 'Dangerous medical misinformation' },
+  { value: 'hate', label: 'Hate speech' },
+  { value: 'self_harm', label: 'Self-harm or crisis' },
+  { value: 'other', label: 'Something else' }
+];
+
+export const MAX_REPORT_DETAILS_LENGTH = 1000;
+
+export interface ReportInput {
+  contentType: ReportContentType;
+  contentId: string;
+  reason: ReportReason;
+  details?: string;
+  blockAuthor?: boolean;
+}
+
+export interface ContentReport {
+  id: string;
+  content_type: ReportContentType;
+  content_id: string;
+  reason: ReportReason;
+  status: 'open' | 'dismissed' | 'actioned';
+  created_at: string;
+  hidden: boolean; // Whether this report pushed the content past its hiding threshold
+}
+
+export const useContentReports = () => {
+  const { user } = useAuth();
+  const [submitting, setSubmitting] = useState(false);
+
+  const reportContent = useCallback(async ({ contentType, contentId, reason, details, blockAuthor = false }: ReportInput) => {
+    if (!user) return { success: false, error: 'User not authenticated' };
+
+    try {
+      setSubmitting(true);
+
+      const { data, error } = await supabase.rpc('report_content', {
+        p_content_type: contentType,
+        p_content_id: contentId,
+        p_reason: reason,
+        p_details: details?.trim() || undefined,
+        p_block_author: blockAuthor
+      });
+
+      if (error) throw error;
+
+      const report = data as unknown as ContentReport;
+
+      toast({
+        title: "Report Sent",
+        description: blockAuthor
+          ? "Thanks for letting us know. You won't see each other in Connections anymore."
+          : "Thanks for letting us know. Our moderators will take a look."
+      });
+
+      return { success: true, report };
+    } catch (error) {
+      console.error('Error reporting content:', error);
+      toast({
+        title: "Couldn't send report",
+        description: error.message,
+        variant: "destructive"
+      });
+      return { success: false, error: error.message };
+    } finally {
+      setSubmitting(false);
+    }
+  }, [user]);
+
+  return {
+    submitting,
+    reportContent
+  };
+};
@@ -0,0 +1,93 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface Job {
+  id: string;
+  job_type: string;
+  status: JobStatus;
+  result: Json | null;
+  last_error: string | null;
+  attempts: number;
+  max_attempts: number;
+  run_at: string;
+  completed_at: string | null;
+}
+
+// Realtime is the primary signal; polling covers dropped connections
+const POLL_INTERVAL_MS = 5000;
+
+const isFinished = (status?: JobStatus) => status === 'succeeded' || status === 'failed';
+
+// Follow a background job (see the process-jobs edge function) until it settles
+export const useJob = (jobId: string | null | undefined) => {
+  const [job, setJob] = useState<Job | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchJob = useCallback(async () => {
+    if (!jobId) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('jobs')
+        .select('id, job_type, status, result, last_error, attempts, max_attempts, run_at, completed_at')
+        .eq('id', jobId)
+        .single();
+
+      if (error) throw error;
+
+      setJob(data as Job);
+    } catch (error) {
+      console.error('Error fetching job:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [jobId]);
+
+  useEffect(() => {
+    setJob(null);
+    if (!jobId) return;
+
+    setLoading(true);
+    fetchJob();
+
+    const channel = supabase
+      .channel(`job-${jobId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'jobs',
+          filter: `id=eq.${jobId}`
+        },
+        (payload) => {
+          setJob(prev => ({ ...prev, ...(payload.new as Job) }));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [jobId, fetchJob]);
+
+  useEffect(() => {
+    if (!jobId || isFinished(job?.status)) return;
+
+    const interval = setInterval(fetchJob, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [jobId, job?.status, fetchJob]);
+
+  return {
+    job,
+    status: job?.status ?? null,
+    result: job?.result ?? null,
+    error: job?.last_error ?? null,
+    isFinished: isFinished(job?.status),
+    loading,
+    refetch: fetchJob
+  };
+};
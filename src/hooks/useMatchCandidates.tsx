@@ -0,0 +1,106 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+
+// One scored aspect of a compatibility breakdown (see compatibility_dimensions)
+export interface CompatibilityDimension {
+  key: string;
+  label: string;
+  description: string | null;
+  method: 'jaccard' | 'complementary';
+  weight: number;
+  score: number | null; // 0-100, null when either profile left it empty
+  points: number; // Contribution to the total match score
+  shared: string[]; // Empty for private health dimensions until a match is accepted
+  shared_count?: number;
+}
+
+export interface MatchCandidate {
+  user_id: string;
+  display_name: string | null;
+  username: string | null;
+  bio: string | null;
+  monster_keywords: string[] | null;
+  shared_keywords: string[];
+  shared_symptoms: string[];
+  match_score: number;
+  breakdown: CompatibilityDimension[];
+}
+
+export interface CandidateFilters {
+  minScore: number;
+  sharedSymptom: string | null;
+}
+
+const PAGE_SIZE = 20;
+
+export const useMatchCandidates = (filters: CandidateFilters) => {
+  const { user } = useAuth();
+  const [candidates, setCandidates] = useState<MatchCandidate[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const { minScore, sharedSymptom } = filters;
+
+  const fetchPage = useCallback(async (offset: number) => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase.rpc('search_match_candidates', {
+        p_min_score: minScore,
+        p_shared_symptom: sharedSymptom ?? undefined,
+        p_limit: PAGE_SIZE,
+        p_offset: offset
+      });
+
+      if (error) throw error;
+
+      const rows = data || [];
+      const page: MatchCandidate[] = rows.map(({ total_count, ...candidate }) => ({
+        ...candidate,
+        shared_keywords: candidate.shared_keywords || [],
+        shared_symptoms: candidate.shared_symptoms || [],
+        breakdown: (candidate.breakdown || []) as unknown as CompatibilityDimension[]
+      }));
+
+      setCandidates(prev => (offset === 0 ? page : [...prev, ...page]));
+      // An empty page past the end carries no count, so keep the last known one
+      if (rows.length > 0 || offset === 0) {
+        setTotalCount(rows.length > 0 ? Number(rows[0].total_count) : 0);
+      }
+    } catch (error) {
+      console.error('Error fetching match candidates:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load connections. Please try again.",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user, minScore, sharedSymptom]);
+
+  const loadMore = useCallback(() => fetchPage(candidates.length), [fetchPage, candidates.length]);
+  const refresh = useCallback(() => fetchPage(0), [fetchPage]);
+
+  useEffect(() => {
+    if (!user) {
+      setCandidates([]);
+      setTotalCount(0);
+      return;
+    }
+
+    fetchPage(0);
+  }, [user, fetchPage]);
+
+  return {
+    candidates,
+    totalCount,
+    hasMore: candidates.length < totalCount,
+    loading,
+    loadMore,
+    refresh
+  };
+};
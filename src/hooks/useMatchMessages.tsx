@@ -0,0 +1,265 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { RealtimeChannel } from '@supabase/supabase-js';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+
+// The relief strategy card attached to a message
+export interface MessageStrategy {
+  id: string;
+  title: string;
+  description: string;
+  strategy_type: string;
+  effectiveness_rating: number | null;
+}
+
+export interface MatchMessage {
+  id: string;
+  match_id: number;
+  sender_id: string;
+  body: string | null;
+  strategy_id: string | null;
+  created_at: string;
+  strategy?: MessageStrategy | null; // null when the strategy was removed or hidden
+}
+
+export const MAX_MESSAGE_LENGTH = 2000;
+
+const STRATEGY_COLUMNS = 'id, title, description, strategy_type, effectiveness_rating';
+const MESSAGE_COLUMNS = `id, match_id, sender_id, body, strategy_id, created_at, strategy:relief_strategies(${STRATEGY_COLUMNS})`;
+
+// How often our typing state is broadcast, and how long theirs lasts without a refresh
+const TYPING_THROTTLE_MS = 2000;
+const TYPING_TIMEOUT_MS = 5000;
+
+const byCreatedAt = (a: MatchMessage, b: MatchMessage) =>
+  a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id);
+
+export const useMatchMessages = (matchId: number | null) => {
+  const { user } = useAuth();
+  const [messages, setMessages] = useState<MatchMessage[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [otherLastReadAt, setOtherLastReadAt] = useState<string | null>(null);
+  const [otherTyping, setOtherTyping] = useState(false);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const lastTypingSentRef = useRef(0);
+  const typingTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+
+  const upsertMessage = useCallback((message: MatchMessage) => {
+    setMessages(prev => {
+      const existing = prev.find(m => m.id === message.id);
+      const merged = existing ? { ...existing, ...message, strategy: message.strategy ?? existing.strategy } : message;
+      const next = existing ? prev.map(m => (m.id === message.id ? merged : m)) : [...prev, merged];
+      return next.sort(byCreatedAt);
+    });
+  }, []);
+
+  const removeMessage = useCallback((messageId: string) => {
+    setMessages(prev => prev.filter(m => m.id !== messageId));
+  }, []);
+
+  const markRead = useCallback(async () => {
+    if (!user || !matchId) return;
+
+    const { error } = await supabase.rpc('mark_messages_read', { p_match_id: matchId });
+    if (error) {
+      console.error('Error marking messages read:', error);
+    }
+  }, [user, matchId]);
+
+  const fetchMessages = useCallback(async () => {
+    if (!user || !matchId) return;
+
+    try {
+      setLoading(true);
+
+      const [messagesResult, readsResult] = await Promise.all([
+        supabase
+          .from('match_messages')
+          .select(MESSAGE_COLUMNS)
+          .eq('match_id', matchId)
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('match_message_reads')
+          .select('last_read_at')
+          .eq('match_id', matchId)
+          .neq('user_id', user.id)
+          .maybeSingle()
+      ]);
+
+      if (messagesResult.error) throw messagesResult.error;
+      if (readsResult.error) throw readsResult.error;
+
+      setMessages((messagesResult.data || []) as unknown as MatchMessage[]);
+      setOtherLastReadAt(readsResult.data?.last_read_at ?? null);
+      await markRead();
+    } catch (error) {
+      console.error('Error fetching messages:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, matchId, markRead]);
+
+  const sendMessage = useCallback(async (body: string, strategyId: string | null = null) => {
+    if (!user || !matchId) return { success: false, error: 'User not authenticated' };
+
+    try {
+      setSending(true);
+
+      const { data, error } = await supabase
+        .from('match_messages')
+        .insert({ match_id: matchId, sender_id: user.id, body: body.trim() || null, strategy_id: strategyId })
+        .select(MESSAGE_COLUMNS)
+        .single();
+
+      if (error) throw error;
+
+      const message = data as unknown as MatchMessage;
+      upsertMessage(message);
+      lastTypingSentRef.current = 0;
+      return { success: true, message };
+    } catch (error) {
+      console.error('Error sending message:', error);
+      toast({
+        title: "Couldn't send message",
+        description: error.message,
+        variant: "destructive"
+      });
+      return { success: false, error: error.message };
+    } finally {
+      setSending(false);
+    }
+  }, [user, matchId, upsertMessage]);
+
+  // Call on every keystroke; broadcasts are throttled
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (!user || !channelRef.current || now - lastTypingSentRef.current < TYPING_THROTTLE_MS) return;
+
+    lastTypingSentRef.current = now;
+    channelRef.current.send({ type: 'broadcast', event: 'typing', payload: { user_id: user.id } });
+  }, [user]);
+
+  useEffect(() => {
+    if (!user || !matchId) {
+      setMessages([]);
+      setOtherLastReadAt(null);
+      setOtherTyping(false);
+      return;
+    }
+
+    fetchMessages();
+
+    const handleMessage = async (payload: { new: unknown }) => {
+      const message = payload.new as MatchMessage;
+      if (!message?.id) return;
+
+      // Realtime rows don't include the joined strategy card
+      if (message.strategy_id) {
+        const { data } = await supabase
+          .from('relief_strategies')
+          .select(STRATEGY_COLUMNS)
+          .eq('id', message.strategy_id)
+          .maybeSingle();
+        message.strategy = data;
+      }
+
+      upsertMessage(message);
+      if (message.sender_id !== user.id) {
+        setOtherTyping(false);
+        // The chat is open, so their messages are read as they arrive
+        markRead();
+      }
+    };
+
+    const handleRead = (payload: { new: unknown }) => {
+      const read = payload.new as { user_id?: string; last_read_at?: string };
+      if (read?.user_id && read.user_id !== user.id && read.last_read_at) {
+        setOtherLastReadAt(read.last_read_at);
+      }
+    };
+
+    const channel = supabase
+      .channel(`match-chat-${matchId}`, { config: { broadcast: { self: false } } })
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'match_messages', filter: `match_id=eq.${matchId}` }, handleMessage)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'match_message_reads', filter: `match_id=eq.${matchId}` }, handleRead)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'match_message_reads', filter: `match_id=eq.${matchId}` }, handleRead)
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        if (payload?.user_id === user.id) return;
+
+        setOtherTyping(true);
+        clearTimeout(typingTimeoutRef.current);
+        typingTimeoutRef.current = setTimeout(() => setOtherTyping(false), TYPING_TIMEOUT_MS);
+      })
+      .subscribe();
+
+    channelRef.current = channel;
+
+    return () => {
+      clearTimeout(typingTimeoutRef.current);
+      channelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [user, matchId, fetchMessages, upsertMessage, markRead]);
+
+  return {
+    messages,
+    loading,
+    sending,
+    otherLastReadAt,
+    otherTyping,
+    sendMessage,
+    notifyTyping,
+    removeMessage,
+    fetchMessages
+  };
+};
+
+// Unread messages per accepted match, kept live while mounted
+export const useMessageUnreadCounts = () => {
+  const { user } = useAuth();
+  const [unreadCounts, setUnreadCounts] = useState<Record<number, number>>({});
+
+  const fetchUnreadCounts = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase.rpc('message_unread_counts');
+    if (error) {
+      console.error('Error fetching message unread counts:', error);
+      return;
+    }
+
+    setUnreadCounts(Object.fromEntries((data || []).map(row => [row.match_id, Number(row.unread_count)])));
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      setUnreadCounts({});
+      return;
+    }
+
+    fetchUnreadCounts();
+
+    // RLS limits these events to conversations the user belongs to
+    const channel = supabase
+      .channel(`message-unread-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'match_messages' },
+        (payload) => {
+          const message = payload.new as MatchMessage;
+          if (!message?.match_id || message.sender_id === user.id) return;
+
+          setUnreadCounts(prev => ({ ...prev, [message.match_id]: (prev[message.match_id] || 0) + 1 }));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchUnreadCounts]);
+
+  return { unreadCounts, fetchUnreadCounts };
+};
@@ -0,0 +1,389 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { CompatibilityDimension } from '@/hooks/useMatchCandidates';
+
+export type ConnectionStatus = 'pending' | 'accepted' | 'declined' | 'blocked';
+export type MatchResponse = 'accepted' | 'declined' | 'blocked';
+
+export interface MatchLearning {
+  kind: 'strategy' | 'supplement' | 'medication';
+  title: string;
+  symptoms?: string[]; // Which of the learner's symptoms a strategy helps with
+}
+
+// Stored on the match when it is requested, so it doesn't drift as profiles change.
+// Matches from before explanations only have shared_keywords.
+export interface MatchExplanation {
+  score?: number;
+  dimensions?: CompatibilityDimension[]; // From the requester's point of view
+  shared_keywords?: string[];
+  shared_symptoms?: string[];
+  shared_strategies?: string[];
+  learnings?: Record<string, MatchLearning[]>; // Keyed by the user who would learn them
+  computed_at?: string;
+}
+
+export interface Match {
+  id: number;
+  user1_id: string; // Requester
+  user2_id: string; // Recipient
+  connection_status: ConnectionStatus;
+  compatibility_score: number | null;
+  match_reason: MatchExplanation | null;
+  responded_at: string | null;
+  last_interaction_at: string | null;
+  created_at: string | null;
+}
+
+export interface MatchProfile {
+  user_id: string;
+  display_name: string | null;
+  username: string | null;
+  bio: string | null;
+  monster_keywords: string[] | null;
+}
+
+interface MatchResult extends Match {
+  created?: boolean;
+  unlocked_achievements?: { id: string; name: string; points_reward: number }[];
+}
+
+const MATCH_COLUMNS = 'id, user1_id, user2_id, connection_status, compatibility_score, match_reason, responded_at, last_interaction_at, created_at';
+
+export const getOtherUserId = (match: Match, userId: string) =>
+  match.user1_id === userId ? match.user2_id : match.user1_id;
+
+const toastUnlockedAchievements = (achievements: MatchResult['unlocked_achievements']) => {
+  (achievements || []).forEach(achievement => {
+    toast({
+      title: "Achievement Unlocked! 🏆",
+      description: achievement.points_reward > 0
+        ? `${achievement.name}: +${achievement.points_reward} Light!`
+        : achievement.name,
+      duration: 5000,
+    });
+  });
+};
+
+const displayName = (profile?: MatchProfile | null) =>
+  profile?.display_name || profile?.username || 'Someone';
+
+const fetchProfiles = async (userIds: string[]): Promise<Record<string, MatchProfile>> => {
+  if (userIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('user_id, display_name, username, bio, monster_keywords')
+    .in('user_id', userIds);
+
+  if (error) throw error;
+
+  return Object.fromEntries((data || []).map(profile => [profile.user_id, profile]));
+};
+
+export const useMatches = () => {
+  const { user } = useAuth();
+  const [matches, setMatches] = useState<Match[]>([]);
+  const [profiles, setProfiles] = useState<Record<string, MatchProfile>>({});
+  // People this user blocked; only the blocker can read who set a block
+  const [blockedIds, setBlockedIds] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [updating, setUpdating] = useState<string | number | null>(null);
+
+  const upsertMatch = useCallback((match: Match) => {
+    setMatches(prev => {
+      const exists = prev.some(m => m.id === match.id);
+      return exists ? prev.map(m => (m.id === match.id ? { ...m, ...match } : m)) : [match, ...prev];
+    });
+  }, []);
+
+  const fetchMatches = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+
+      const [matchesResult, blocksResult] = await Promise.all([
+        supabase
+          .from('matches')
+          .select(MATCH_COLUMNS)
+          .or(`user1_id.eq.${user.id},user2_id.eq.${user.id}`)
+          .order('last_interaction_at', { ascending: false }),
+        supabase
+          .from('user_blocks')
+          .select('blocked_id')
+          .eq('blocker_id', user.id)
+      ]);
+
+      if (matchesResult.error) throw matchesResult.error;
+      if (blocksResult.error) throw blocksResult.error;
+
+      const rows = (matchesResult.data || []) as unknown as Match[];
+      setMatches(rows);
+      setBlockedIds((blocksResult.data || []).map(block => block.blocked_id));
+      setProfiles(await fetchProfiles([...new Set(rows.map(match => getOtherUserId(match, user.id)))]));
+    } catch (error) {
+      console.error('Error fetching matches:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  // Send a connection request (or accept theirs, if they already asked)
+  const requestMatch = useCallback(async (targetUserId: string) => {
+    if (!user) return { success: false, error: 'User not authenticated' };
+
+    try {
+      setUpdating(targetUserId);
+
+      const { data, error } = await supabase.rpc('request_match', {
+        p_target_user_id: targetUserId
+      });
+
+      if (error) throw error;
+
+      const { created, unlocked_achievements, ...match } = data as unknown as MatchResult;
+      upsertMatch(match);
+      toastUnlockedAchievements(unlocked_achievements);
+
+      return { success: true, match, created: !!created };
+    } catch (error) {
+      console.error('Error requesting match:', error);
+      toast({
+        title: "Couldn't send request",
+        description: error.message,
+        variant: "destructive"
+      });
+      return { success: false, error: error.message };
+    } finally {
+      setUpdating(null);
+    }
+  }, [user, upsertMatch]);
+
+  // Accept, decline or block a match
+  const respondToMatch = useCallback(async (matchId: number, response: MatchResponse) => {
+    if (!user) return { success: false, error: 'User not authenticated' };
+
+    try {
+      setUpdating(matchId);
+
+      const { data, error } = await supabase.rpc('respond_to_match', {
+        p_match_id: matchId,
+        p_response: response
+      });
+
+      if (error) throw error;
+
+      const { unlocked_achievements, ...match } = data as unknown as MatchResult;
+      upsertMatch(match);
+      if (response === 'blocked') {
+        const otherUserId = getOtherUserId(match, user.id);
+        setBlockedIds(prev => (prev.includes(otherUserId) ? prev : [...prev, otherUserId]));
+      }
+      toastUnlockedAchievements(unlocked_achievements);
+
+      return { success: true, match };
+    } catch (error) {
+      console.error('Error responding to match:', error);
+      toast({
+        title: "Couldn't update connection",
+        description: error.message,
+        variant: "destructive"
+      });
+      return { success: false, error: error.message };
+    } finally {
+      setUpdating(null);
+    }
+  }, [user, upsertMatch]);
+
+  // Block someone, whether or not you were ever matched
+  const blockUser = useCallback(async (otherUserId: string) => {
+    if (!user) return { success: false, error: 'User not authenticated' };
+
+    try {
+      setUpdating(otherUserId);
+
+      const { data, error } = await supabase.rpc('block_user', { p_user_id: otherUserId });
+
+      if (error) throw error;
+
+      const match = data as unknown as Match;
+      upsertMatch(match);
+      setBlockedIds(prev => (prev.includes(otherUserId) ? prev : [...prev, otherUserId]));
+      if (!profiles[otherUserId]) {
+        fetchProfiles([otherUserId])
+          .then(loaded => setProfiles(prev => ({ ...prev, ...loaded })))
+          .catch(error => console.error('Error fetching match profile:', error));
+      }
+
+      return { success: true, match };
+    } catch (error) {
+      console.error('Error blocking user:', error);
+      toast({
+        title: "Couldn't block user",
+        description: error.message,
+        variant: "destructive"
+      });
+      return { success: false, error: error.message };
+    } finally {
+      setUpdating(null);
+    }
+  }, [user, profiles, upsertMatch]);
+
+  // Lift a block you set. They stay out of your inbox until you reach out again.
+  const unblockUser = useCallback(async (otherUserId: string) => {
+    if (!user) return { success: false, error: 'User not authenticated' };
+
+    try {
+      setUpdating(otherUserId);
+
+      const { data, error } = await supabase.rpc('unblock_user', { p_user_id: otherUserId });
+
+      if (error) throw error;
+
+      const match = data as unknown as Match;
+      upsertMatch(match);
+      setBlockedIds(prev => prev.filter(id => id !== otherUserId));
+
+      return { success: true, match };
+    } catch (error) {
+      console.error('Error unblocking user:', error);
+      toast({
+        title: "Couldn't unblock user",
+        description: error.message,
+        variant: "destructive"
+      });
+      return { success: false, error: error.message };
+    } finally {
+      setUpdating(null);
+    }
+  }, [user, upsertMatch]);
+
+  useEffect(() => {
+    if (!user) {
+      setMatches([]);
+      setProfiles({});
+      setBlockedIds([]);
+      return;
+    }
+
+    fetchMatches();
+
+    // Requests and responses from the other side arrive through Realtime
+    const handleChange = (payload: { eventType: string; new: unknown }) => {
+      const match = payload.new as Match;
+      if (!match?.id) return;
+
+      upsertMatch(match);
+
+      if (payload.eventType === 'INSERT') {
+        fetchProfiles([getOtherUserId(match, user.id)])
+          .then(loaded => setProfiles(prev => ({ ...prev, ...loaded })))
+          .catch(error => console.error('Error fetching match profile:', error));
+      }
+    };
+
+    const channel = supabase
+      .channel(`matches-${user.id}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'matches', filter: `user1_id=eq.${user.id}` }, handleChange)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'matches', filter: `user2_id=eq.${user.id}` }, handleChange)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchMatches, upsertMatch]);
+
+  const getMatchWith = useCallback((otherUserId: string) =>
+    matches.find(match => match.user1_id === otherUserId || match.user2_id === otherUserId) || null,
+  [matches]);
+
+  const incomingRequests = matches.filter(match =>
+    match.connection_status === 'pending' && match.user2_id === user?.id
+  );
+  const outgoingRequests = matches.filter(match =>
+    match.connection_status === 'pending' && match.user1_id === user?.id
+  );
+  const connections = matches.filter(match => match.connection_status === 'accepted');
+  const blockedMatches = matches.filter(match =>
+    match.connection_status === 'blocked' && !!user && blockedIds.includes(getOtherUserId(match, user.id))
+  );
+
+  return {
+    matches,
+    profiles,
+    incomingRequests,
+    outgoingRequests,
+    connections,
+    blockedMatches,
+    loading,
+    updating,
+    requestMatch,
+    respondToMatch,
+    blockUser,
+    unblockUser,
+    getMatchWith,
+    fetchMatches
+  };
+};
+
+// Toast when someone sends a request or accepts yours, wherever the user is in the app
+export const useMatchNotifications = () => {
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (!user) return;
+
+    const notify = async (title: string, otherUserId: string, describe: (name: string) => string) => {
+      let profile: MatchProfile | undefined;
+      try {
+        profile = (await fetchProfiles([otherUserId]))[otherUserId];
+      } catch (error) {
+        console.error('Error fetching match profile:', error);
+      }
+      toast({ title, description: describe(displayName(profile)), duration: 5000 });
+    };
+
+    const channel = supabase
+      .channel(`match-notifications-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'matches', filter: `user2_id=eq.${user.id}` },
+        (payload) => {
+          const match = payload.new as Match;
+          // Blocks are inserted as matches too
+          if (match.connection_status !== 'pending') return;
+          notify('New Connection Request 💌', match.user1_id, name => `${name} wants to connect with you.`);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'matches', filter: `user2_id=eq.${user.id}` },
+        (payload) => {
+          const match = payload.new as Match;
+          // A declined request that the other person has now sent themselves
+          if (match.connection_status === 'pending' && !match.responded_at) {
+            notify('New Connection Request 💌', match.user1_id, name => `${name} wants to connect with you.`);
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'matches', filter: `user1_id=eq.${user.id}` },
+        (payload) => {
+          const match = payload.new as Match;
+          // Only the acceptance itself, not later activity on the match
+          if (match.connection_status === 'accepted' && match.responded_at === match.last_interaction_at) {
+            notify('Alliance Forged! ⚔️', match.user2_id, name => `${name} accepted your connection request.`);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user]);
+};
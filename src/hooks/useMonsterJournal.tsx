@@ -0,0 +1,253 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+
+export interface JournalEntry {
+  id: number;
+  match_id: number;
+  author_id: string | null; // null for generated entries
+  entry_text: string;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export const MAX_JOURNAL_ENTRY_LENGTH = 4000;
+
+const ENTRY_COLUMNS = 'id, match_id, author_id, entry_text, created_at, updated_at';
+
+const byCreatedAt = (a: JournalEntry, b: JournalEntry) =>
+  (a.created_at || '').localeCompare(b.created_at || '') || a.id - b.id;
+
+export const useMonsterJournal = (matchId: number | null) => {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<JournalEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState<number | 'new' | null>(null);
+
+  const upsertEntry = useCallback((entry: JournalEntry) => {
+    setEntries(prev => {
+      const exists = prev.some(e => e.id === entry.id);
+      const next = exists ? prev.map(e => (e.id === entry.id ? { ...e, ...entry } : e)) : [...prev, entry];
+      return next.sort(byCreatedAt);
+    });
+  }, []);
+
+  const removeEntry = useCallback((entryId: number) => {
+    setEntries(prev => prev.filter(e => e.id !== entryId));
+  }, []);
+
+  const markRead = useCallback(async () => {
+    if (!user || !matchId) return;
+
+    const { error } = await supabase.rpc('mark_journal_read', { p_match_id: matchId });
+    if (error) {
+      console.error('Error marking journal read:', error);
+    }
+  }, [user, matchId]);
+
+  const fetchEntries = useCallback(async () => {
+    if (!user || !matchId) return;
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('monster_journal_entries')
+        .select(ENTRY_COLUMNS)
+        .eq('match_id', matchId)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      setEntries((data || []) as JournalEntry[]);
+      await markRead();
+    } catch (error) {
+      console.error('Error fetching journal entries:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, matchId, markRead]);
+
+  const addEntry = useCallback(async (text: string) => {
+    if (!user || !matchId) return { success: false, error: 'User not authenticated' };
+
+    try {
+      setSaving('new');
+
+      const { data, error } = await supabase
+        .from('monster_journal_entries')
+        .insert({ match_id: matchId, author_id: user.id, entry_text: text.trim() })
+        .select(ENTRY_COLUMNS)
+        .single();
+
+      if (error) throw error;
+
+      upsertEntry(data as JournalEntry);
+      return { success: true, entry: data as JournalEntry };
+    } catch (error) {
+      console.error('Error adding journal entry:', error);
+      toast({
+        title: "Couldn't post entry",
+        description: error.message,
+        variant: "destructive"
+      });
+      return { success: false, error: error.message };
+    } finally {
+      setSaving(null);
+    }
+  }, [user, matchId, upsertEntry]);
+
+  const updateEntry = useCallback(async (entryId: number, text: string) => {
+    if (!user) return { success: false, error: 'User not authenticated' };
+
+    try {
+      setSaving(entryId);
+
+      const { data, error } = await supabase
+        .from('monster_journal_entries')
+        .update({ entry_text: text.trim() })
+        .eq('id', entryId)
+        .eq('author_id', user.id)
+        .select(ENTRY_COLUMNS)
+        .single();
+
+      if (error) throw error;
+
+      upsertEntry(data as JournalEntry);
+      return { success: true, entry: data as JournalEntry };
+    } catch (error) {
+      console.error('Error updating journal entry:', error);
+      toast({
+        title: "Couldn't save changes",
+        description: error.message,
+        variant: "destructive"
+      });
+      return { success: false, error: error.message };
+    } finally {
+      setSaving(null);
+    }
+  }, [user, upsertEntry]);
+
+  const deleteEntry = useCallback(async (entryId: number) => {
+    if (!user) return { success: false, error: 'User not authenticated' };
+
+    try {
+      setSaving(entryId);
+
+      const { error } = await supabase
+        .from('monster_journal_entries')
+        .delete()
+        .eq('id', entryId)
+        .eq('author_id', user.id);
+
+      if (error) throw error;
+
+      removeEntry(entryId);
+      return { success: true };
+    } catch (error) {
+      console.error('Error deleting journal entry:', error);
+      toast({
+        title: "Couldn't delete entry",
+        description: error.message,
+        variant: "destructive"
+      });
+      return { success: false, error: error.message };
+    } finally {
+      setSaving(null);
+    }
+  }, [user, removeEntry]);
+
+  useEffect(() => {
+    if (!user || !matchId) {
+      setEntries([]);
+      return;
+    }
+
+    fetchEntries();
+
+    const handleChange = (payload: { new: unknown }) => {
+      const entry = payload.new as JournalEntry;
+      if (!entry?.id) return;
+
+      upsertEntry(entry);
+      // The journal is open, so the other person's entries are read as they arrive
+      if (entry.author_id !== user.id) {
+        markRead();
+      }
+    };
+
+    // Delete events only carry the primary key and can't be filtered by match
+    const channel = supabase
+      .channel(`monster-journal-${matchId}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'monster_journal_entries', filter: `match_id=eq.${matchId}` }, handleChange)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'monster_journal_entries', filter: `match_id=eq.${matchId}` }, handleChange)
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'monster_journal_entries' }, (payload) => {
+        const entry = payload.old as Partial<JournalEntry>;
+        if (entry?.id) removeEntry(entry.id);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, matchId, fetchEntries, upsertEntry, removeEntry, markRead]);
+
+  return {
+    entries,
+    loading,
+    saving,
+    addEntry,
+    updateEntry,
+    deleteEntry,
+    fetchEntries
+  };
+};
+
+// Unread journal entries per accepted match, kept live while mounted
+export const useJournalUnreadCounts = () => {
+  const { user } = useAuth();
+  const [unreadCounts, setUnreadCounts] = useState<Record<number, number>>({});
+
+  const fetchUnreadCounts = useCallback(async () => {
+    if (!user) return;
+
+    const { data, error } = await supabase.rpc('journal_unread_counts');
+    if (error) {
+      console.error('Error fetching journal unread counts:', error);
+      return;
+    }
+
+    setUnreadCounts(Object.fromEntries((data || []).map(row => [row.match_id, Number(row.unread_count)])));
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      setUnreadCounts({});
+      return;
+    }
+
+    fetchUnreadCounts();
+
+    // RLS limits these events to journals the user belongs to
+    const channel = supabase
+      .channel(`journal-unread-${user.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'monster_journal_entries' },
+        (payload) => {
+          const entry = payload.new as JournalEntry;
+          if (!entry?.match_id || entry.author_id === user.id) return;
+
+          setUnreadCounts(prev => ({ ...prev, [entry.match_id]: (prev[entry.match_id] || 0) + 1 }));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchUnreadCounts]);
+
+  return { unreadCounts, fetchUnreadCounts };
+};
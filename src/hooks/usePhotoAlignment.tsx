@@ -0,0 +1,74 @@
+import { useState, useEffect, RefObject } from 'react';
+import { sampleFrame, scoreAlignment, AlignmentSample, ALIGNED_THRESHOLD } from '@/lib/photoAlignment';
+
+const SAMPLE_INTERVAL_MS = 400;
+
+interface PhotoAlignmentOptions {
+  enabled: boolean;
+  mirrored: boolean; // Front camera previews (and saved photos) are mirrored
+}
+
+// Live framing score between the camera preview and a reference photo
+export const usePhotoAlignment = (
+  videoRef: RefObject<HTMLVideoElement>,
+  referenceUrl: string | undefined,
+  { enabled, mirrored }: PhotoAlignmentOptions
+) => {
+  const [reference, setReference] = useState<HTMLImageElement | null>(null);
+  const [score, setScore] = useState<number | null>(null);
+
+  useEffect(() => {
+    setReference(null);
+    setScore(null);
+    if (!referenceUrl || !enabled) return;
+
+    const image = new Image();
+    // Pixels can only be read from a CORS-enabled image
+    image.crossOrigin = 'anonymous';
+    image.onload = () => setReference(image);
+    image.onerror = () => console.error('Error loading alignment reference photo');
+    image.src = referenceUrl;
+
+    return () => {
+      image.onload = null;
+      image.onerror = null;
+    };
+  }, [referenceUrl, enabled]);
+
+  useEffect(() => {
+    if (!reference || !enabled) return;
+
+    let referenceSample: AlignmentSample | null = null;
+
+    const measure = () => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2 || !video.clientWidth || !video.clientHeight) return;
+
+      try {
+        // The preview's aspect ratio changes on rotation, so re-sample the reference to match
+        const aspectRatio = video.clientWidth / video.clientHeight;
+        const current = sampleFrame(video, aspectRatio, mirrored);
+        if (!current) return;
+
+        if (!referenceSample || referenceSample.height !== current.height) {
+          referenceSample = sampleFrame(reference, aspectRatio);
+        }
+        if (!referenceSample) return;
+
+        setScore(scoreAlignment(current, referenceSample));
+      } catch (error) {
+        console.error('Error measuring photo alignment:', error);
+        clearInterval(interval);
+        setScore(null);
+      }
+    };
+
+    const interval = setInterval(measure, SAMPLE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [reference, enabled, mirrored, videoRef]);
+
+  return {
+    score,
+    isAligned: score !== null && score >= ALIGNED_THRESHOLD
+  };
+};
@@ -0,0 +1,112 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+
+// Written by the analyze-photo edge function
+export const PHOTO_ANALYSIS_TYPE = 'visual_change';
+
+export type PhotoSentiment = 'proud' | 'encouraging' | 'hopeful' | 'supportive';
+
+export interface PhotoFeedback {
+  entryId: string;
+  challengeId: string;
+  dayNumber: number;
+  feedback: string | null;
+  sentiment: PhotoSentiment | null;
+  suggestions: string[];
+  confidence: number | null;
+}
+
+interface EntryWithAnalysis {
+  id: string;
+  challenge_id: string;
+  day_number: number;
+  ai_feedback: string | null;
+  ai_sentiment: string | null;
+  ai_analysis: {
+    analysis_type: string;
+    confidence_score: number | null;
+    improvement_suggestions: string[] | null;
+  }[];
+}
+
+// Latest photo feedback for each of the user's challenges, and a way to ask for a new analysis
+export const usePhotoFeedback = (challengeIds: string[]) => {
+  const { user } = useAuth();
+  const [feedback, setFeedback] = useState<Record<string, PhotoFeedback>>({});
+  const [loading, setLoading] = useState(false);
+
+  // Stable key so callers can pass a freshly built array on every render
+  const idsKey = useMemo(() => [...new Set(challengeIds)].sort().join('|'), [challengeIds]);
+
+  const fetchFeedback = useCallback(async () => {
+    const ids = idsKey ? idsKey.split('|') : [];
+    if (!user || ids.length === 0) {
+      setFeedback({});
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('challenge_entries')
+        .select('id, challenge_id, day_number, ai_feedback, ai_sentiment, ai_analysis(analysis_type, confidence_score, improvement_suggestions)')
+        .eq('user_id', user.id)
+        .in('challenge_id', ids)
+        .order('day_number', { ascending: false });
+
+      if (error) throw error;
+
+      // Entries come newest first, so the first one seen per challenge wins
+      const latest: Record<string, PhotoFeedback> = {};
+      for (const entry of (data || []) as EntryWithAnalysis[]) {
+        if (latest[entry.challenge_id]) continue;
+
+        const analysis = entry.ai_analysis?.find(a => a.analysis_type === PHOTO_ANALYSIS_TYPE);
+        latest[entry.challenge_id] = {
+          entryId: entry.id,
+          challengeId: entry.challenge_id,
+          dayNumber: entry.day_number,
+          feedback: entry.ai_feedback,
+          sentiment: entry.ai_sentiment as PhotoSentiment | null,
+          suggestions: analysis?.improvement_suggestions || [],
+          confidence: analysis?.confidence_score ?? null
+        };
+      }
+      setFeedback(latest);
+    } catch (error) {
+      console.error('Error fetching photo feedback:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, idsKey]);
+
+  useEffect(() => {
+    fetchFeedback();
+  }, [fetchFeedback]);
+
+  // Queue an analysis for a freshly saved photo; resolves to the job id to follow
+  const requestAnalysis = async (entryId: string): Promise<string | null> => {
+    try {
+      const { data, error } = await supabase.functions.invoke('analyze-photo', {
+        body: { entryId }
+      });
+
+      if (error) throw error;
+
+      return data?.jobId ?? null;
+    } catch (error) {
+      // The photo is already saved; it just goes without feedback
+      console.error('Error requesting photo analysis:', error);
+      return null;
+    }
+  };
+
+  return {
+    feedback,
+    loading,
+    requestAnalysis,
+    refetch: fetchFeedback
+  };
+};
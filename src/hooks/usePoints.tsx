@@ -19,6 +19,20 @@ interface UserTier {
   tier_achieved_at: string;
 }
 
+interface LedgerResult {
+  transaction_id: string;
+  points_awarded: number;
+  total_light: number;
+  current_tier: number;
+  unlocked_achievements?: UnlockedAchievement[];
+}
+
+interface UnlockedAchievement {
+  id: string;
+  name: string;
+  points_reward: number;
+}
+
 interface DailyActivity {
   activity_date: string;
   activities_completed: any;
@@ -80,33 +94,20 @@ export const usePoints = () => {
     if (!user) return { success: false, error: 'User not authenticated' };
 
     try {
-      // Create points transaction
-      const { error: transactionError } = await supabase
-        .from('points_transactions')
-        .insert({
-          user_id: user.id,
-          action_type: actionType,
-          points_amount: pointsAmount,
-          source_id: sourceId,
-          source_type: sourceType,
-          metadata
-        });
-
-      if (transactionError) throw transactionError;
-
-      // Update user tier with new total
-      const newTotal = (userTier?.total_light || 0) + pointsAmount;
-      const { error: tierError } = await supabase
-        .from('user_tiers')
-        .upsert({
-          user_id: user.id,
-          total_light: newTotal
-        });
+      // The ledger validates the action, enforces daily caps and
+      // updates total_light/current_tier atomically on the server
+      const { data, error } = await supabase.rpc('award_light', {
+        p_action_type: actionType,
+        p_points_amount: pointsAmount,
+        p_source_id: sourceId ?? undefined,
+        p_source_type: sourceType ?? undefined,
+        p_metadata: metadata
+      });
 
-      if (tierError) throw tierError;
+      if (error) throw error;
 
-      // Check for achievements
-      await checkAchievements(actionType, pointsAmount, metadata);
+      const result = data as unknown as LedgerResult;
+      const pointsAwarded = result?.points_awarded ?? pointsAmount;
 
       // Refresh data
       await fetchUserData();
@@ -114,93 +115,27 @@ export const usePoints = () => {
       // Show success toast
       toast({
         title: "Light Earned!",
-        description: `+${pointsAmount} Light for ${getActionTitle(actionType)}`,
+        description: `+${pointsAwarded} Light for ${getActionTitle(actionType)}`,
         duration: 3000,
       });
 
-      return { success: true };
-    } catch (error) {
-      console.error('Error awarding light:', error);
-      return { success: false, error: error.message };
-    }
-  }, [user, userTier, fetchUserData]);
-
-  // Check for achievement unlocks
-  const checkAchievements = useCallback(async (
-    actionType: string,
-    pointsAmount: number,
-    metadata: any
-  ) => {
-    if (!user) return;
-
-    try {
-      // Get user's current achievements
-      const { data: userAchievements } = await supabase
-        .from('user_achievements')
-        .select('achievement_id')
-        .eq('user_id', user.id);
-
-      const unlockedIds = userAchievements?.map(ua => ua.achievement_id) || [];
-
-      // Get all achievements
-      const { data: achievements } = await supabase
-        .from('achievements')
-        .select('*')
-        .not('id', 'in', `(${unlockedIds.join(',') || 'null'})`);
-
-      // Check each achievement
-      for (const achievement of achievements || []) {
-        const shouldUnlock = await checkAchievementCondition(achievement, actionType, metadata);
-        
-        if (shouldUnlock) {
-          await unlockAchievement(achievement.id, achievement.points_reward);
-        }
-      }
-    } catch (error) {
-      console.error('Error checking achievements:', error);
-    }
-  }, [user]);
-
-  // Check if achievement condition is met
-  const checkAchievementCondition = async (achievement: any, actionType: string, metadata: any) => {
-    // Implementation depends on achievement type
-    switch (achievement.requirement_type) {
-      case 'login_streak':
-        return metadata.streak >= achievement.requirement_value;
-      case 'tips_shared':
-        return actionType === 'forbidden_knowledge';
-      case 'profile_completion':
-        return actionType === 'forge_armor' && metadata.completion_percentage >= achievement.requirement_value;
-      default:
-        return false;
-    }
-  };
-
-  // Unlock an achievement
-  const unlockAchievement = async (achievementId: string, pointsReward: number) => {
-    try {
-      // Add achievement to user
-      const { error: achievementError } = await supabase
-        .from('user_achievements')
-        .insert({
-          user_id: user.id,
-          achievement_id: achievementId
+      // Achievements are evaluated by the ledger after every award
+      (result?.unlocked_achievements || []).forEach(achievement => {
+        toast({
+          title: "Achievement Unlocked! 🏆",
+          description: achievement.points_reward > 0
+            ? `${achievement.name}: +${achievement.points_reward} Light!`
+            : achievement.name,
+          duration: 5000,
         });
-
-      if (achievementError) throw achievementError;
-
-      // Award points for achievement
-      await awardLight('achievement_unlock', pointsReward, achievementId, 'achievement');
-
-      toast({
-        title: "Achievement Unlocked! 🏆",
-        description: `You've earned +${pointsReward} Light!`,
-        duration: 5000,
       });
+
+      return { success: true, pointsAwarded };
     } catch (error) {
-      console.error('Error unlocking achievement:', error);
+      console.error('Error awarding light:', error);
+      return { success: false, error: error.message, code: error.code as string | undefined };
     }
-  };
+  }, [user, fetchUserData]);
 
   // Get human-readable action titles
   const getActionTitle = (actionType: string): string => {
@@ -210,7 +145,9 @@ export const usePoints = () => {
       'beacon_hope': 'Supporting Others',
       'silence_whispers': 'Community Engagement',
       'forge_armor': 'Profile Completion',
-      'achievement_unlock': 'Achievement Unlock'
+      'achievement_unlock': 'Achievement Unlock',
+      'weekly_challenge_action': 'Weekly Challenge',
+      'weekly_challenge_bonus': 'Weekly Challenge Bonus'
     };
     return titles[actionType] || actionType;
   };
@@ -0,0 +1,43 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { getSignedPhotoUrls, getEarliestExpiry, getRefreshDelay } from '@/lib/challengePhotos';
+
+// Resolve challenge photo paths to signed URLs and re-sign them before they expire
+export const useSignedPhotoUrls = (paths: string[]) => {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+
+  // Stable key so callers can pass a freshly built array on every render
+  const pathsKey = useMemo(() => [...new Set(paths.filter(Boolean))].sort().join('|'), [paths]);
+
+  const refresh = useCallback(async () => {
+    const keyPaths = pathsKey ? pathsKey.split('|') : [];
+    if (keyPaths.length === 0) {
+      setUrls({});
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setUrls(await getSignedPhotoUrls(keyPaths));
+    } catch (error) {
+      console.error('Error signing challenge photos:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [pathsKey]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  useEffect(() => {
+    const keyPaths = pathsKey ? pathsKey.split('|') : [];
+    const expiresAt = getEarliestExpiry(keyPaths);
+    if (!expiresAt) return;
+
+    const timeout = setTimeout(refresh, getRefreshDelay(expiresAt));
+    return () => clearTimeout(timeout);
+  }, [urls, pathsKey, refresh]);
+
+  return { urls, loading, refresh };
+};
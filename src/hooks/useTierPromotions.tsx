@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface TierPromotion {
+  id: string;
+  from_tier: number;
+  to_tier: number;
+  total_light: number;
+  seen_at: string | null;
+  created_at: string;
+}
+
+export const useTierPromotions = () => {
+  const { user } = useAuth();
+  const [pendingPromotions, setPendingPromotions] = useState<TierPromotion[]>([]);
+
+  // Load promotions the user hasn't seen yet (e.g. earned while offline)
+  const fetchUnseenPromotions = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('tier_promotions')
+        .select('*')
+        .eq('user_id', user.id)
+        .is('seen_at', null)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+
+      setPendingPromotions(data || []);
+    } catch (error) {
+      console.error('Error fetching tier promotions:', error);
+    }
+  }, [user]);
+
+  // Mark a promotion as celebrated so it isn't shown again
+  const acknowledgePromotion = useCallback(async (promotionId: string) => {
+    setPendingPromotions(prev => prev.filter(p => p.id !== promotionId));
+
+    const { error } = await supabase
+      .from('tier_promotions')
+      .update({ seen_at: new Date().toISOString() })
+      .eq('id', promotionId);
+
+    if (error) {
+      console.error('Error acknowledging tier promotion:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!user) {
+      setPendingPromotions([]);
+      return;
+    }
+
+    fetchUnseenPromotions();
+
+    // Promotions are written by the ledger; listen for new ones in real time
+    const channel = supabase
+      .channel(`tier-promotions-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'tier_promotions',
+          filter: `user_id=eq.${user.id}`
+        },
+        (payload) => {
+          const promotion = payload.new as TierPromotion;
+          setPendingPromotions(prev =>
+            prev.some(p => p.id === promotion.id) ? prev : [...prev, promotion]
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchUnseenPromotions]);
+
+  return {
+    pendingPromotions,
+    currentPromotion: pendingPromotions[0] || null,
+    acknowledgePromotion,
+    fetchUnseenPromotions
+  };
+};
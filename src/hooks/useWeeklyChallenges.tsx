@@ -0,0 +1,206 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+
+export interface WeeklyChallenge {
+  id: string;
+  title: string;
+  description: string | null;
+  challenge_type: string;
+  qualifying_actions: string[];
+  action_target: number;
+  start_date: string;
+  end_date: string;
+  target_participants: number | null;
+  current_participants: number | null;
+  base_reward: number;
+  completion_bonus: number;
+}
+
+export interface ChallengeParticipation {
+  id: string;
+  challenge_id: string;
+  actions_completed: number | null;
+  light_earned: number | null;
+  completed_at: string | null;
+  bonus_awarded_at: string | null;
+  joined_at: string;
+}
+
+interface JoinResult extends ChallengeParticipation {
+  joined: boolean;
+  unlocked_achievements?: { id: string; name: string; points_reward: number }[];
+}
+
+// Challenges end at the start of end_date, when settle_weekly_challenges pays the bonus
+export const getDaysRemaining = (challenge: WeeklyChallenge): number => {
+  const end = new Date(`${challenge.end_date}T00:00:00`);
+  return Math.max(0, Math.ceil((end.getTime() - Date.now()) / (24 * 60 * 60 * 1000)));
+};
+
+export const useWeeklyChallenges = () => {
+  const { user } = useAuth();
+  const [challenges, setChallenges] = useState<WeeklyChallenge[]>([]);
+  const [participation, setParticipation] = useState<Record<string, ChallengeParticipation>>({});
+  const [loading, setLoading] = useState(false);
+  const [joining, setJoining] = useState<string | null>(null);
+
+  // Fetch running challenges and the user's progress in them
+  const fetchChallenges = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      setLoading(true);
+      const today = new Date().toISOString().split('T')[0];
+
+      const { data: challengeData, error: challengeError } = await supabase
+        .from('weekly_challenges')
+        .select('id, title, description, challenge_type, qualifying_actions, action_target, start_date, end_date, target_participants, current_participants, base_reward, completion_bonus')
+        .eq('is_active', true)
+        .is('settled_at', null)
+        .lte('start_date', today)
+        .gt('end_date', today)
+        .order('end_date', { ascending: true });
+
+      if (challengeError) throw challengeError;
+
+      const challengeIds = (challengeData || []).map(challenge => challenge.id);
+      let participationData: ChallengeParticipation[] = [];
+
+      if (challengeIds.length > 0) {
+        const { data, error } = await supabase
+          .from('user_challenge_participation')
+          .select('id, challenge_id, actions_completed, light_earned, completed_at, bonus_awarded_at, joined_at')
+          .eq('user_id', user.id)
+          .in('challenge_id', challengeIds);
+
+        if (error) throw error;
+        participationData = data || [];
+      }
+
+      setChallenges(challengeData || []);
+      setParticipation(Object.fromEntries(participationData.map(row => [row.challenge_id, row])));
+    } catch (error) {
+      console.error('Error fetching weekly challenges:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  // Join a challenge; progress is counted by the server from then on
+  const joinChallenge = useCallback(async (challengeId: string) => {
+    if (!user) return { success: false, error: 'User not authenticated' };
+
+    try {
+      setJoining(challengeId);
+
+      const { data, error } = await supabase.rpc('join_weekly_challenge', {
+        p_challenge_id: challengeId
+      });
+
+      if (error) throw error;
+
+      const result = data as unknown as JoinResult;
+      const { joined, unlocked_achievements, ...row } = result;
+
+      setParticipation(prev => ({ ...prev, [challengeId]: row }));
+      if (joined) {
+        setChallenges(prev => prev.map(challenge =>
+          challenge.id === challengeId
+            ? { ...challenge, current_participants: (challenge.current_participants || 0) + 1 }
+            : challenge
+        ));
+
+        toast({
+          title: "Challenge Joined! ⚔️",
+          description: "Every qualifying action this week now counts toward the challenge.",
+          duration: 4000,
+        });
+      }
+
+      (unlocked_achievements || []).forEach(achievement => {
+        toast({
+          title: "Achievement Unlocked! 🏆",
+          description: achievement.points_reward > 0
+            ? `${achievement.name}: +${achievement.points_reward} Light!`
+            : achievement.name,
+          duration: 5000,
+        });
+      });
+
+      return { success: true };
+    } catch (error) {
+      console.error('Error joining weekly challenge:', error);
+      toast({
+        title: "Couldn't join challenge",
+        description: error.message,
+        variant: "destructive",
+      });
+      return { success: false, error: error.message };
+    } finally {
+      setJoining(null);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!user) {
+      setChallenges([]);
+      setParticipation({});
+      return;
+    }
+
+    fetchChallenges();
+
+    // Progress and participant counts are updated by the ledger; follow them live
+    const channel = supabase
+      .channel(`weekly-challenges-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'user_challenge_participation',
+          filter: `user_id=eq.${user.id}`
+        },
+        (payload) => {
+          const row = payload.new as ChallengeParticipation;
+          setParticipation(prev => (prev[row.challenge_id] ? { ...prev, [row.challenge_id]: row } : prev));
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'weekly_challenges'
+        },
+        () => {
+          // A rollover activates or closes challenges; refetch rather than patch
+          fetchChallenges();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchChallenges]);
+
+  const getProgress = (challengeId: string): number => {
+    const challenge = challenges.find(c => c.id === challengeId);
+    const row = participation[challengeId];
+    if (!challenge || !row) return 0;
+    return Math.min(100, ((row.actions_completed || 0) / Math.max(1, challenge.action_target)) * 100);
+  };
+
+  return {
+    challenges,
+    participation,
+    loading,
+    joining,
+    joinChallenge,
+    getProgress,
+    fetchChallenges
+  };
+};
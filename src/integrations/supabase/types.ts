@@ -9,6 +9,33 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      achievement_rules: {
+        Row: {
+          created_at: string
+          description: string | null
+          metric: string
+          params: Json
+          requirement_type: string
+          self_reported: boolean
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          metric: string
+          params?: Json
+          requirement_type: string
+          self_reported?: boolean
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          metric?: string
+          params?: Json
+          requirement_type?: string
+          self_reported?: boolean
+        }
+        Relationships: []
+      }
       achievements: {
         Row: {
           category: string
@@ -132,10 +159,14 @@ export type Database = {
           challenge_id: string
           created_at: string
           day_number: number
+          exclude_from_timelapse: boolean
           id: string
-          image_url: string
+          image_path: string
+          image_url: string | null
           notes: string | null
+          progress_recorded_at: string | null
           taken_at: string
+          thumbnail_path: string | null
           user_id: string
         }
         Insert: {
@@ -144,10 +175,14 @@ export type Database = {
           challenge_id: string
           created_at?: string
           day_number: number
+          exclude_from_timelapse?: boolean
           id?: string
-          image_url: string
+          image_path: string
+          image_url?: string | null
           notes?: string | null
+          progress_recorded_at?: string | null
           taken_at?: string
+          thumbnail_path?: string | null
           user_id: string
         }
         Update: {
@@ -156,10 +191,14 @@ export type Database = {
           challenge_id?: string
           created_at?: string
           day_number?: number
+          exclude_from_timelapse?: boolean
           id?: string
-          image_url?: string
+          image_path?: string
+          image_url?: string | null
           notes?: string | null
+          progress_recorded_at?: string | null
           taken_at?: string
+          thumbnail_path?: string | null
           user_id?: string
         }
         Relationships: [
@@ -263,8 +302,11 @@ export type Database = {
           description: string | null
           id: string
           is_active: boolean | null
+          last_leveled_at: string | null
           max_level: number | null
           name: string
+          perk: Json
+          progress_light: number
           upgrade_type: string
         }
         Insert: {
@@ -274,8 +316,11 @@ export type Database = {
           description?: string | null
           id?: string
           is_active?: boolean | null
+          last_leveled_at?: string | null
           max_level?: number | null
           name: string
+          perk?: Json
+          progress_light?: number
           upgrade_type: string
         }
         Update: {
@@ -285,8 +330,11 @@ export type Database = {
           description?: string | null
           id?: string
           is_active?: boolean | null
+          last_leveled_at?: string | null
           max_level?: number | null
           name?: string
+          perk?: Json
+          progress_light?: number
           upgrade_type?: string
         }
         Relationships: []
@@ -376,9 +424,11 @@ export type Database = {
         Row: {
           comment_text: string | null
           created_at: string
+          hidden_at: string | null
           id: string
           interaction_type: string
           is_anonymous: boolean | null
+          is_hidden: boolean
           target_id: string
           target_type: string
           user_id: string
@@ -386,9 +436,11 @@ export type Database = {
         Insert: {
           comment_text?: string | null
           created_at?: string
+          hidden_at?: string | null
           id?: string
           interaction_type: string
           is_anonymous?: boolean | null
+          is_hidden?: boolean
           target_id: string
           target_type: string
           user_id: string
@@ -396,15 +448,109 @@ export type Database = {
         Update: {
           comment_text?: string | null
           created_at?: string
+          hidden_at?: string | null
           id?: string
           interaction_type?: string
           is_anonymous?: boolean | null
+          is_hidden?: boolean
           target_id?: string
           target_type?: string
           user_id?: string
         }
         Relationships: []
       }
+      compatibility_dimensions: {
+        Row: {
+          created_at: string
+          description: string | null
+          fields: string[]
+          is_active: boolean
+          is_private: boolean
+          key: string
+          label: string
+          method: string
+          sort_order: number
+          updated_at: string
+          weight: number
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          fields: string[]
+          is_active?: boolean
+          is_private?: boolean
+          key: string
+          label: string
+          method: string
+          sort_order?: number
+          updated_at?: string
+          weight: number
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          fields?: string[]
+          is_active?: boolean
+          is_private?: boolean
+          key?: string
+          label?: string
+          method?: string
+          sort_order?: number
+          updated_at?: string
+          weight?: number
+        }
+        Relationships: []
+      }
+      content_reports: {
+        Row: {
+          content_id: string
+          content_type: string
+          created_at: string
+          details: string | null
+          id: string
+          reason: string
+          reported_user_id: string | null
+          reporter_id: string
+          resolution_note: string | null
+          reviewed_at: string | null
+          status: string
+        }
+        Insert: {
+          content_id: string
+          content_type: string
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason: string
+          reported_user_id?: string | null
+          reporter_id: string
+          resolution_note?: string | null
+          reviewed_at?: string | null
+          status?: string
+        }
+        Update: {
+          content_id?: string
+          content_type?: string
+          created_at?: string
+          details?: string | null
+          id?: string
+          reason?: string
+          reported_user_id?: string | null
+          reporter_id?: string
+          resolution_note?: string | null
+          reviewed_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_reports_content_type_fkey"
+            columns: ["content_type"]
+            isOneToOne: false
+            referencedRelation: "report_thresholds"
+            referencedColumns: ["content_type"]
+          },
+        ]
+      }
       daily_activities: {
         Row: {
           activities_completed: Json
@@ -435,60 +581,272 @@ export type Database = {
         }
         Relationships: []
       }
+      jobs: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          id: string
+          idempotency_key: string | null
+          job_type: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          payload: Json
+          result: Json | null
+          run_at: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          idempotency_key?: string | null
+          job_type: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          payload?: Json
+          result?: Json | null
+          run_at?: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          idempotency_key?: string | null
+          job_type?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          payload?: Json
+          result?: Json | null
+          run_at?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      light_action_rules: {
+        Row: {
+          action_type: string
+          created_at: string
+          daily_light_cap: number | null
+          daily_limit: number | null
+          description: string | null
+          is_active: boolean
+          max_points: number
+          updated_at: string
+        }
+        Insert: {
+          action_type: string
+          created_at?: string
+          daily_light_cap?: number | null
+          daily_limit?: number | null
+          description?: string | null
+          is_active?: boolean
+          max_points: number
+          updated_at?: string
+        }
+        Update: {
+          action_type?: string
+          created_at?: string
+          daily_light_cap?: number | null
+          daily_limit?: number | null
+          description?: string | null
+          is_active?: boolean
+          max_points?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      match_message_reads: {
+        Row: {
+          last_read_at: string
+          match_id: number
+          user_id: string
+        }
+        Insert: {
+          last_read_at?: string
+          match_id: number
+          user_id: string
+        }
+        Update: {
+          last_read_at?: string
+          match_id?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "match_message_reads_match_id_fkey"
+            columns: ["match_id"]
+            isOneToOne: false
+            referencedRelation: "matches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      match_messages: {
+        Row: {
+          body: string | null
+          created_at: string
+          hidden_at: string | null
+          id: string
+          is_hidden: boolean
+          match_id: number
+          sender_id: string
+          strategy_id: string | null
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string
+          hidden_at?: string | null
+          id?: string
+          is_hidden?: boolean
+          match_id: number
+          sender_id?: string
+          strategy_id?: string | null
+        }
+        Update: {
+          body?: string | null
+          created_at?: string
+          hidden_at?: string | null
+          id?: string
+          is_hidden?: boolean
+          match_id?: number
+          sender_id?: string
+          strategy_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "match_messages_match_id_fkey"
+            columns: ["match_id"]
+            isOneToOne: false
+            referencedRelation: "matches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "match_messages_strategy_id_fkey"
+            columns: ["strategy_id"]
+            isOneToOne: false
+            referencedRelation: "relief_strategies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       matches: {
         Row: {
           compatibility_score: number | null
-          connection_status: string | null
+          connection_status: string
           created_at: string | null
           id: number
           last_interaction_at: string | null
-          match_reason: string[] | null
+          match_reason: Json | null
           notes: string | null
+          responded_at: string | null
           user1_id: string
           user2_id: string
         }
         Insert: {
           compatibility_score?: number | null
-          connection_status?: string | null
+          connection_status?: string
           created_at?: string | null
           id?: number
           last_interaction_at?: string | null
-          match_reason?: string[] | null
+          match_reason?: Json | null
           notes?: string | null
+          responded_at?: string | null
           user1_id: string
           user2_id: string
         }
         Update: {
           compatibility_score?: number | null
-          connection_status?: string | null
+          connection_status?: string
           created_at?: string | null
           id?: number
           last_interaction_at?: string | null
-          match_reason?: string[] | null
+          match_reason?: Json | null
           notes?: string | null
+          responded_at?: string | null
           user1_id?: string
           user2_id?: string
         }
         Relationships: []
       }
+      monster_image_versions: {
+        Row: {
+          created_at: string
+          id: string
+          images: Json
+          is_current: boolean
+          keywords: string[] | null
+          negative_prompt: string | null
+          prompt: string | null
+          seed: number | null
+          style: string | null
+          user_id: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          images: Json
+          is_current?: boolean
+          keywords?: string[] | null
+          negative_prompt?: string | null
+          prompt?: string | null
+          seed?: number | null
+          style?: string | null
+          user_id: string
+          version: number
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          images?: Json
+          is_current?: boolean
+          keywords?: string[] | null
+          negative_prompt?: string | null
+          prompt?: string | null
+          seed?: number | null
+          style?: string | null
+          user_id?: string
+          version?: number
+        }
+        Relationships: []
+      }
       monster_journal_entries: {
         Row: {
+          author_id: string | null
           created_at: string | null
           entry_text: string
           id: number
           match_id: number
+          updated_at: string | null
         }
         Insert: {
+          author_id?: string | null
           created_at?: string | null
           entry_text: string
           id?: number
           match_id: number
+          updated_at?: string | null
         }
         Update: {
+          author_id?: string | null
           created_at?: string | null
           entry_text?: string
           id?: number
           match_id?: number
+          updated_at?: string | null
         }
         Relationships: [
           {
@@ -500,6 +858,32 @@ export type Database = {
           },
         ]
       }
+      monster_journal_reads: {
+        Row: {
+          last_read_at: string
+          match_id: number
+          user_id: string
+        }
+        Insert: {
+          last_read_at?: string
+          match_id: number
+          user_id: string
+        }
+        Update: {
+          last_read_at?: string
+          match_id?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "monster_journal_reads_match_id_fkey"
+            columns: ["match_id"]
+            isOneToOne: false
+            referencedRelation: "matches"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       photo_challenges: {
         Row: {
           challenge_type: string
@@ -771,9 +1155,11 @@ export type Database = {
           effectiveness_rating: number | null
           evidence_level: string | null
           helpful_votes: number | null
+          hidden_at: string | null
           id: string
           is_anonymous: boolean | null
           is_approved: boolean | null
+          is_hidden: boolean
           last_updated_by: string | null
           not_helpful_votes: number | null
           side_effects: string | null
@@ -796,9 +1182,11 @@ export type Database = {
           effectiveness_rating?: number | null
           evidence_level?: string | null
           helpful_votes?: number | null
+          hidden_at?: string | null
           id?: string
           is_anonymous?: boolean | null
           is_approved?: boolean | null
+          is_hidden?: boolean
           last_updated_by?: string | null
           not_helpful_votes?: number | null
           side_effects?: string | null
@@ -821,9 +1209,11 @@ export type Database = {
           effectiveness_rating?: number | null
           evidence_level?: string | null
           helpful_votes?: number | null
+          hidden_at?: string | null
           id?: string
           is_anonymous?: boolean | null
           is_approved?: boolean | null
+          is_hidden?: boolean
           last_updated_by?: string | null
           not_helpful_votes?: number | null
           side_effects?: string | null
@@ -837,6 +1227,24 @@ export type Database = {
         }
         Relationships: []
       }
+      report_thresholds: {
+        Row: {
+          content_type: string
+          hide_after: number | null
+          updated_at: string
+        }
+        Insert: {
+          content_type: string
+          hide_after?: number | null
+          updated_at?: string
+        }
+        Update: {
+          content_type?: string
+          hide_after?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       research_requests: {
         Row: {
           created_at: string
@@ -879,6 +1287,65 @@ export type Database = {
         }
         Relationships: []
       }
+      tier_definitions: {
+        Row: {
+          created_at: string
+          threshold: number
+          tier: number
+          title: string
+        }
+        Insert: {
+          created_at?: string
+          threshold: number
+          tier: number
+          title: string
+        }
+        Update: {
+          created_at?: string
+          threshold?: number
+          tier?: number
+          title?: string
+        }
+        Relationships: []
+      }
+      tier_promotions: {
+        Row: {
+          created_at: string
+          from_tier: number
+          id: string
+          seen_at: string | null
+          to_tier: number
+          total_light: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          from_tier: number
+          id?: string
+          seen_at?: string | null
+          to_tier: number
+          total_light: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          from_tier?: number
+          id?: string
+          seen_at?: string | null
+          to_tier?: number
+          total_light?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tier_promotions_to_tier_fkey"
+            columns: ["to_tier"]
+            isOneToOne: false
+            referencedRelation: "tier_definitions"
+            referencedColumns: ["tier"]
+          },
+        ]
+      }
       timelapse_videos: {
         Row: {
           challenge_id: string
@@ -935,6 +1402,38 @@ export type Database = {
           },
         ]
       }
+      user_achievement_progress: {
+        Row: {
+          achievement_id: string
+          id: string
+          progress_value: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          achievement_id: string
+          id?: string
+          progress_value?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          achievement_id?: string
+          id?: string
+          progress_value?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "user_achievement_progress_achievement_id_fkey"
+            columns: ["achievement_id"]
+            isOneToOne: false
+            referencedRelation: "achievements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_achievements: {
         Row: {
           achievement_id: string
@@ -967,10 +1466,30 @@ export type Database = {
           },
         ]
       }
+      user_blocks: {
+        Row: {
+          blocked_id: string
+          blocker_id: string
+          created_at: string
+        }
+        Insert: {
+          blocked_id: string
+          blocker_id: string
+          created_at?: string
+        }
+        Update: {
+          blocked_id?: string
+          blocker_id?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
       user_challenge_participation: {
         Row: {
           actions_completed: number | null
+          bonus_awarded_at: string | null
           challenge_id: string
+          completed_at: string | null
           id: string
           joined_at: string
           light_earned: number | null
@@ -978,7 +1497,9 @@ export type Database = {
         }
         Insert: {
           actions_completed?: number | null
+          bonus_awarded_at?: string | null
           challenge_id: string
+          completed_at?: string | null
           id?: string
           joined_at?: string
           light_earned?: number | null
@@ -986,7 +1507,9 @@ export type Database = {
         }
         Update: {
           actions_completed?: number | null
+          bonus_awarded_at?: string | null
           challenge_id?: string
+          completed_at?: string | null
           id?: string
           joined_at?: string
           light_earned?: number | null
@@ -1184,8 +1707,57 @@ export type Database = {
         }
         Relationships: []
       }
+      weekly_challenge_templates: {
+        Row: {
+          action_target: number
+          base_reward: number
+          challenge_type: string
+          completion_bonus: number
+          created_at: string
+          description: string | null
+          duration_days: number
+          id: string
+          is_active: boolean
+          qualifying_actions: string[]
+          sort_order: number
+          target_participants: number | null
+          title: string
+        }
+        Insert: {
+          action_target?: number
+          base_reward?: number
+          challenge_type: string
+          completion_bonus?: number
+          created_at?: string
+          description?: string | null
+          duration_days?: number
+          id?: string
+          is_active?: boolean
+          qualifying_actions: string[]
+          sort_order?: number
+          target_participants?: number | null
+          title: string
+        }
+        Update: {
+          action_target?: number
+          base_reward?: number
+          challenge_type?: string
+          completion_bonus?: number
+          created_at?: string
+          description?: string | null
+          duration_days?: number
+          id?: string
+          is_active?: boolean
+          qualifying_actions?: string[]
+          sort_order?: number
+          target_participants?: number | null
+          title?: string
+        }
+        Relationships: []
+      }
       weekly_challenges: {
         Row: {
+          action_target: number
           base_reward: number
           challenge_type: string
           completion_bonus: number
@@ -1193,13 +1765,18 @@ export type Database = {
           current_participants: number | null
           description: string | null
           end_date: string
+          goal_reached: boolean | null
           id: string
           is_active: boolean | null
+          qualifying_actions: string[]
+          settled_at: string | null
           start_date: string
           target_participants: number | null
+          template_id: string | null
           title: string
         }
         Insert: {
+          action_target?: number
           base_reward?: number
           challenge_type: string
           completion_bonus?: number
@@ -1207,13 +1784,18 @@ export type Database = {
           current_participants?: number | null
           description?: string | null
           end_date: string
+          goal_reached?: boolean | null
           id?: string
           is_active?: boolean | null
+          qualifying_actions?: string[]
+          settled_at?: string | null
           start_date: string
           target_participants?: number | null
+          template_id?: string | null
           title: string
         }
         Update: {
+          action_target?: number
           base_reward?: number
           challenge_type?: string
           completion_bonus?: number
@@ -1221,20 +1803,345 @@ export type Database = {
           current_participants?: number | null
           description?: string | null
           end_date?: string
+          goal_reached?: boolean | null
           id?: string
           is_active?: boolean | null
+          qualifying_actions?: string[]
+          settled_at?: string | null
           start_date?: string
           target_participants?: number | null
+          template_id?: string | null
           title?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "weekly_challenges_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "weekly_challenge_templates"
+            referencedColumns: ["id"]
+          },
+        ]
       }
     }
     Views: {
-      [_ in never]: never
+      moderation_queue: {
+        Row: {
+          content_id: string | null
+          content_type: string | null
+          first_reported_at: string | null
+          last_reported_at: string | null
+          reasons: string[] | null
+          report_count: number | null
+          reported_user_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "content_reports_content_type_fkey"
+            columns: ["content_type"]
+            isOneToOne: false
+            referencedRelation: "report_thresholds"
+            referencedColumns: ["content_type"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      achievement_metric: {
+        Args: {
+          p_user_id: string
+          p_metric: string
+          p_params?: Json
+        }
+        Returns: number
+      }
+      activate_next_weekly_challenge: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      add_monster_image_version: {
+        Args: {
+          p_version_id: string
+          p_user_id: string
+          p_prompt: string
+          p_keywords: string[]
+          p_images: Json
+          p_style?: string
+          p_seed?: number
+          p_negative_prompt?: string
+        }
+        Returns: Json
+      }
+      apply_light_transaction: {
+        Args: {
+          p_user_id: string
+          p_action_type: string
+          p_points_amount: number
+          p_source_id?: string
+          p_source_type?: string
+          p_metadata?: Json
+        }
+        Returns: Json
+      }
+      award_light: {
+        Args: {
+          p_action_type: string
+          p_points_amount: number
+          p_source_id?: string
+          p_source_type?: string
+          p_metadata?: Json
+        }
+        Returns: Json
+      }
+      block_user: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      check_achievements: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      citadel_action_limit_bonus: {
+        Args: {
+          p_action_type: string
+        }
+        Returns: number
+      }
+      citadel_leaderboard: {
+        Args: {
+          p_upgrade_id: string
+          p_limit?: number
+        }
+        Returns: {
+          user_id: string
+          display_name: string
+          light_spent: number
+          contributions: number
+          last_contributed_at: string
+        }[]
+      }
+      claim_jobs: {
+        Args: {
+          p_limit?: number
+          p_lock_timeout?: unknown
+        }
+        Returns: Database["public"]["Tables"]["jobs"]["Row"][]
+      }
+      compatibility_breakdown: {
+        Args: {
+          p_viewer: unknown
+          p_candidate: unknown
+          p_reveal_private?: boolean
+        }
+        Returns: Json
+      }
+      complete_job: {
+        Args: {
+          p_job_id: string
+          p_result?: Json
+        }
+        Returns: undefined
+      }
+      contribute_to_citadel: {
+        Args: {
+          p_upgrade_id: string
+          p_amount: number
+        }
+        Returns: Json
+      }
+      effective_action_limits: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          action_type: string
+          max_points: number
+          daily_limit: number
+          daily_light_cap: number
+          citadel_bonus: number
+        }[]
+      }
+      enqueue_job: {
+        Args: {
+          p_user_id: string
+          p_job_type: string
+          p_payload?: Json
+          p_idempotency_key?: string
+          p_max_attempts?: number
+        }
+        Returns: Json
+      }
+      evaluate_achievements: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: Json
+      }
+      fail_job: {
+        Args: {
+          p_job_id: string
+          p_error: string
+          p_retry?: boolean
+        }
+        Returns: string
+      }
+      is_blocked_between: {
+        Args: {
+          p_user_a: string
+          p_user_b: string
+        }
+        Returns: boolean
+      }
+      jaccard_similarity: {
+        Args: {
+          p_a: string[]
+          p_b: string[]
+        }
+        Returns: number
+      }
+      join_weekly_challenge: {
+        Args: {
+          p_challenge_id: string
+        }
+        Returns: Json
+      }
+      journal_unread_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          match_id: number
+          unread_count: number
+        }[]
+      }
+      mark_journal_read: {
+        Args: {
+          p_match_id: number
+        }
+        Returns: undefined
+      }
+      mark_messages_read: {
+        Args: {
+          p_match_id: number
+        }
+        Returns: undefined
+      }
+      match_explanation: {
+        Args: {
+          p_requester: unknown
+          p_recipient: unknown
+          p_accepted?: boolean
+        }
+        Returns: Json
+      }
+      match_learnings: {
+        Args: {
+          p_learner: unknown
+          p_teacher: unknown
+          p_include_remedies?: boolean
+        }
+        Returns: Json
+      }
+      message_unread_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          match_id: number
+          unread_count: number
+        }[]
+      }
+      profile_field_values: {
+        Args: {
+          p_profile: Json
+          p_fields: string[]
+        }
+        Returns: string[]
+      }
+      report_content: {
+        Args: {
+          p_content_type: string
+          p_content_id: string
+          p_reason: string
+          p_details?: string
+          p_block_author?: boolean
+        }
+        Returns: Json
+      }
+      record_challenge_photo: {
+        Args: {
+          p_entry_id: string
+        }
+        Returns: Json
+      }
+      request_match: {
+        Args: {
+          p_target_user_id: string
+        }
+        Returns: Json
+      }
+      resolve_reports: {
+        Args: {
+          p_content_type: string
+          p_content_id: string
+          p_resolution: string
+          p_note?: string
+        }
+        Returns: number
+      }
+      respond_to_match: {
+        Args: {
+          p_match_id: number
+          p_response: string
+        }
+        Returns: Json
+      }
+      restore_monster_image_version: {
+        Args: {
+          p_version_id: string
+        }
+        Returns: undefined
+      }
+      search_match_candidates: {
+        Args: {
+          p_min_score?: number
+          p_shared_symptom?: string
+          p_limit?: number
+          p_offset?: number
+        }
+        Returns: {
+          user_id: string
+          display_name: string
+          username: string
+          bio: string
+          monster_keywords: string[]
+          shared_keywords: string[]
+          shared_symptoms: string[]
+          match_score: number
+          breakdown: Json
+          total_count: number
+        }[]
+      }
+      set_content_hidden: {
+        Args: {
+          p_content_type: string
+          p_content_id: string
+          p_hidden: boolean
+        }
+        Returns: undefined
+      }
+      settle_weekly_challenges: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      tier_for_light: {
+        Args: {
+          p_total_light: number
+        }
+        Returns: number
+      }
+      unblock_user: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: Json
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,112 @@
+// Captured challenge photos are written to IndexedDB before anything touches
+// the network, and removed only once every step of saving them has succeeded.
+// Each record remembers how far it got, so a replay after a dropped connection
+// resumes where it stopped instead of uploading or awarding Light twice.
+
+const DB_NAME = 'fiber-monster-match';
+const DB_VERSION = 1;
+const STORE = 'pending_captures';
+
+export type CaptureStage = 'captured' | 'uploaded' | 'entry_saved' | 'progress_saved' | 'light_awarded';
+
+// 'conflict' means another device already saved this day; the user decides what to keep
+export type CaptureStatus = 'pending' | 'failed' | 'conflict';
+
+export interface QueuedCapture {
+  id?: number; // Auto-incremented, so replays run in capture order
+  userId: string;
+  challengeId: string;
+  challengeTitle: string;
+  targetArea: string;
+  dayNumber: number;
+  takenAt: string; // ISO timestamp from the moment of capture
+  imagePath: string;
+  thumbnailPath: string | null; // Cleared if the thumbnail couldn't be stored
+  contentType: string;
+  photo: Blob;
+  thumbnail: Blob;
+  stage: CaptureStage;
+  status: CaptureStatus;
+  entryId?: string;
+  streak?: number; // Progress after this photo, set once it has been recorded
+  totalPhotos?: number;
+  lightEarned?: number; // Set once the award has settled
+  conflictEntryId?: string;
+  attempts: number;
+  lastError?: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: 'id', autoIncrement: true });
+      store.createIndex('userId', 'userId');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Let the next call try again rather than caching the failure
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+const run = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(STORE, mode);
+    const request = action(transaction.objectStore(STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const isCaptureQueueAvailable = async () => {
+  try {
+    await openDatabase();
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const addCapture = async (capture: Omit<QueuedCapture, 'id'>): Promise<QueuedCapture> => {
+  const id = await run('readwrite', store => store.add(capture));
+  return { ...capture, id: id as number };
+};
+
+export const putCapture = (capture: QueuedCapture) =>
+  run('readwrite', store => store.put(capture)).then(() => capture);
+
+export const deleteCapture = (id: number) =>
+  run('readwrite', store => store.delete(id)).then(() => undefined);
+
+// Oldest first
+export const getCaptures = async (userId: string): Promise<QueuedCapture[]> => {
+  const captures = await run('readonly', store => store.index('userId').getAll(userId) as IDBRequest<QueuedCapture[]>);
+  return captures.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+};
+
+// Dropped connections surface as fetch TypeErrors or storage errors without a status
+export const isNetworkError = (error: unknown) => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (error instanceof TypeError) return true;
+  const message = typeof error === 'string'
+    ? error
+    : error instanceof Error ? error.message : String((error as { message?: string })?.message ?? '');
+  return /failed to fetch|network|load failed|timed? ?out/i.test(message);
+};
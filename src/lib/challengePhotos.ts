@@ -0,0 +1,105 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// challenge-photos is private: entries store object paths and photos are shown
+// through short-lived signed URLs, cached here until shortly before they expire.
+
+export const CHALLENGE_PHOTOS_BUCKET = 'challenge-photos';
+
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+// Treat URLs as stale a little early so an <img> never starts loading an expired one
+const REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+interface CachedUrl {
+  url: string;
+  expiresAt: number;
+}
+
+const cache = new Map<string, CachedUrl>();
+const pending = new Map<string, Promise<string | null>>();
+
+const isFresh = (entry: CachedUrl | undefined) =>
+  !!entry && entry.expiresAt - REFRESH_MARGIN_MS > Date.now();
+
+// Template pose guides are absolute URLs; anything else is a path in challenge-photos
+export const isChallengePhotoPath = (value: string) => !/^https?:\/\//.test(value);
+
+export const buildChallengePhotoPath = (userId: string, challengeId: string, dayNumber: number, extension = 'jpg') =>
+  `${userId}/${challengeId}/day-${dayNumber}-${Date.now()}.${extension}`;
+
+// Thumbnails sit next to their photo: day-3-1720000000000.jpg -> day-3-1720000000000-thumb.jpg
+export const buildThumbnailPath = (photoPath: string) =>
+  photoPath.replace(/(\.[a-z0-9]+)?$/i, '-thumb$1');
+
+// Sign many paths with a single request, reusing cached URLs where possible
+export const getSignedPhotoUrls = async (paths: string[]): Promise<Record<string, string>> => {
+  const unique = [...new Set(paths.filter(Boolean))];
+  const result: Record<string, string> = {};
+  const toSign: string[] = [];
+  const waiting: Promise<void>[] = [];
+
+  unique.forEach(path => {
+    const cached = cache.get(path);
+    if (isFresh(cached)) {
+      result[path] = cached!.url;
+    } else if (pending.has(path)) {
+      waiting.push(pending.get(path)!.then(url => { if (url) result[path] = url; }));
+    } else {
+      toSign.push(path);
+    }
+  });
+
+  if (toSign.length > 0) {
+    const request = signPaths(toSign);
+    // Only this caller sees the error; anyone sharing the batch just gets no URL
+    toSign.forEach(path => {
+      const shared = request.then(urls => urls[path] ?? null).catch(() => null);
+      pending.set(path, shared);
+      shared.then(() => {
+        if (pending.get(path) === shared) pending.delete(path);
+      });
+    });
+
+    Object.assign(result, await request);
+  }
+
+  await Promise.all(waiting);
+  return result;
+};
+
+export const getSignedPhotoUrl = async (path: string): Promise<string | null> => {
+  const urls = await getSignedPhotoUrls([path]);
+  return urls[path] ?? null;
+};
+
+// Earliest expiry among the given paths, used to schedule a refresh
+export const getEarliestExpiry = (paths: string[]): number | null => {
+  const expiries = paths
+    .map(path => cache.get(path)?.expiresAt)
+    .filter((expiresAt): expiresAt is number => expiresAt !== undefined);
+  return expiries.length > 0 ? Math.min(...expiries) : null;
+};
+
+export const getRefreshDelay = (expiresAt: number) =>
+  Math.max(0, expiresAt - REFRESH_MARGIN_MS - Date.now());
+
+const signPaths = async (paths: string[]): Promise<Record<string, string>> => {
+  const { data, error } = await supabase.storage
+    .from(CHALLENGE_PHOTOS_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+
+  if (error) throw error;
+
+  const expiresAt = Date.now() + SIGNED_URL_TTL_SECONDS * 1000;
+  const urls: Record<string, string> = {};
+
+  (data || []).forEach(item => {
+    if (item.path && item.signedUrl) {
+      urls[item.path] = item.signedUrl;
+      cache.set(item.path, { url: item.signedUrl, expiresAt });
+    } else if (item.error) {
+      console.error(`Error signing photo ${item.path}:`, item.error);
+    }
+  });
+
+  return urls;
+};
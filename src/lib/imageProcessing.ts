@@ -0,0 +1,150 @@
+// Challenge photos are resized and re-encoded in the browser before upload.
+// Drawing onto a canvas applies the EXIF orientation and drops every piece of
+// metadata (including GPS) from the original file, and a small thumbnail is
+// produced alongside for galleries.
+
+export type PhotoFormat = 'image/jpeg' | 'image/webp';
+
+export interface PhotoProcessingOptions {
+  maxDimension: number; // Longest side of the stored photo, in pixels
+  thumbnailDimension: number;
+  format: PhotoFormat;
+  quality: number; // 0-1, starting quality for the encoder
+  minQuality: number; // Lowest quality tried while aiming for targetBytes
+  targetBytes: number; // Quality is stepped down until the photo fits, if it can
+  thumbnailQuality: number;
+}
+
+export interface ProcessedPhoto {
+  photo: Blob;
+  thumbnail: Blob;
+  contentType: PhotoFormat;
+  extension: 'jpg' | 'webp';
+  width: number;
+  height: number;
+}
+
+// JPEG by default: the edge functions decode photos with imagescript, which doesn't read WebP
+export const PHOTO_PROCESSING: PhotoProcessingOptions = {
+  maxDimension: 1600,
+  thumbnailDimension: 320,
+  format: 'image/jpeg',
+  quality: 0.85,
+  minQuality: 0.6,
+  targetBytes: 600 * 1024,
+  thumbnailQuality: 0.7
+};
+
+const QUALITY_STEP = 0.1;
+
+const EXTENSIONS: Record<PhotoFormat, ProcessedPhoto['extension']> = {
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp'
+};
+
+type DrawableSource = HTMLCanvasElement | ImageBitmap | HTMLImageElement;
+
+const sourceSize = (source: DrawableSource) =>
+  source instanceof HTMLImageElement
+    ? { width: source.naturalWidth, height: source.naturalHeight }
+    : { width: source.width, height: source.height };
+
+// Decode with the EXIF orientation applied. Browsers without createImageBitmap
+// options fall back to <img>, which also honours orientation by default.
+const decodeImage = async (blob: Blob): Promise<DrawableSource> => {
+  if (typeof createImageBitmap === 'function') {
+    try {
+      return await createImageBitmap(blob, { imageOrientation: 'from-image' });
+    } catch (error) {
+      console.warn('createImageBitmap failed, falling back to <img>:', error);
+    }
+  }
+
+  const url = URL.createObjectURL(blob);
+  try {
+    return await new Promise<HTMLImageElement>((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => resolve(image);
+      image.onerror = () => reject(new Error("This image format isn't supported. Please choose a JPEG or PNG photo."));
+      image.src = url;
+    });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const resize = (source: DrawableSource, maxDimension: number): HTMLCanvasElement => {
+  const { width, height } = sourceSize(source);
+  if (!width || !height) {
+    throw new Error('Photo has no image data');
+  }
+
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Failed to create canvas context');
+  }
+
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const encode = (canvas: HTMLCanvasElement, format: PhotoFormat, quality: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob && blob.size > 0) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to encode photo'));
+      }
+    }, format, quality);
+  });
+
+// Browsers that can't encode WebP silently return PNG; use JPEG for them instead
+const encodeWithFallback = async (canvas: HTMLCanvasElement, format: PhotoFormat, quality: number) => {
+  const blob = await encode(canvas, format, quality);
+  if (blob.type === format) return { blob, format };
+  return { blob: await encode(canvas, 'image/jpeg', quality), format: 'image/jpeg' as PhotoFormat };
+};
+
+// Resize, re-encode and thumbnail a captured frame or an uploaded file
+export const processPhoto = async (
+  source: Blob | HTMLCanvasElement,
+  overrides: Partial<PhotoProcessingOptions> = {}
+): Promise<ProcessedPhoto> => {
+  const options = { ...PHOTO_PROCESSING, ...overrides };
+  const image = source instanceof Blob ? await decodeImage(source) : source;
+
+  try {
+    const canvas = resize(image, options.maxDimension);
+
+    let quality = options.quality;
+    const encoded = await encodeWithFallback(canvas, options.format, quality);
+    const format = encoded.format;
+    let photo = encoded.blob;
+    while (photo.size > options.targetBytes && quality - QUALITY_STEP >= options.minQuality) {
+      quality -= QUALITY_STEP;
+      photo = await encode(canvas, format, quality);
+    }
+
+    const thumbnail = await encode(resize(canvas, options.thumbnailDimension), format, options.thumbnailQuality);
+
+    return {
+      photo,
+      thumbnail,
+      contentType: format,
+      extension: EXTENSIONS[format],
+      width: canvas.width,
+      height: canvas.height
+    };
+  } finally {
+    if (typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap) {
+      image.close();
+    }
+  }
+};
@@ -0,0 +1,117 @@
+// Framing comparison between the live camera and the previous day's photo.
+// Both are cover-cropped to the preview's aspect ratio and reduced to a small
+// greyscale grid, then compared with normalised cross-correlation on brightness
+// and edges, so a change in lighting alone doesn't count as misaligned.
+
+const SAMPLE_WIDTH = 48;
+
+// Scores at or above this are close enough that day-to-day comparisons stay meaningful
+export const ALIGNED_THRESHOLD = 70;
+
+type Source = HTMLVideoElement | HTMLImageElement;
+
+export interface AlignmentSample {
+  width: number;
+  height: number;
+  luma: Float32Array;
+  edges: Float32Array;
+}
+
+let canvas: HTMLCanvasElement | null = null;
+
+const sourceSize = (source: Source) =>
+  source instanceof HTMLVideoElement
+    ? { width: source.videoWidth, height: source.videoHeight }
+    : { width: source.naturalWidth, height: source.naturalHeight };
+
+// Draw the source the way object-fit: cover shows it at the given aspect ratio
+export const sampleFrame = (source: Source, aspectRatio: number, mirror = false): AlignmentSample | null => {
+  const { width: sourceWidth, height: sourceHeight } = sourceSize(source);
+  if (!sourceWidth || !sourceHeight || !aspectRatio) return null;
+
+  const width = SAMPLE_WIDTH;
+  const height = Math.max(1, Math.round(SAMPLE_WIDTH / aspectRatio));
+
+  canvas = canvas || document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) return null;
+
+  const scale = Math.max(width / sourceWidth, height / sourceHeight);
+  const cropWidth = width / scale;
+  const cropHeight = height / scale;
+
+  context.save();
+  if (mirror) {
+    context.translate(width, 0);
+    context.scale(-1, 1);
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(
+    source,
+    (sourceWidth - cropWidth) / 2,
+    (sourceHeight - cropHeight) / 2,
+    cropWidth,
+    cropHeight,
+    0,
+    0,
+    width,
+    height
+  );
+  context.restore();
+
+  // Throws a SecurityError if the source was loaded without CORS
+  const pixels = context.getImageData(0, 0, width, height).data;
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2];
+  }
+
+  const edges = new Float32Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const dx = luma[i + 1] - luma[i - 1];
+      const dy = luma[i + width] - luma[i - width];
+      edges[i] = Math.sqrt(dx * dx + dy * dy);
+    }
+  }
+
+  return { width, height, luma, edges };
+};
+
+const correlation = (a: Float32Array, b: Float32Array) => {
+  const n = a.length;
+  let meanA = 0;
+  let meanB = 0;
+  for (let i = 0; i < n; i++) {
+    meanA += a[i];
+    meanB += b[i];
+  }
+  meanA /= n;
+  meanB /= n;
+
+  let covariance = 0;
+  let varianceA = 0;
+  let varianceB = 0;
+  for (let i = 0; i < n; i++) {
+    const da = a[i] - meanA;
+    const db = b[i] - meanB;
+    covariance += da * db;
+    varianceA += da * da;
+    varianceB += db * db;
+  }
+
+  // A flat frame (lens covered, blank wall) carries no framing information
+  if (varianceA === 0 || varianceB === 0) return 0;
+  return covariance / Math.sqrt(varianceA * varianceB);
+};
+
+// 0-100, where 100 means the frames line up exactly
+export const scoreAlignment = (current: AlignmentSample, reference: AlignmentSample): number => {
+  if (current.width !== reference.width || current.height !== reference.height) return 0;
+
+  const score = 0.5 * correlation(current.luma, reference.luma) + 0.5 * correlation(current.edges, reference.edges);
+  return Math.round(Math.max(0, score) * 100);
+};
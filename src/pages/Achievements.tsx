@@ -36,6 +36,7 @@ const Achievements = () => {
   const [achievements, setAchievements] = useState<Achievement[]>([]);
   const [userTier, setUserTier] = useState<UserTier | null>(null);
   const [userAchievements, setUserAchievements] = useState<any[]>([]);
+  const [achievementProgress, setAchievementProgress] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -46,6 +47,11 @@ const Achievements = () => {
 
   const fetchData = async () => {
     try {
+      // Re-evaluate achievement rules so progress reflects the latest activity
+      const { error: checkError } = await supabase.rpc('check_achievements');
+
+      if (checkError) console.error('Error checking achievements:', checkError);
+
       // Fetch all achievements
       const { data: achievementsData, error: achievementsError } = await supabase
         .from('achievements')
@@ -71,9 +77,18 @@ const Achievements = () => {
 
       if (userAchievementsError) throw userAchievementsError;
 
+      // Fetch progress towards each achievement
+      const { data: progressData, error: progressError } = await supabase
+        .from('user_achievement_progress')
+        .select('*')
+        .eq('user_id', user?.id);
+
+      if (progressError) throw progressError;
+
       setAchievements(achievementsData || []);
       setUserTier(tierData);
       setUserAchievements(userAchievementsData || []);
+      setAchievementProgress(progressData || []);
     } catch (error) {
       console.error('Error fetching achievements:', error);
     } finally {
@@ -82,8 +97,8 @@ const Achievements = () => {
   };
 
   const getAchievementProgress = (achievement: Achievement) => {
-    const userAchievement = userAchievements.find(ua => ua.achievement_id === achievement.id);
-    return userAchievement?.progress_value || 0;
+    const progress = achievementProgress.find(p => p.achievement_id === achievement.id);
+    return progress?.progress_value || 0;
   };
 
   const isAchievementUnlocked = (achievement: Achievement) => {
@@ -0,0 +1,260 @@
+import { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useChallengeGallery, GalleryEntry, MAX_ENTRY_NOTES_LENGTH } from '@/hooks/useChallengeGallery';
+import { useSignedPhotoUrls } from '@/hooks/useSignedPhotoUrls';
+import { ChallengeCalendarGrid } from '@/components/ChallengeCalendarGrid';
+import { BeforeAfterSlider } from '@/components/BeforeAfterSlider';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowLeft, Images, Camera, Loader2, Save } from 'lucide-react';
+
+type CompareMode = 'slider' | 'side-by-side';
+type PickTarget = 'before' | 'after';
+
+const formatEntryDate = (entry: GalleryEntry) =>
+  new Date(entry.taken_at).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+const ChallengeGallery = () => {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { challengeId } = useParams<{ challengeId: string }>();
+  const { challenge, entries, loading, saving, saveNotes, setExcluded } = useChallengeGallery(challengeId);
+  const { urls } = useSignedPhotoUrls(entries.flatMap(e => e.thumbnail_path ? [e.image_path, e.thumbnail_path] : [e.image_path]));
+  const [beforeId, setBeforeId] = useState<string | null>(null);
+  const [afterId, setAfterId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [pickTarget, setPickTarget] = useState<PickTarget>('after');
+  const [mode, setMode] = useState<CompareMode>('slider');
+  const [notesDraft, setNotesDraft] = useState('');
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  // Start by comparing the first day with the latest one
+  useEffect(() => {
+    if (entries.length === 0) return;
+    setBeforeId(prev => prev && entries.some(e => e.id === prev) ? prev : entries[0].id);
+    setAfterId(prev => prev && entries.some(e => e.id === prev) ? prev : entries[entries.length - 1].id);
+    setSelectedId(prev => prev && entries.some(e => e.id === prev) ? prev : entries[entries.length - 1].id);
+  }, [entries]);
+
+  const before = entries.find(e => e.id === beforeId);
+  const after = entries.find(e => e.id === afterId);
+  const selected = entries.find(e => e.id === selectedId);
+  const includedCount = entries.filter(e => !e.exclude_from_timelapse).length;
+
+  useEffect(() => {
+    setNotesDraft(selected?.notes || '');
+  }, [selected?.id, selected?.notes]);
+
+  const handleSelect = (entry: GalleryEntry) => {
+    setSelectedId(entry.id);
+    if (pickTarget === 'before') {
+      setBeforeId(entry.id);
+    } else {
+      setAfterId(entry.id);
+    }
+  };
+
+  const beforeLabel = before ? `Day ${before.day_number}` : 'Before';
+  const afterLabel = after ? `Day ${after.day_number}` : 'After';
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted/20">
+      <header className="bg-background/80 backdrop-blur border-b border-border p-4">
+        <div className="max-w-4xl mx-auto flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => navigate('/photo-challenges')}
+            className="flex items-center gap-2"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back
+          </Button>
+          <div className="flex items-center gap-2">
+            <Images className="h-6 w-6 text-primary" />
+            <h1 className="text-xl font-bold">{challenge?.title || 'Photo Gallery'}</h1>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-4xl mx-auto p-6 space-y-6">
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+            <p className="text-muted-foreground">Loading photos...</p>
+          </div>
+        ) : !challenge ? (
+          <Card>
+            <CardHeader className="text-center">
+              <CardTitle>Challenge Not Found</CardTitle>
+              <CardDescription>This challenge doesn't exist or isn't yours.</CardDescription>
+            </CardHeader>
+          </Card>
+        ) : entries.length === 0 ? (
+          <Card>
+            <CardHeader className="text-center">
+              <Camera className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <CardTitle>No Photos Yet</CardTitle>
+              <CardDescription>Take your first photo to start building your gallery.</CardDescription>
+            </CardHeader>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between gap-3 flex-wrap">
+                  <div>
+                    <CardTitle className="text-lg">Compare</CardTitle>
+                    <CardDescription>
+                      {beforeLabel} vs {afterLabel}
+                    </CardDescription>
+                  </div>
+                  <Tabs value={mode} onValueChange={(value) => setMode(value as CompareMode)}>
+                    <TabsList>
+                      <TabsTrigger value="slider">Slider</TabsTrigger>
+                      <TabsTrigger value="side-by-side">Side by side</TabsTrigger>
+                    </TabsList>
+                  </Tabs>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {mode === 'slider' ? (
+                  <BeforeAfterSlider
+                    beforeUrl={before ? urls[before.image_path] : undefined}
+                    afterUrl={after ? urls[after.image_path] : undefined}
+                    beforeLabel={beforeLabel}
+                    afterLabel={afterLabel}
+                    className="max-w-md mx-auto"
+                  />
+                ) : (
+                  <div className="grid grid-cols-2 gap-3">
+                    {[{ entry: before, label: beforeLabel }, { entry: after, label: afterLabel }].map(({ entry, label }) => (
+                      <div key={label} className="space-y-1">
+                        <div className="aspect-[3/4] overflow-hidden rounded-lg bg-muted">
+                          {entry && urls[entry.image_path] && (
+                            <img src={urls[entry.image_path]} alt={label} className="h-full w-full object-cover" />
+                          )}
+                        </div>
+                        <p className="text-center text-sm font-medium">
+                          {label}
+                          {entry && <span className="text-muted-foreground font-normal"> · {formatEntryDate(entry)}</span>}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between gap-3 flex-wrap">
+                  <div>
+                    <CardTitle className="text-lg">Calendar</CardTitle>
+                    <CardDescription>
+                      {includedCount} of {entries.length} photos included in time-lapses
+                    </CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-muted-foreground">Tap a day to set</span>
+                    <ToggleGroup
+                      type="single"
+                      size="sm"
+                      value={pickTarget}
+                      onValueChange={(value) => value && setPickTarget(value as PickTarget)}
+                    >
+                      <ToggleGroupItem value="before" className="text-blue-600">Before</ToggleGroupItem>
+                      <ToggleGroupItem value="after" className="text-green-600">After</ToggleGroupItem>
+                    </ToggleGroup>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <ChallengeCalendarGrid
+                  entries={entries}
+                  photoUrls={urls}
+                  beforeId={beforeId}
+                  afterId={afterId}
+                  selectedId={selectedId}
+                  onSelect={handleSelect}
+                />
+              </CardContent>
+            </Card>
+
+            {selected && (
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center gap-2">
+                    <CardTitle className="text-lg">Day {selected.day_number}</CardTitle>
+                    <Badge variant="outline" className="text-xs">{formatEntryDate(selected)}</Badge>
+                  </div>
+                  {selected.ai_feedback && (
+                    <CardDescription>{selected.ai_feedback}</CardDescription>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="flex items-center justify-between gap-3">
+                    <div>
+                      <Label htmlFor="include-in-timelapse">Include in time-lapse</Label>
+                      <p className="text-xs text-muted-foreground">
+                        Leave out blurry or badly lit shots. They still count towards your streak.
+                      </p>
+                    </div>
+                    <Switch
+                      id="include-in-timelapse"
+                      checked={!selected.exclude_from_timelapse}
+                      disabled={saving === selected.id}
+                      onCheckedChange={(checked) => setExcluded(selected.id, !checked)}
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="entry-notes">Notes</Label>
+                    <Textarea
+                      id="entry-notes"
+                      value={notesDraft}
+                      onChange={(e) => setNotesDraft(e.target.value.slice(0, MAX_ENTRY_NOTES_LENGTH))}
+                      placeholder="How did your skin feel today? Anything you tried?"
+                      rows={3}
+                    />
+                    <div className="flex items-center justify-between">
+                      <span className="text-xs text-muted-foreground">
+                        {notesDraft.length}/{MAX_ENTRY_NOTES_LENGTH}
+                      </span>
+                      <Button
+                        size="sm"
+                        onClick={() => saveNotes(selected.id, notesDraft)}
+                        disabled={saving === selected.id || notesDraft === (selected.notes || '')}
+                      >
+                        {saving === selected.id ? (
+                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                        ) : (
+                          <Save className="h-4 w-4 mr-2" />
+                        )}
+                        Save Notes
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default ChallengeGallery;
@@ -0,0 +1,136 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { usePoints } from '@/hooks/usePoints';
+import { useCitadel, isMaxLevel } from '@/hooks/useCitadel';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { LightCounter } from '@/components/LightCounter';
+import { CitadelUpgradeCard } from '@/components/CitadelUpgradeCard';
+import { ArrowLeft, Castle, Shield } from 'lucide-react';
+
+const Citadel = () => {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { userTier, fetchUserData } = usePoints();
+  const { upgrades, myContributions, loading, contributing, contribute, fetchLeaderboard } = useCitadel();
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  const handleContribute = async (upgradeId: string, amount: number) => {
+    const result = await contribute(upgradeId, amount);
+    if (result.success) {
+      await fetchUserData();
+    }
+    return result;
+  };
+
+  const totalLevels = upgrades.reduce((sum, upgrade) => sum + (upgrade.current_level || 0), 0);
+  const maxLevels = upgrades.reduce((sum, upgrade) => sum + (upgrade.max_level || 0), 0);
+  const completedUpgrades = upgrades.filter(isMaxLevel).length;
+  const myTotal = Object.values(myContributions).reduce((sum, light) => sum + light, 0);
+
+  if (loading && upgrades.length === 0) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-background to-muted/20 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading the Citadel...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background to-muted/20">
+      <header className="bg-background/80 backdrop-blur border-b border-border p-4">
+        <div className="max-w-6xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate('/')}
+              className="flex items-center gap-2"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+            <div className="flex items-center gap-2">
+              <Castle className="h-6 w-6 text-primary" />
+              <h1 className="text-xl font-bold">The Citadel of Hope</h1>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto p-6 space-y-6">
+        {/* Overview Stats */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <LightCounter
+            totalLight={userTier?.total_light || 0}
+            variant="detailed"
+          />
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Castle className="h-5 w-5 text-primary" />
+                Citadel Progress
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-center">
+              <div className="text-3xl font-bold text-primary mb-1">
+                {totalLevels}/{maxLevels}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Levels built · {completedUpgrades} upgrades complete
+              </p>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-3">
+              <CardTitle className="flex items-center gap-2 text-lg">
+                <Shield className="h-5 w-5 text-primary" />
+                Your Contribution
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="text-center">
+              <div className="text-3xl font-bold text-primary mb-1">
+                {myTotal.toLocaleString()}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                Light pooled into the Citadel
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        <p className="text-sm text-muted-foreground text-center max-w-2xl mx-auto">
+          Pool your Light with the community to build shared upgrades. Every level unlocks perks for
+          everyone, like extra daily community actions. Spending Light never lowers your tier.
+        </p>
+
+        <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
+          {upgrades.map(upgrade => (
+            <CitadelUpgradeCard
+              key={upgrade.id}
+              upgrade={upgrade}
+              myContribution={myContributions[upgrade.id] || 0}
+              availableLight={userTier?.total_light || 0}
+              contributing={contributing === upgrade.id}
+              onContribute={handleContribute}
+              onLoadLeaderboard={fetchLeaderboard}
+            />
+          ))}
+        </div>
+      </main>
+    </div>
+  );
+};
+
+export default Citadel;
@@ -1,15 +1,24 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
-import { usePoints } from '@/hooks/usePoints';
+import { useMatches, MatchResponse, MatchExplanation } from '@/hooks/useMatches';
+import { useJournalUnreadCounts } from '@/hooks/useMonsterJournal';
+import { useMessageUnreadCounts } from '@/hooks/useMatchMessages';
+import { useMatchCandidates, MatchCandidate } from '@/hooks/useMatchCandidates';
 import CompatibilityCrystal from '@/components/CompatibilityCrystal';
+import { ConnectionRequestsInbox } from '@/components/ConnectionRequestsInbox';
+import { ConnectionsList } from '@/components/ConnectionsList';
+import { MatchExplanationPanel } from '@/components/MatchExplanationPanel';
+import { BlockedUsersList } from '@/components/BlockedUsersList';
+import { ReportDialog } from '@/components/ReportDialog';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
-import { Heart, ArrowLeft, Users, Sparkles, MessageCircle } from 'lucide-react';
+import { Heart, ArrowLeft, Users, Sparkles, MessageCircle, Clock, Check, ShieldOff, BookOpen, Flag } from 'lucide-react';
 
 interface Profile {
   id: string;
@@ -18,23 +27,47 @@ interface Profile {
   username: string | null;
   monster_keywords: string[] | null;
   symptoms: string[] | null;
-  likes: string[] | null;
-  dislikes: string[] | null;
   bio: string | null;
 }
 
+const MIN_SCORE_OPTIONS = [0, 25, 50, 75];
+const ANY_SYMPTOM = 'any';
+
 const Connections = () => {
   const { user } = useAuth();
-  const { awardLight } = usePoints();
+  const {
+    profiles: matchProfiles,
+    incomingRequests,
+    outgoingRequests,
+    connections,
+    blockedMatches,
+    updating,
+    requestMatch,
+    respondToMatch,
+    blockUser,
+    unblockUser,
+    getMatchWith,
+    fetchMatches
+  } = useMatches();
+  const { unreadCounts } = useJournalUnreadCounts();
+  const { unreadCounts: messageUnreadCounts } = useMessageUnreadCounts();
   const navigate = useNavigate();
-  const [profiles, setProfiles] = useState<Profile[]>([]);
   const [userProfile, setUserProfile] = useState<Profile | null>(null);
   const [loading, setLoading] = useState(true);
+  const [minScore, setMinScore] = useState(0);
+  const [sharedSymptom, setSharedSymptom] = useState<string | null>(null);
+  const [reportTarget, setReportTarget] = useState<{ userId: string; name: string } | null>(null);
+  const {
+    candidates,
+    totalCount,
+    hasMore,
+    loading: candidatesLoading,
+    loadMore
+  } = useMatchCandidates({ minScore, sharedSymptom });
 
   useEffect(() => {
     if (user) {
       fetchUserProfile();
-      fetchMatchingProfiles();
     }
   }, [user]);
 
@@ -49,95 +82,15 @@ const Connections = () => {
 
     if (error) {
       console.error('Error fetching user profile:', error);
-      return;
-    }
-
-    setUserProfile(data);
-  };
-
-  const fetchMatchingProfiles = async () => {
-    if (!user) return;
-
-    const { data, error } = await supabase
-      .from('profiles')
-      .select('*')
-      .neq('user_id', user.id)
-      .not('monster_keywords', 'is', null);
-
-    if (error) {
-      console.error('Error fetching profiles:', error);
-      toast({
-        title: "Error",
-        description: "Failed to load connections. Please try again.",
-        variant: "destructive"
-      });
-      return;
+    } else {
+      setUserProfile(data);
     }
 
-    setProfiles(data || []);
     setLoading(false);
   };
 
-  const calculateMatchScore = (profile: Profile) => {
-    if (!userProfile || !userProfile.monster_keywords || !profile.monster_keywords) {
-      return 0;
-    }
-
-    let totalScore = 0;
-    let totalCategories = 0;
-
-    // Monster keywords matching (40% weight)
-    const userKeywords = userProfile.monster_keywords || [];
-    const profileKeywords = profile.monster_keywords || [];
-    if (userKeywords.length > 0 && profileKeywords.length > 0) {
-      const commonKeywords = userKeywords.filter(keyword => profileKeywords.includes(keyword));
-      const keywordScore = (commonKeywords.length / Math.max(userKeywords.length, profileKeywords.length)) * 100;
-      totalScore += keywordScore * 0.4;
-      totalCategories += 0.4;
-    }
-
-    // Symptoms matching (25% weight)
-    const userSymptoms = userProfile.symptoms || [];
-    const profileSymptoms = profile.symptoms || [];
-    if (userSymptoms.length > 0 && profileSymptoms.length > 0) {
-      const commonSymptoms = userSymptoms.filter(symptom => profileSymptoms.includes(symptom));
-      const symptomScore = (commonSymptoms.length / Math.max(userSymptoms.length, profileSymptoms.length)) * 100;
-      totalScore += symptomScore * 0.25;
-      totalCategories += 0.25;
-    }
-
-    // Likes matching (20% weight)
-    const userLikes = userProfile.likes || [];
-    const profileLikes = profile.likes || [];
-    if (userLikes.length > 0 && profileLikes.length > 0) {
-      const commonLikes = userLikes.filter(like => profileLikes.includes(like));
-      const likesScore = (commonLikes.length / Math.max(userLikes.length, profileLikes.length)) * 100;
-      totalScore += likesScore * 0.2;
-      totalCategories += 0.2;
-    }
-
-    // Dislikes matching (15% weight) - shared dislikes are good for compatibility
-    const userDislikes = userProfile.dislikes || [];
-    const profileDislikes = profile.dislikes || [];
-    if (userDislikes.length > 0 && profileDislikes.length > 0) {
-      const commonDislikes = userDislikes.filter(dislike => profileDislikes.includes(dislike));
-      const dislikesScore = (commonDislikes.length / Math.max(userDislikes.length, profileDislikes.length)) * 100;
-      totalScore += dislikesScore * 0.15;
-      totalCategories += 0.15;
-    }
-
-    return totalCategories > 0 ? Math.round(totalScore / totalCategories) : 0;
-  };
-
-  const getCommonKeywords = (profile: Profile) => {
-    if (!userProfile || !userProfile.monster_keywords || !profile.monster_keywords) {
-      return [];
-    }
-    return userProfile.monster_keywords.filter(keyword => profile.monster_keywords!.includes(keyword));
-  };
-
-  const generateIcebreaker = (profile: Profile) => {
-    const commonKeywords = getCommonKeywords(profile);
+  const generateIcebreaker = (candidate: MatchCandidate) => {
+    const commonKeywords = candidate.shared_keywords;
     if (commonKeywords.length === 0) {
       const fallbacks = [
         "My monster thinks your monster has excellent taste in humans.",
@@ -202,9 +155,63 @@ const Connections = () => {
     return genericWitty[Math.floor(Math.random() * genericWitty.length)];
   };
 
-  const sortedProfiles = profiles
-    .map(profile => ({ ...profile, matchScore: calculateMatchScore(profile) }))
-    .sort((a, b) => b.matchScore - a.matchScore);
+  const handleConnect = async (candidate: MatchCandidate, icebreaker: string) => {
+    const result = await requestMatch(candidate.user_id);
+
+    if (!result.success) return;
+
+    const name = candidate.display_name || candidate.username || 'your match';
+    if (result.match?.connection_status === 'accepted') {
+      toast({
+        title: "Alliance Forged!",
+        description: `You and ${name} are now connected!`,
+      });
+    } else {
+      toast({
+        title: "Request Sent!",
+        description: `${name} will be able to accept your connection request.`,
+      });
+    }
+
+    navigator.clipboard.writeText(icebreaker);
+    toast({
+      title: "Icebreaker Copied!",
+      description: "Start your conversation with this message!"
+    });
+  };
+
+  // Until a request stores the full explanation, show what the search scored
+  const explainCandidate = (candidate: MatchCandidate): MatchExplanation => ({
+    score: candidate.match_score,
+    dimensions: candidate.breakdown,
+    shared_symptoms: candidate.shared_symptoms,
+    shared_strategies: candidate.breakdown.find(dimension => dimension.key === 'strategies')?.shared
+  });
+
+  const handleRespond = async (matchId: number, response: MatchResponse) => {
+    const result = await respondToMatch(matchId, response);
+    if (result.success && response === 'accepted') {
+      toast({
+        title: "Alliance Forged!",
+        description: "Connection accepted. You both earned Light!",
+      });
+    }
+  };
+
+  const handleBlock = async (otherUserId: string, name: string) => {
+    const result = await blockUser(otherUserId);
+    if (result.success) {
+      toast({
+        title: "User Blocked",
+        description: `${name} can no longer find or contact you.`,
+      });
+    }
+  };
+
+  // The search already leaves out blocked users; this catches blocks made since it ran
+  const visibleCandidates = candidates.filter(candidate =>
+    getMatchWith(candidate.user_id)?.connection_status !== 'blocked'
+  );
 
   if (loading) {
     return (
@@ -239,13 +246,50 @@ const Connections = () => {
           <div className="flex items-center gap-2">
             <Sparkles className="h-4 w-4 text-purple-500" />
             <span className="text-sm text-muted-foreground">
-              {sortedProfiles.length} potential connections
+              {totalCount} potential connections
             </span>
           </div>
         </div>
       </header>
 
       <main className="max-w-4xl mx-auto p-6">
+        <ConnectionRequestsInbox
+          requests={incomingRequests}
+          profiles={matchProfiles}
+          userId={user?.id || ''}
+          updating={updating}
+          onRespond={handleRespond}
+          className="mb-8"
+        />
+
+        {user && (
+          <ConnectionsList
+            connections={connections}
+            outgoingRequests={outgoingRequests}
+            profiles={matchProfiles}
+            userId={user.id}
+            unreadCounts={unreadCounts}
+            messageUnreadCounts={messageUnreadCounts}
+            updating={updating}
+            onOpenJournal={(matchId) => navigate(`/connections/${matchId}/journal`)}
+            onOpenChat={(matchId) => navigate(`/connections/${matchId}/chat`)}
+            onBlock={(matchId) => handleRespond(matchId, 'blocked')}
+            onReport={(otherUserId, name) => setReportTarget({ userId: otherUserId, name })}
+            className="mb-8"
+          />
+        )}
+
+        {user && (
+          <BlockedUsersList
+            blocked={blockedMatches}
+            profiles={matchProfiles}
+            userId={user.id}
+            updating={updating}
+            onUnblock={unblockUser}
+            className="mb-8"
+          />
+        )}
+
         <div className="text-center mb-8">
           <h2 className="text-3xl font-bold mb-4">Your Monster Connections</h2>
           <p className="text-lg text-muted-foreground">
@@ -273,23 +317,62 @@ const Connections = () => {
 
         {userProfile?.monster_keywords && (
           <div className="space-y-6">
-            {sortedProfiles.length === 0 ? (
+            <div className="flex flex-wrap items-center gap-3">
+              <Select value={String(minScore)} onValueChange={(value) => setMinScore(Number(value))}>
+                <SelectTrigger className="w-44 bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MIN_SCORE_OPTIONS.map(score => (
+                    <SelectItem key={score} value={String(score)}>
+                      {score === 0 ? 'Any match score' : `${score}%+ match`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {userProfile.symptoms && userProfile.symptoms.length > 0 && (
+                <Select
+                  value={sharedSymptom ?? ANY_SYMPTOM}
+                  onValueChange={(value) => setSharedSymptom(value === ANY_SYMPTOM ? null : value)}
+                >
+                  <SelectTrigger className="w-56 bg-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY_SYMPTOM}>Any shared symptom</SelectItem>
+                    {userProfile.symptoms.map(symptom => (
+                      <SelectItem key={symptom} value={symptom}>
+                        Shares: {symptom}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+
+            {visibleCandidates.length === 0 && !candidatesLoading ? (
               <Card>
                 <CardContent className="p-8 text-center">
                   <Users className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
                   <h3 className="text-xl font-semibold mb-2">No Connections Yet</h3>
                   <p className="text-muted-foreground">
-                    Be the first! More users will join soon and you'll find your connections.
+                    {minScore > 0 || sharedSymptom
+                      ? 'Nobody matches these filters yet. Try widening your search.'
+                      : "Be the first! More users will join soon and you'll find your connections."}
                   </p>
                 </CardContent>
               </Card>
             ) : (
-              sortedProfiles.map((profile) => {
-                const commonKeywords = getCommonKeywords(profile);
+              visibleCandidates.map((profile) => {
+                const commonKeywords = profile.shared_keywords;
                 const icebreaker = generateIcebreaker(profile);
+                const match = getMatchWith(profile.user_id);
+                const status = match?.connection_status;
+                const isIncoming = status === 'pending' && match?.user2_id === user?.id;
+                const candidateName = profile.display_name || profile.username || 'Anonymous User';
                 
                 return (
-                  <Card key={profile.id} className="overflow-hidden">
+                  <Card key={profile.user_id} className="overflow-hidden">
                     <CardHeader className="bg-gradient-to-r from-pink-50 to-purple-50">
                       <div className="flex items-center justify-between">
                         <div className="flex items-center gap-4">
@@ -309,14 +392,15 @@ const Connections = () => {
                         </div>
                         <div className="flex items-center gap-4">
                           <CompatibilityCrystal 
-                            matchScore={profile.matchScore} 
+                            matchScore={profile.match_score} 
+                            breakdown={profile.breakdown}
                             className="flex-shrink-0"
                           />
                           <Badge 
                             variant="secondary" 
                             className="bg-gradient-to-r from-pink-100 to-purple-100 text-primary font-semibold"
                           >
-                            {profile.matchScore}% match
+                            {profile.match_score}% match
                           </Badge>
                         </div>
                       </div>
@@ -339,6 +423,15 @@ const Connections = () => {
                         </div>
                       )}
 
+                      <MatchExplanationPanel
+                        explanation={match?.match_reason?.dimensions ? match.match_reason : explainCandidate(profile)}
+                        userId={user?.id}
+                        otherUserId={profile.user_id}
+                        otherName={profile.display_name || profile.username || 'them'}
+                        viewerIsRequester={!match || match.user1_id === user?.id}
+                        className="mb-4"
+                      />
+
                       <div className="bg-gradient-to-r from-pink-50 to-purple-50 p-4 rounded-lg mb-4">
                         <div className="flex items-start gap-2">
                           <MessageCircle className="h-4 w-4 text-purple-500 mt-1 flex-shrink-0" />
@@ -350,55 +443,88 @@ const Connections = () => {
                       </div>
 
                       <div className="flex gap-3">
-                        <Button 
-                          className="flex-1 bg-gradient-to-r from-pink-500 to-purple-500 hover:from-pink-600 hover:to-purple-600"
-                          onClick={async () => {
-                            // Create match record
-                            const compatibility = calculateMatchScore(profile);
-                            const reasons = getCommonKeywords(profile);
-                            
-                            const { data, error } = await supabase
-                              .from('matches')
-                              .insert({
-                                user1_id: user?.id,
-                                user2_id: profile.user_id,
-                                compatibility_score: compatibility,
-                                match_reason: reasons,
-                                connection_status: 'pending'
-                              })
-                              .select();
-
-                            if (error) throw error;
-
-                            // Award Light for forging an alliance (first message)
-                            if (data && data[0]) {
-                              await awardLight(
-                                'forge_alliance',
-                                20, // As specified in your points system
-                                data[0].id.toString(),
-                                'connection_made',
-                                {
-                                  target_user_id: profile.user_id,
-                                  compatibility_score: compatibility,
-                                  match_reasons: reasons
-                                }
-                              );
-                            }
-
-                            toast({
-                              title: "Alliance Forged!",
-                              description: `Connection made with ${profile.display_name}! +20 Light earned.`,
-                            });
-
-                            navigator.clipboard.writeText(icebreaker);
-                            toast({
-                              title: "Icebreaker Copied!",
-                              description: "Start your conversation with this message!"
-                            });
-                          }}
+                        {status === 'accepted' && match ? (
+                          <>
+                            <Badge className="flex-1 justify-center py-2 bg-green-100 text-green-700 hover:bg-green-100">
+                              <Check className="h-4 w-4 mr-2" />
+                              Connected
+                            </Badge>
+                            <Button
+                              variant="outline"
+                              onClick={() => navigate(`/connections/${match.id}/chat`)}
+                            >
+                              <MessageCircle className="h-4 w-4 mr-2" />
+                              Chat
+                              {(messageUnreadCounts[match.id] || 0) > 0 && (
+                                <Badge className="ml-2 h-5 min-w-5 justify-center px-1.5 bg-pink-500 hover:bg-pink-500">
+                                  {messageUnreadCounts[match.id]}
+                                </Badge>
+                              )}
+                            </Button>
+                            <Button
+                              variant="outline"
+                              onClick={() => navigate(`/connections/${match.id}/journal`)}
+                            >
+                              <BookOpen className="h-4 w-4 mr-2" />
+                              Journal
+                              {(unreadCounts[match.id] || 0) > 0 && (
+                                <Badge className="ml-2 h-5 min-w-5 justify-center px-1.5 bg-pink-500 hover:bg-pink-500">
+                                  {unreadCounts[match.id]}
+                                </Badge>
+                              )}
+                            </Button>
+                          </>
+                        ) : isIncoming && match ? (
+                          <>
+                            <Button
+                              className="flex-1 bg-gradient-to-r from-pink-500 to-purple-500 hover:from-pink-600 hover:to-purple-600"
+                              onClick={() => handleRespond(match.id, 'accepted')}
+                              disabled={updating === match.id}
+                            >
+                              <Check className="h-4 w-4 mr-2" />
+                              Accept Request
+                            </Button>
+                            <Button
+                              variant="outline"
+                              onClick={() => handleRespond(match.id, 'declined')}
+                              disabled={updating === match.id}
+                            >
+                              Decline
+                            </Button>
+                          </>
+                        ) : status === 'pending' ? (
+                          <Button className="flex-1" variant="outline" disabled>
+                            <Clock className="h-4 w-4 mr-2" />
+                            Request Sent
+                          </Button>
+                        ) : status === 'declined' && match?.user1_id === user?.id ? (
+                          <Button className="flex-1" variant="outline" disabled>
+                            Request Declined
+                          </Button>
+                        ) : (
+                          <Button 
+                            className="flex-1 bg-gradient-to-r from-pink-500 to-purple-500 hover:from-pink-600 hover:to-purple-600"
+                            onClick={() => handleConnect(profile, icebreaker)}
+                            disabled={updating === profile.user_id}
+                          >
+                            <MessageCircle className="h-4 w-4 mr-2" />
+                            Connect & Use Icebreaker
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          onClick={() => setReportTarget({ userId: profile.user_id, name: candidateName })}
+                          title="Report"
+                        >
+                          <Flag className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          onClick={() => handleBlock(profile.user_id, candidateName)}
+                          disabled={updating === profile.user_id}
+                          title="Block"
                         >
-                          <MessageCircle className="h-4 w-4 mr-2" />
-                          Connect & Use Icebreaker
+                          <ShieldOff className="h-4 w-4" />
                         </Button>
                       </div>
                     </CardContent>
@@ -406,9 +532,28 @@ const Connections = () => {
                 );
               })
             )}
+
+            {hasMore && (
+              <div className="text-center">
+                <Button variant="outline" onClick={loadMore} disabled={candidatesLoading}>
+                  {candidatesLoading ? 'Loading...' : 'Show More Connections'}
+                </Button>
+              </div>
+            )}
           </div>
         )}
       </main>
+
+      {reportTarget && (
+        <ReportDialog
+          open={!!reportTarget}
+          onOpenChange={(open) => !open && setReportTarget(null)}
+          contentType="user"
+          contentId={reportTarget.userId}
+          subject={reportTarget.name}
+          onReported={() => fetchMatches()}
+        />
+      )}
     </div>
   );
 };
@@ -5,9 +5,10 @@ import { Button } from '@/components/ui/button';
 import { LightCounter } from '@/components/LightCounter';
 import { DailyStreakCard } from '@/components/DailyStreakCard';
 import { CommunityActionsCard } from '@/components/CommunityActionsCard';
+import { WeeklyChallengeCard } from '@/components/WeeklyChallengeCard';
 import { TierBadge } from '@/components/TierBadge';
 import { usePoints } from '@/hooks/usePoints';
-import { Heart, Users, Sparkles, Camera, BarChart3, Trophy } from 'lucide-react';
+import { Heart, Users, Sparkles, Camera, BarChart3, Trophy, Castle } from 'lucide-react';
 
 const Index = () => {
   const { user, loading, signOut } = useAuth();
@@ -86,6 +87,7 @@ const Index = () => {
         <div className="grid md:grid-cols-2 gap-6 mb-8">
           <DailyStreakCard />
           <CommunityActionsCard />
+          <WeeklyChallengeCard className="md:col-span-2" />
         </div>
 
         <div className="text-center mb-12">
@@ -100,7 +102,7 @@ const Index = () => {
           </p>
         </div>
 
-        <div className="grid md:grid-cols-2 lg:grid-cols-6 gap-6 mb-8">
+        <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
           <div className="bg-white/60 backdrop-blur rounded-lg p-6 border border-border">
             <Heart className="h-8 w-8 text-pink-500 mb-4" />
             <h3 className="text-lg font-semibold mb-2">Create Your Monster</h3>
@@ -175,6 +177,21 @@ const Index = () => {
             </Button>
           </div>
           
+          <div className="bg-white/60 backdrop-blur rounded-lg p-6 border border-border">
+            <Castle className="h-8 w-8 text-rose-500 mb-4" />
+            <h3 className="text-lg font-semibold mb-2">The Citadel</h3>
+            <p className="text-muted-foreground mb-4">
+              Pool your Light with the community to build shared upgrades that unlock perks for everyone.
+            </p>
+            <Button 
+              onClick={() => navigate('/citadel')}
+              variant="outline" 
+              className="w-full"
+            >
+              Build the Citadel
+            </Button>
+          </div>
+          
           <div className="bg-white/60 backdrop-blur rounded-lg p-6 border border-border">
             <BarChart3 className="h-8 w-8 text-blue-500 mb-4" />
             <h3 className="text-lg font-semibold mb-2">Community Analytics</h3>
@@ -0,0 +1,223 @@
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useMatches, getOtherUserId } from '@/hooks/useMatches';
+import { useMatchMessages, MatchMessage, MessageStrategy, MAX_MESSAGE_LENGTH } from '@/hooks/useMatchMessages';
+import { ChatMessageItem } from '@/components/ChatMessageItem';
+import { StrategyPicker } from '@/components/StrategyPicker';
+import { ReportDialog } from '@/components/ReportDialog';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowLeft, MessageCircle, Send, X, BookOpen } from 'lucide-react';
+
+const MatchChat = () => {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { matchId: matchIdParam } = useParams<{ matchId: string }>();
+  const matchId = Number(matchIdParam) || null;
+  const { matches, profiles, loading: matchesLoading } = useMatches();
+  const {
+    messages,
+    loading,
+    sending,
+    otherLastReadAt,
+    otherTyping,
+    sendMessage,
+    notifyTyping,
+    removeMessage
+  } = useMatchMessages(matchId);
+  const [draft, setDraft] = useState('');
+  const [attachment, setAttachment] = useState<MessageStrategy | null>(null);
+  const [reportingMessage, setReportingMessage] = useState<MatchMessage | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length, otherTyping]);
+
+  const match = matches.find(m => m.id === matchId) || null;
+  const otherUserId = match && user ? getOtherUserId(match, user.id) : null;
+  const otherProfile = otherUserId ? profiles[otherUserId] : undefined;
+  const otherName = otherProfile?.display_name || otherProfile?.username || 'Your match';
+  const canWrite = match?.connection_status === 'accepted';
+
+  // The read receipt goes on the newest of the user's messages the other person has seen
+  const lastSeenId = otherLastReadAt
+    ? [...messages].reverse().find(m => m.sender_id === user?.id && m.created_at <= otherLastReadAt)?.id
+    : undefined;
+
+  const handleSend = async () => {
+    if (!draft.trim() && !attachment) return;
+
+    const result = await sendMessage(draft, attachment?.id ?? null);
+    if (result.success) {
+      setDraft('');
+      setAttachment(null);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  if ((matchesLoading && !match) || (loading && messages.length === 0)) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-pink-50 to-purple-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Opening your conversation...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-50 to-purple-50">
+      <header className="bg-white/80 backdrop-blur border-b border-border p-4">
+        <div className="max-w-3xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate('/connections')}
+              className="flex items-center gap-2"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+            <div className="flex items-center gap-2">
+              <MessageCircle className="h-6 w-6 text-pink-500" />
+              <h1 className="text-xl font-bold">
+                {match ? `Chat with ${otherName}` : 'Chat'}
+              </h1>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto p-6 space-y-6">
+        {!match || match.connection_status === 'blocked' ? (
+          <Card>
+            <CardContent className="p-8 text-center">
+              <MessageCircle className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+              <h3 className="text-xl font-semibold mb-2">Conversation Not Found</h3>
+              <p className="text-muted-foreground">
+                This conversation doesn't exist or belongs to a connection you're not part of.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardContent className="p-4 space-y-4">
+                {messages.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-6">
+                    No messages yet. Say hello to {otherName}!
+                  </p>
+                ) : (
+                  messages.map(message => (
+                    <ChatMessageItem
+                      key={message.id}
+                      message={message}
+                      isOwn={message.sender_id === user?.id}
+                      seen={message.id === lastSeenId}
+                      onReport={setReportingMessage}
+                    />
+                  ))
+                )}
+                {otherTyping && (
+                  <p className="text-xs text-muted-foreground italic animate-pulse">
+                    {otherName} is typing...
+                  </p>
+                )}
+                <div ref={bottomRef} />
+              </CardContent>
+            </Card>
+
+            {canWrite ? (
+              <Card>
+                <CardContent className="p-4 space-y-3">
+                  {attachment && (
+                    <div className="flex items-center justify-between gap-2 rounded-md border border-pink-200 bg-pink-50 px-3 py-2">
+                      <span className="flex items-center gap-2 text-sm truncate">
+                        <BookOpen className="h-4 w-4 text-purple-500 flex-shrink-0" />
+                        {attachment.title}
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-6 px-1"
+                        onClick={() => setAttachment(null)}
+                        title="Remove"
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  )}
+                  <Textarea
+                    value={draft}
+                    onChange={(e) => {
+                      setDraft(e.target.value);
+                      notifyTyping();
+                    }}
+                    onKeyDown={handleKeyDown}
+                    placeholder={`Message ${otherName}...`}
+                    maxLength={MAX_MESSAGE_LENGTH}
+                    rows={2}
+                  />
+                  <div className="flex items-center justify-between">
+                    <StrategyPicker onSelect={setAttachment} disabled={sending} />
+                    <div className="flex items-center gap-3">
+                      <span className="text-xs text-muted-foreground">
+                        {draft.length}/{MAX_MESSAGE_LENGTH}
+                      </span>
+                      <Button
+                        onClick={handleSend}
+                        disabled={sending || (!draft.trim() && !attachment)}
+                        className="bg-gradient-to-r from-pink-500 to-purple-500 hover:from-pink-600 hover:to-purple-600"
+                      >
+                        <Send className="h-4 w-4 mr-2" />
+                        Send
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center">
+                {match.connection_status === 'pending'
+                  ? 'You can send messages once the connection is accepted.'
+                  : 'This conversation is read-only because the connection is no longer active.'}
+              </p>
+            )}
+          </>
+        )}
+      </main>
+
+      {reportingMessage && (
+        <ReportDialog
+          open={!!reportingMessage}
+          onOpenChange={(open) => !open && setReportingMessage(null)}
+          contentType="message"
+          contentId={reportingMessage.id}
+          subject="this message"
+          onReported={(report) => {
+            if (report.hidden) removeMessage(report.content_id);
+          }}
+        />
+      )}
+    </div>
+  );
+};
+
+export default MatchChat;
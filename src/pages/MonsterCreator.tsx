@@ -7,12 +7,14 @@ import { Badge } from '@/components/ui/badge';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import { MONSTER_KEYWORDS, type KeywordCategory } from '@/data/keywords';
+import { MONSTER_STYLES, DEFAULT_MONSTER_STYLE, type MonsterStyle } from '@/data/monsterStyles';
 import { Heart, Sparkles, ArrowLeft, Wand2 } from 'lucide-react';
 
 const MonsterCreator = () => {
   const { user } = useAuth();
   const navigate = useNavigate();
   const [selectedKeywords, setSelectedKeywords] = useState<Partial<Record<KeywordCategory, string>>>({});
+  const [selectedStyle, setSelectedStyle] = useState<MonsterStyle>(DEFAULT_MONSTER_STYLE);
   const [isGenerating, setIsGenerating] = useState(false);
 
   const categories = Object.keys(MONSTER_KEYWORDS) as KeywordCategory[];
@@ -43,9 +45,24 @@ const MonsterCreator = () => {
 
       if (profileError) throw profileError;
 
+      // Paint the monster in the background; the image lands on the profile when ready
+      const { error: generateError } = await supabase.functions.invoke('generate-monster-image', {
+        body: {
+          keywords: keywordsArray,
+          keywordsByCategory: selectedKeywords,
+          style: selectedStyle
+        }
+      });
+
+      if (generateError) {
+        console.error('Error starting monster image generation:', generateError);
+      }
+
       toast({
         title: "Monster Created!",
-        description: "Your unique Romantic Morgellons Monster keywords have been saved."
+        description: generateError
+          ? "Your unique Romantic Morgellons Monster keywords have been saved."
+          : "Your keywords are saved and your monster portrait is being painted."
       });
 
       // Navigate after a short delay to ensure toast is shown
@@ -166,6 +183,42 @@ const MonsterCreator = () => {
           ))}
         </div>
 
+        <Card className="mt-8">
+          <CardHeader className="bg-gradient-to-r from-pink-100 to-purple-100">
+            <CardTitle className="flex items-center gap-3">
+              <span className="text-2xl">🖌️</span>
+              <span>Art Style</span>
+            </CardTitle>
+            <CardDescription className="text-base">
+              Choose how your monster's portrait will be painted
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-6">
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+              {MONSTER_STYLES.map((style) => {
+                const isSelected = selectedStyle === style.id;
+                return (
+                  <Button
+                    key={style.id}
+                    variant={isSelected ? "default" : "outline"}
+                    className={`h-auto py-3 px-4 whitespace-normal flex-col items-start text-left ${
+                      isSelected
+                        ? "bg-gradient-to-r from-pink-500 to-purple-500 text-white"
+                        : "hover:bg-gradient-to-r hover:from-pink-50 hover:to-purple-50"
+                    }`}
+                    onClick={() => setSelectedStyle(style.id)}
+                  >
+                    <span className="font-medium">{style.name}</span>
+                    <span className={`text-xs ${isSelected ? "text-white/80" : "text-muted-foreground"}`}>
+                      {style.description}
+                    </span>
+                  </Button>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+
         <div className="mt-12 text-center">
           <Card className="max-w-md mx-auto">
             <CardContent className="p-6">
@@ -0,0 +1,163 @@
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useMatches, getOtherUserId } from '@/hooks/useMatches';
+import { useMonsterJournal, MAX_JOURNAL_ENTRY_LENGTH } from '@/hooks/useMonsterJournal';
+import { JournalEntryItem } from '@/components/JournalEntryItem';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { ArrowLeft, BookOpen, Send } from 'lucide-react';
+
+const MonsterJournal = () => {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { matchId: matchIdParam } = useParams<{ matchId: string }>();
+  const matchId = Number(matchIdParam) || null;
+  const { matches, profiles, loading: matchesLoading } = useMatches();
+  const { entries, loading, saving, addEntry, updateEntry, deleteEntry } = useMonsterJournal(matchId);
+  const [draft, setDraft] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate('/auth');
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [entries.length]);
+
+  const match = matches.find(m => m.id === matchId) || null;
+  const otherUserId = match && user ? getOtherUserId(match, user.id) : null;
+  const otherProfile = otherUserId ? profiles[otherUserId] : undefined;
+  const otherName = otherProfile?.display_name || otherProfile?.username || 'Your match';
+  const canWrite = match?.connection_status === 'accepted';
+
+  const getAuthorName = (authorId: string | null) => {
+    if (!authorId) return 'Monster Oracle';
+    return authorId === user?.id ? 'You' : otherName;
+  };
+
+  const handlePost = async () => {
+    if (!draft.trim()) return;
+
+    const result = await addEntry(draft);
+    if (result.success) setDraft('');
+  };
+
+  if ((matchesLoading && !match) || (loading && entries.length === 0)) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-pink-50 to-purple-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Opening your shared journal...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-pink-50 to-purple-50">
+      <header className="bg-white/80 backdrop-blur border-b border-border p-4">
+        <div className="max-w-3xl mx-auto flex items-center justify-between">
+          <div className="flex items-center gap-4">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => navigate('/connections')}
+              className="flex items-center gap-2"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Button>
+            <div className="flex items-center gap-2">
+              <BookOpen className="h-6 w-6 text-pink-500" />
+              <h1 className="text-xl font-bold">
+                {match ? `Monster Journal with ${otherName}` : 'Monster Journal'}
+              </h1>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-3xl mx-auto p-6 space-y-6">
+        {!match ? (
+          <Card>
+            <CardContent className="p-8 text-center">
+              <BookOpen className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+              <h3 className="text-xl font-semibold mb-2">Journal Not Found</h3>
+              <p className="text-muted-foreground">
+                This journal doesn't exist or belongs to a connection you're not part of.
+              </p>
+            </CardContent>
+          </Card>
+        ) : (
+          <>
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-lg">Shared Entries</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {entries.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-6">
+                    No entries yet. Write the first page of your monsters' story together.
+                  </p>
+                ) : (
+                  entries.map(entry => (
+                    <JournalEntryItem
+                      key={entry.id}
+                      entry={entry}
+                      authorName={getAuthorName(entry.author_id)}
+                      isOwn={entry.author_id === user?.id}
+                      saving={saving === entry.id}
+                      onUpdate={updateEntry}
+                      onDelete={deleteEntry}
+                    />
+                  ))
+                )}
+                <div ref={bottomRef} />
+              </CardContent>
+            </Card>
+
+            {canWrite ? (
+              <Card>
+                <CardContent className="p-4 space-y-3">
+                  <Textarea
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    placeholder={`What have your monsters been up to? ${otherName} will see it right away.`}
+                    maxLength={MAX_JOURNAL_ENTRY_LENGTH}
+                    rows={3}
+                  />
+                  <div className="flex items-center justify-between">
+                    <span className="text-xs text-muted-foreground">
+                      {draft.length}/{MAX_JOURNAL_ENTRY_LENGTH}
+                    </span>
+                    <Button
+                      onClick={handlePost}
+                      disabled={saving === 'new' || !draft.trim()}
+                      className="bg-gradient-to-r from-pink-500 to-purple-500 hover:from-pink-600 hover:to-purple-600"
+                    >
+                      <Send className="h-4 w-4 mr-2" />
+                      Post Entry
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center">
+                {match.connection_status === 'pending'
+                  ? 'You can write in this journal once the connection is accepted.'
+                  : 'This journal is read-only because the connection is no longer active.'}
+              </p>
+            )}
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+export default MonsterJournal;
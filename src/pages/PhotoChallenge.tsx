@@ -28,8 +28,15 @@ const differenceInDays = (endDate: Date, startDate: Date): number => {
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
 import { CameraCapture } from '@/components/CameraCapture';
-import { usePoints } from '@/hooks/usePoints';
+import { useCaptureQueue, SavedCapture } from '@/hooks/useCaptureQueue';
+import { useJob } from '@/hooks/useJob';
+import { usePhotoFeedback } from '@/hooks/usePhotoFeedback';
+import { useSignedPhotoUrls } from '@/hooks/useSignedPhotoUrls';
+import { buildChallengePhotoPath, buildThumbnailPath, isChallengePhotoPath } from '@/lib/challengePhotos';
+import { ProcessedPhoto } from '@/lib/imageProcessing';
 import { ChallengeTemplateSelector } from '@/components/ChallengeTemplateSelector';
+import { PhotoFeedbackCard } from '@/components/PhotoFeedbackCard';
+import { PendingUploadsDialog } from '@/components/PendingUploadsDialog';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -52,7 +59,9 @@ import {
   Video,
   Play,
   Clock,
-  AlertTriangle
+  AlertTriangle,
+  Images,
+  CloudOff
 } from 'lucide-react';
 
 interface Challenge {
@@ -78,7 +87,6 @@ interface Progress {
 
 const PhotoChallenge = () => {
   const { user } = useAuth();
-  const { awardLight } = usePoints();
   const navigate = useNavigate();
   const [showCamera, setShowCamera] = useState(false);
   const [challenges, setChallenges] = useState<Challenge[]>([]);
@@ -90,6 +98,31 @@ const PhotoChallenge = () => {
   const [timelapseChallenge, setTimelapseChallenge] = useState<Challenge | null>(null);
   const [selectedEndDate, setSelectedEndDate] = useState<Date>();
   const [isGeneratingTimelapse, setIsGeneratingTimelapse] = useState(false);
+  const [timelapseJobId, setTimelapseJobId] = useState<string | null>(null);
+  const { status: timelapseJobStatus } = useJob(timelapseJobId);
+  const { feedback: photoFeedback, requestAnalysis, refetch: refetchFeedback } = usePhotoFeedback(challenges.map(c => c.id));
+  const [analysisJob, setAnalysisJob] = useState<{ jobId: string; challengeId: string } | null>(null);
+  const { status: analysisJobStatus } = useJob(analysisJob?.jobId);
+  const {
+    captures: queuedCaptures,
+    syncing: syncingCaptures,
+    pendingCount,
+    queueCapture,
+    retryCapture,
+    discardCapture,
+    replaceExisting
+  } = useCaptureQueue(saved => handleCaptureSaved(saved));
+  const [showPendingUploads, setShowPendingUploads] = useState(false);
+
+  const [previousPhotoPath, setPreviousPhotoPath] = useState<string | null>(null);
+
+  // Pose guides taken from the user's own first photo live in the private bucket,
+  // as does the previous photo used for the onion skin
+  const poseGuidePath = selectedChallenge?.pose_guide_url;
+  const { urls: cameraPhotoUrls } = useSignedPhotoUrls([
+    ...(poseGuidePath && isChallengePhotoPath(poseGuidePath) ? [poseGuidePath] : []),
+    ...(previousPhotoPath ? [previousPhotoPath] : [])
+  ]);
 
   useEffect(() => {
     if (user) {
@@ -97,6 +130,32 @@ const PhotoChallenge = () => {
     }
   }, [user]);
 
+  // Let the user know when the background render settles
+  useEffect(() => {
+    if (timelapseJobStatus === 'succeeded') {
+      toast({
+        title: "Time-lapse Ready!",
+        description: "Your progress video has been created successfully.",
+      });
+      setTimelapseJobId(null);
+    } else if (timelapseJobStatus === 'failed') {
+      toast({
+        title: "Time-lapse Failed",
+        description: "We couldn't render your time-lapse. Please try again.",
+        variant: "destructive"
+      });
+      setTimelapseJobId(null);
+    }
+  }, [timelapseJobStatus]);
+
+  // Show the new feedback once the analysis settles; a failed analysis just leaves the photo without it
+  useEffect(() => {
+    if (analysisJobStatus === 'succeeded' || analysisJobStatus === 'failed') {
+      refetchFeedback();
+      setAnalysisJob(null);
+    }
+  }, [analysisJobStatus, refetchFeedback]);
+
   const fetchChallenges = async () => {
     try {
       setLoading(true);
@@ -144,138 +203,93 @@ const PhotoChallenge = () => {
 
   const startCamera = async (challenge: Challenge) => {
     setSelectedChallenge(challenge);
+    setPreviousPhotoPath(null);
     setShowCamera(true);
+
+    // The camera works without the onion skin, so don't hold it up on this
+    const { data: lastEntry, error } = await supabase
+      .from('challenge_entries')
+      .select('image_path')
+      .eq('challenge_id', challenge.id)
+      .eq('user_id', user?.id)
+      .order('day_number', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching previous photo:', error);
+    } else {
+      setPreviousPhotoPath(lastEntry?.image_path ?? null);
+    }
   };
 
-  const handlePhotoTaken = async (photo: Blob, dayNumber: number) => {
+  const handlePhotoTaken = async (photo: ProcessedPhoto, dayNumber: number) => {
     if (!selectedChallenge || !user) return;
 
-    try {
-      // Upload photo to storage
-      const fileName = `${user.id}/${selectedChallenge.id}/day-${dayNumber}-${Date.now()}.jpg`;
-      const { error: uploadError } = await supabase.storage
-        .from('challenge-photos')
-        .upload(fileName, photo);
-
-      if (uploadError) throw uploadError;
-
-      // Get public URL
-      const { data: { publicUrl } } = supabase.storage
-        .from('challenge-photos')
-        .getPublicUrl(fileName);
-
-      // Create challenge entry
-      const { error: entryError } = await supabase
-        .from('challenge_entries')
-        .insert({
-          challenge_id: selectedChallenge.id,
-          user_id: user.id,
-          image_url: publicUrl,
-          day_number: dayNumber,
-          ai_feedback: 'Great job staying consistent with your tracking!',
-          ai_sentiment: 'proud'
-        });
-
-      if (entryError) throw entryError;
-
-      // If this is the first photo (day 1), create pose guide from this photo
-      if (dayNumber === 1) {
-        const { error: updateError } = await supabase
-          .from('photo_challenges')
-          .update({
-            pose_guide_url: publicUrl
-          })
-          .eq('id', selectedChallenge.id);
-
-        if (updateError) {
-          console.error('Error updating pose guide:', updateError);
-        } else {
-          toast({
-            title: "Pose Guide Created!",
-            description: "Your first photo will be used as a guide for future days.",
-          });
-        }
-      }
-
-      // Update or create progress record
-      const currentProgress = progress[selectedChallenge.id];
-      const newStreak = currentProgress ? currentProgress.current_streak + 1 : 1;
-      const newTotal = currentProgress ? currentProgress.total_photos + 1 : 1;
-      const newPoints = currentProgress ? currentProgress.points_earned + 10 : 10;
-      const today = new Date().toISOString().split('T')[0];
-
-      if (currentProgress) {
-        const { error: progressError } = await supabase
-          .from('user_challenge_progress')
-          .update({
-            current_streak: newStreak,
-            longest_streak: Math.max(newStreak, currentProgress.longest_streak),
-            total_photos: newTotal,
-            points_earned: newPoints,
-            last_photo_date: today,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', currentProgress.id);
-
-        if (progressError) throw progressError;
-      } else {
-        const { error: progressError } = await supabase
-          .from('user_challenge_progress')
-          .insert({
-            user_id: user.id,
-            challenge_id: selectedChallenge.id,
-            current_streak: newStreak,
-            longest_streak: newStreak,
-            total_photos: newTotal,
-            points_earned: newPoints,
-            last_photo_date: today
-          });
-
-        if (progressError) throw progressError;
-      }
-
-      // Award Light for photo challenge completion
-      const isFirstPhoto = newTotal === 1;
-      const basePoints = 15;
-      const bonusPoints = isFirstPhoto ? 10 : 0;
-      const streakBonus = newStreak > 1 ? Math.min(newStreak * 2, 20) : 0;
-      
-      const totalLightEarned = basePoints + bonusPoints + streakBonus;
-      
-      await awardLight(
-        'daily_photo_capture',
-        totalLightEarned,
-        selectedChallenge.id,
-        'photo_challenge',
-        {
-          challenge_type: selectedChallenge.target_area,
-          day_number: dayNumber,
-          streak: newStreak,
-          is_first_photo: isFirstPhoto,
-          base_points: basePoints,
-          bonus_points: bonusPoints,
-          streak_bonus: streakBonus
-        }
-      );
-
-      // Show success message with Light earned
+    // Paths and taken_at are fixed now so a later replay stores exactly this capture
+    const imagePath = buildChallengePhotoPath(user.id, selectedChallenge.id, dayNumber, photo.extension);
+    const outcome = await queueCapture({
+      challengeId: selectedChallenge.id,
+      challengeTitle: selectedChallenge.title,
+      targetArea: selectedChallenge.target_area,
+      dayNumber,
+      takenAt: new Date().toISOString(),
+      imagePath,
+      thumbnailPath: buildThumbnailPath(imagePath),
+      contentType: photo.contentType,
+      photo: photo.photo,
+      thumbnail: photo.thumbnail
+    });
+
+    if (outcome.status === 'queued') {
       toast({
-        title: isFirstPhoto ? "Challenge Started!" : "Photo Captured!",
-        description: `Day ${dayNumber} saved! +${totalLightEarned} Light earned.`,
+        title: "Saved Offline",
+        description: `Day ${dayNumber} is saved on this device and will upload when you're back online.`,
       });
+    } else if (outcome.status === 'conflict') {
+      setShowPendingUploads(true);
+    } else if (outcome.status === 'failed') {
+      throw new Error(outcome.error);
+    }
+  };
 
-      // Refresh data to show updated progress
-      await fetchChallenges();
+  // Runs for every saved capture, whether it was just taken or replayed after going offline
+  const handleCaptureSaved = async ({ capture, entryId, lightEarned, isFirstPhoto, replaced }: SavedCapture) => {
+    // Feedback is filled in by the analyze-photo function
+    const analysisJobId = await requestAnalysis(entryId);
+    if (analysisJobId) {
+      setAnalysisJob({ jobId: analysisJobId, challengeId: capture.challengeId });
+    }
 
-    } catch (error) {
-      console.error('Error saving photo:', error);
-      throw error;
+    if (capture.dayNumber === 1 && !replaced) {
+      toast({
+        title: "Pose Guide Created!",
+        description: "Your first photo will be used as a guide for future days.",
+      });
     }
+
+    toast({
+      title: isFirstPhoto ? "Challenge Started!" : "Photo Captured!",
+      description: replaced
+        ? `${capture.challengeTitle} day ${capture.dayNumber} photo replaced.`
+        : lightEarned > 0
+          ? `${capture.challengeTitle} day ${capture.dayNumber} saved! +${lightEarned} Light earned.`
+          : `${capture.challengeTitle} day ${capture.dayNumber} saved!`,
+    });
+
+    // Refresh data to show updated progress
+    await fetchChallenges();
   };
 
+  // Photos still waiting to upload already have their day numbers
   const getNextDayNumber = (challengeId: string): number => {
     const challengeProgress = progress[challengeId];
-    return challengeProgress ? challengeProgress.total_photos + 1 : 1;
+    return (challengeProgress ? challengeProgress.total_photos + 1 : 1) + pendingCount(challengeId);
+  };
+
+  const hasQueuedPhotoToday = (challengeId: string): boolean => {
+    const today = new Date().toISOString().split('T')[0];
+    return queuedCaptures.some(c => c.challengeId === challengeId && c.takenAt.split('T')[0] === today);
   };
 
   const getProgressPercentage = (challengeId: string): number => {
@@ -292,6 +306,8 @@ const PhotoChallenge = () => {
   };
 
   const canTakePhotoToday = (challengeId: string): boolean => {
+    if (hasQueuedPhotoToday(challengeId)) return false;
+
     const challengeProgress = progress[challengeId];
     if (!challengeProgress || !challengeProgress.last_photo_date) return true;
     
@@ -300,6 +316,8 @@ const PhotoChallenge = () => {
   };
 
   const getDaysUntilNextPhoto = (challengeId: string): string => {
+    if (hasQueuedPhotoToday(challengeId)) return "Come back tomorrow";
+
     const challengeProgress = progress[challengeId];
     if (!challengeProgress || !challengeProgress.last_photo_date) return "Ready now";
     
@@ -357,11 +375,12 @@ const PhotoChallenge = () => {
     try {
       setIsGeneratingTimelapse(true);
 
-      // Get all photos for this challenge
+      // Get the photos that go into the time-lapse
       const { data: entries, error: entriesError } = await supabase
         .from('challenge_entries')
-        .select('image_url, day_number, taken_at')
+        .select('image_path, day_number, taken_at')
         .eq('challenge_id', timelapseChallenge.id)
+        .eq('exclude_from_timelapse', false)
         .order('day_number', { ascending: true });
 
       if (entriesError) throw entriesError;
@@ -369,7 +388,7 @@ const PhotoChallenge = () => {
       if (!entries || entries.length < 2) {
         toast({
           title: "Not Enough Photos",
-          description: "You need at least 2 photos to create a time-lapse.",
+          description: "You need at least 2 photos included in the time-lapse. Check the gallery for excluded days.",
           variant: "destructive"
         });
         return;
@@ -379,14 +398,14 @@ const PhotoChallenge = () => {
       const { data, error } = await supabase.functions.invoke('generate-timelapse', {
         body: {
           challengeId: timelapseChallenge.id,
-          userId: user?.id,
-          photos: entries,
           isEarly: early
         }
       });
 
       if (error) throw error;
 
+      setTimelapseJobId(data?.jobId ?? null);
+
       // If early generation, deduct points
       if (early) {
         const challengeProgress = progress[timelapseChallenge.id];
@@ -399,8 +418,8 @@ const PhotoChallenge = () => {
         });
       } else {
         toast({
-          title: "Time-lapse Generated!",
-          description: "Your progress video has been created successfully.",
+          title: "Time-lapse Started!",
+          description: "Your progress video is rendering and will appear when it's ready.",
         });
       }
 
@@ -431,13 +450,14 @@ const PhotoChallenge = () => {
   // Show camera interface
   if (showCamera && selectedChallenge) {
     const currentProgress = progress[selectedChallenge.id];
-    const isFirstPhoto = !currentProgress || currentProgress.total_photos === 0;
+    const isFirstPhoto = (!currentProgress || currentProgress.total_photos === 0) && pendingCount(selectedChallenge.id) === 0;
     
     return (
       <CameraCapture
         challengeId={selectedChallenge.id}
         dayNumber={getNextDayNumber(selectedChallenge.id)}
-        guideImageUrl={isFirstPhoto ? undefined : selectedChallenge.pose_guide_url}
+        guideImageUrl={isFirstPhoto ? undefined : cameraPhotoUrls[selectedChallenge.pose_guide_url] || selectedChallenge.pose_guide_url}
+        previousPhotoUrl={isFirstPhoto || !previousPhotoPath ? undefined : cameraPhotoUrls[previousPhotoPath]}
         title={`${selectedChallenge.title} - Day ${getNextDayNumber(selectedChallenge.id)}`}
         instructions={[
           "Position yourself consistently each day",
@@ -471,13 +491,33 @@ const PhotoChallenge = () => {
             </div>
           </div>
           
-          <Button 
-            onClick={() => setShowTemplateSelector(true)}
-            className="flex items-center gap-2"
-          >
-            <Plus className="h-4 w-4" />
-            New Challenge
-          </Button>
+          <div className="flex items-center gap-2">
+            {queuedCaptures.length > 0 && (
+              <Button
+                variant="outline"
+                onClick={() => setShowPendingUploads(true)}
+                className="flex items-center gap-2"
+              >
+                {syncingCaptures ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <CloudOff className="h-4 w-4" />
+                )}
+                Pending
+                <Badge variant="secondary" className="text-xs">
+                  {queuedCaptures.length}
+                </Badge>
+              </Button>
+            )}
+
+            <Button 
+              onClick={() => setShowTemplateSelector(true)}
+              className="flex items-center gap-2"
+            >
+              <Plus className="h-4 w-4" />
+              New Challenge
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -531,6 +571,12 @@ const PhotoChallenge = () => {
                               Ends {formatShortDate(new Date(challenge.end_date))}
                             </Badge>
                           )}
+                          {pendingCount(challenge.id) > 0 && (
+                            <Badge variant="outline" className="text-xs flex items-center gap-1">
+                              <CloudOff className="h-3 w-3" />
+                              {pendingCount(challenge.id)} waiting to upload
+                            </Badge>
+                          )}
                         </div>
                         
                         <p className="text-muted-foreground text-sm mb-4">
@@ -590,6 +636,12 @@ const PhotoChallenge = () => {
                           </div>
                           <Progress value={progressPercentage} className="h-2" />
                         </div>
+
+                        <PhotoFeedbackCard
+                          feedback={photoFeedback[challenge.id]}
+                          analyzing={analysisJob?.challengeId === challenge.id}
+                          className="mb-4"
+                        />
                       </div>
                     </div>
                     
@@ -605,6 +657,17 @@ const PhotoChallenge = () => {
                           {canTakePhoto ? 'Take Photo' : 'Photo Taken Today'}
                         </Button>
                         
+                        {(challengeProgress?.total_photos || 0) > 0 && (
+                          <Button
+                            variant="outline"
+                            onClick={() => navigate(`/photo-challenges/${challenge.id}/gallery`)}
+                            className="flex items-center gap-2"
+                          >
+                            <Images className="h-4 w-4" />
+                            Gallery
+                          </Button>
+                        )}
+
                         {canMakeTimelapse && (
                           <Button
                             variant="outline"
@@ -629,6 +692,16 @@ const PhotoChallenge = () => {
         )}
       </main>
 
+      <PendingUploadsDialog
+        open={showPendingUploads}
+        onOpenChange={setShowPendingUploads}
+        captures={queuedCaptures}
+        syncing={syncingCaptures}
+        onRetry={retryCapture}
+        onDiscard={discardCapture}
+        onReplace={replaceExisting}
+      />
+
       {/* Time-lapse Dialog */}
       <Dialog open={showTimelapseDialog} onOpenChange={setShowTimelapseDialog}>
         <DialogContent className="max-w-md">
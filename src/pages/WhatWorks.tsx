@@ -8,12 +8,14 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ReportDialog } from '@/components/ReportDialog';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
-import { Heart, ArrowLeft, Search, Star, DollarSign, Clock, AlertTriangle, BookOpen, Plus } from 'lucide-react';
+import { Heart, ArrowLeft, Search, Star, DollarSign, Clock, AlertTriangle, BookOpen, Plus, Flag } from 'lucide-react';
 
 interface ReliefStrategy {
   id: string;
+  user_id: string;
   strategy_type: string;
   title: string;
   description: string;
@@ -23,6 +25,7 @@ interface ReliefStrategy {
   accessibility: string | null;
   side_effects: string | null;
   additional_notes: string | null;
+  is_anonymous: boolean | null;
   created_at: string;
 }
 
@@ -45,6 +48,7 @@ const WhatWorks = () => {
     effectiveness_rating: 3
   });
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [reportingStrategy, setReportingStrategy] = useState<ReliefStrategy | null>(null);
 
   useEffect(() => {
     fetchStrategies();
@@ -410,6 +414,16 @@ const WhatWorks = () => {
                         )}
                       </div>
                     </div>
+                    {user && strategy.user_id !== user.id && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setReportingStrategy(strategy)}
+                        title="Report"
+                      >
+                        <Flag className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 </CardHeader>
                 <CardContent className="p-6">
@@ -480,6 +494,23 @@ const WhatWorks = () => {
           </Card>
         </div>
       </main>
+
+      {reportingStrategy && (
+        <ReportDialog
+          open={!!reportingStrategy}
+          onOpenChange={(open) => !open && setReportingStrategy(null)}
+          contentType="relief_strategy"
+          contentId={reportingStrategy.id}
+          subject="this strategy"
+          canBlockAuthor={!reportingStrategy.is_anonymous}
+          onReported={(report) => {
+            // Enough reports hide it for everyone until a moderator reviews it
+            if (report.hidden) {
+              setStrategies(prev => prev.filter(strategy => strategy.id !== report.content_id));
+            }
+          }}
+        />
+      )}
     </div>
   );
 };
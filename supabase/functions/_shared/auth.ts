@@ -0,0 +1,51 @@
+// supabase/functions/_shared/auth.ts
+//
+// Identify the caller from the request's JWT. Functions act with the service
+// role, so the user must never be taken from the request body.
+
+import { SupabaseClient, supabaseEnv } from './supabase.ts'
+import { forbidden, unauthorized } from './errors.ts'
+
+export interface Caller {
+  id: string
+  email?: string
+}
+
+function getBearerToken(req: Request): string | null {
+  const header = req.headers.get('Authorization') || ''
+  const [scheme, token] = header.split(' ')
+  return scheme?.toLowerCase() === 'bearer' && token ? token : null
+}
+
+// Resolve the signed-in user, or throw 401
+export async function getCaller(req: Request, supabase: SupabaseClient): Promise<Caller> {
+  const token = getBearerToken(req)
+  if (!token) {
+    throw unauthorized('Missing authorization token')
+  }
+
+  const { data, error } = await supabase.auth.getUser(token)
+  if (error || !data?.user) {
+    throw unauthorized('Invalid or expired session')
+  }
+
+  return { id: data.user.id, email: data.user.email }
+}
+
+// Older clients still send userId in the body; it must match the session
+export function assertSameUser(caller: Caller, claimedUserId?: string | null) {
+  if (claimedUserId && claimedUserId !== caller.id) {
+    throw forbidden('userId does not match the authenticated user')
+  }
+}
+
+// For internal endpoints that only other functions or schedulers may call
+export function requireServiceRole(req: Request) {
+  const token = getBearerToken(req)
+  if (!token) {
+    throw unauthorized('Missing authorization token')
+  }
+  if (token !== supabaseEnv.SUPABASE_SERVICE_ROLE_KEY) {
+    throw forbidden('Service role required')
+  }
+}
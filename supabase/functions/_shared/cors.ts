@@ -0,0 +1,6 @@
+// supabase/functions/_shared/cors.ts
+
+export const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
@@ -0,0 +1,38 @@
+// supabase/functions/_shared/env.ts
+//
+// Secrets are validated when a function boots, so a missing value shows up as
+// a clear startup failure instead of an obscure error mid-request.
+
+export class MissingSecretError extends Error {
+  constructor(names: string[]) {
+    super(`Missing required secret${names.length === 1 ? '' : 's'}: ${names.join(', ')}`)
+    this.name = 'MissingSecretError'
+  }
+}
+
+// Read required secrets, failing loudly if any are unset or empty
+export function requireEnv<T extends string>(...names: T[]): Record<T, string> {
+  const values = {} as Record<T, string>
+  const missing: string[] = []
+
+  for (const name of names) {
+    const value = Deno.env.get(name)
+    if (value) {
+      values[name] = value
+    } else {
+      missing.push(name)
+    }
+  }
+
+  if (missing.length > 0) {
+    const error = new MissingSecretError(missing)
+    console.error(`[startup] ${error.message}`)
+    throw error
+  }
+
+  return values
+}
+
+export function optionalEnv(name: string, fallback?: string): string | undefined {
+  return Deno.env.get(name) || fallback
+}
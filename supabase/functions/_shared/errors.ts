@@ -0,0 +1,49 @@
+// supabase/functions/_shared/errors.ts
+
+export class HttpError extends Error {
+  status: number
+  details?: unknown
+
+  constructor(status: number, message: string, details?: unknown) {
+    super(message)
+    this.name = 'HttpError'
+    this.status = status
+    this.details = details
+  }
+}
+
+export const badRequest = (message: string, details?: unknown) => new HttpError(400, message, details)
+export const unauthorized = (message = 'Unauthorized') => new HttpError(401, message)
+export const forbidden = (message = 'Forbidden') => new HttpError(403, message)
+export const notFound = (message = 'Not found') => new HttpError(404, message)
+
+interface PostgrestLikeError {
+  code?: string
+  message?: string
+}
+
+// Map PostgREST / Postgres error codes onto HTTP statuses
+const POSTGRES_STATUS: Record<string, number> = {
+  PGRST116: 404, // .single() matched no rows
+  '23505': 409, // unique_violation
+  '23503': 409, // foreign_key_violation
+  '22P02': 400, // invalid_text_representation (e.g. malformed uuid)
+  '28000': 401, // invalid_authorization_specification
+  '42501': 403, // insufficient_privilege
+  P0001: 400, // raise_exception
+  P0002: 404 // no_data_found
+}
+
+export function toHttpError(error: unknown): HttpError {
+  if (error instanceof HttpError) {
+    return error
+  }
+
+  const postgrestError = error as PostgrestLikeError
+  if (postgrestError?.code && POSTGRES_STATUS[postgrestError.code]) {
+    return new HttpError(POSTGRES_STATUS[postgrestError.code], postgrestError.message || 'Request failed')
+  }
+
+  const message = error instanceof Error ? error.message : String(error)
+  return new HttpError(500, message)
+}
@@ -0,0 +1,39 @@
+// supabase/functions/_shared/http.ts
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { corsHeaders } from './cors.ts'
+import { toHttpError } from './errors.ts'
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status
+  })
+}
+
+export function errorResponse(error: unknown): Response {
+  const httpError = toHttpError(error)
+  return jsonResponse(
+    {
+      error: httpError.message,
+      ...(httpError.details !== undefined && { details: httpError.details })
+    },
+    httpError.status
+  )
+}
+
+// Serve a function with CORS preflight handling and uniform error responses
+export function serveFunction(name: string, handler: (req: Request) => Promise<Response>) {
+  serve(async (req) => {
+    if (req.method === 'OPTIONS') {
+      return new Response(null, { headers: corsHeaders })
+    }
+
+    try {
+      return await handler(req)
+    } catch (error) {
+      console.error(`Error in ${name}:`, error)
+      return errorResponse(error)
+    }
+  })
+}
@@ -0,0 +1,61 @@
+// supabase/functions/_shared/jobs.ts
+//
+// Helpers for functions that hand work to the process-jobs worker instead of
+// running it inside the request.
+
+import { SupabaseClient, supabaseEnv } from './supabase.ts'
+
+export type JobType = 'generate_timelapse' | 'generate_monster_image' | 'analyze_photo'
+
+export interface EnqueuedJob {
+  id: string
+  status: 'queued' | 'running' | 'succeeded' | 'failed'
+  payload: Record<string, unknown>
+  created: boolean // false when an earlier job with the same idempotency key was returned
+  retried: boolean // true when that earlier job had failed and was queued again
+}
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined
+
+export async function enqueueJob(
+  supabase: SupabaseClient,
+  userId: string,
+  jobType: JobType,
+  payload: Record<string, unknown>,
+  idempotencyKey?: string
+): Promise<EnqueuedJob> {
+  const { data, error } = await supabase.rpc('enqueue_job', {
+    p_user_id: userId,
+    p_job_type: jobType,
+    p_payload: payload,
+    p_idempotency_key: idempotencyKey ?? null
+  })
+
+  if (error) {
+    console.error('Error enqueuing job:', error)
+    throw error
+  }
+
+  const job = data as EnqueuedJob
+  console.log(`Job ${job.id} (${jobType}) ${job.retried ? 're-enqueued' : job.created ? 'enqueued' : 'already exists'}`)
+  return job
+}
+
+// Nudge the worker so new jobs start straight away rather than on the next
+// scheduled run. Failures are harmless: the job stays queued.
+export function kickWorker() {
+  const request = fetch(`${supabaseEnv.SUPABASE_URL}/functions/v1/process-jobs`, {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${supabaseEnv.SUPABASE_SERVICE_ROLE_KEY}`,
+      'Content-Type': 'application/json'
+    },
+    body: '{}'
+  })
+    .then(response => response.body?.cancel())
+    .catch(error => console.error('Error starting job worker:', error))
+
+  if (typeof EdgeRuntime !== 'undefined') {
+    EdgeRuntime.waitUntil(request)
+  }
+}
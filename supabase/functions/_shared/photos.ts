@@ -0,0 +1,43 @@
+// supabase/functions/_shared/photos.ts
+//
+// challenge-photos is private; functions fetch photos through batched,
+// short-lived signed URLs.
+
+import { SupabaseClient } from './supabase.ts'
+
+const CHALLENGE_PHOTOS_BUCKET = 'challenge-photos'
+const SIGNED_URL_TTL_SECONDS = 10 * 60
+
+export async function signChallengePhotos(supabase: SupabaseClient, paths: string[]): Promise<Record<string, string>> {
+  const { data, error } = await supabase.storage
+    .from(CHALLENGE_PHOTOS_BUCKET)
+    .createSignedUrls(paths, SIGNED_URL_TTL_SECONDS)
+
+  if (error) throw error
+
+  const urls: Record<string, string> = {}
+  for (const item of data || []) {
+    if (item.path && item.signedUrl) {
+      urls[item.path] = item.signedUrl
+    }
+  }
+  return urls
+}
+
+// Download photos in the given order
+export async function downloadChallengePhotos(supabase: SupabaseClient, paths: string[]): Promise<Uint8Array[]> {
+  const urls = await signChallengePhotos(supabase, paths)
+
+  return await Promise.all(paths.map(async (path) => {
+    if (!urls[path]) {
+      throw new Error(`Could not sign photo ${path}`)
+    }
+
+    const response = await fetch(urls[path])
+    if (!response.ok) {
+      throw new Error(`Could not download photo ${path}: ${response.status}`)
+    }
+
+    return new Uint8Array(await response.arrayBuffer())
+  }))
+}
@@ -0,0 +1,14 @@
+// supabase/functions/_shared/supabase.ts
+
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.7.1'
+import { requireEnv } from './env.ts'
+
+export type { SupabaseClient }
+
+// Checked once at boot for every function that talks to the database
+export const supabaseEnv = requireEnv('SUPABASE_URL', 'SUPABASE_SERVICE_ROLE_KEY')
+
+// Service-role client; bypasses RLS, so only use it for trusted server work
+export function createServiceClient(): SupabaseClient {
+  return createClient(supabaseEnv.SUPABASE_URL, supabaseEnv.SUPABASE_SERVICE_ROLE_KEY)
+}
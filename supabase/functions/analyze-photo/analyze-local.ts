@@ -0,0 +1,52 @@
+// supabase/functions/analyze-photo/analyze-local.ts
+//
+// Measures a folder of photos without Supabase and prints the feedback each
+// day would get, e.g.
+//
+//   deno run --allow-read supabase/functions/analyze-photo/analyze-local.ts ./photos [target-area]
+//
+// Photos are treated as consecutive days in file name order.
+
+import { measurePhoto, comparePhotos, PhotoMetrics } from './metrics.ts'
+import { buildLocalFeedback } from './feedback.ts'
+
+const COMPARE_DAYS = 3
+
+const [inputDir, targetArea = ''] = Deno.args
+
+if (!inputDir) {
+  console.error('Usage: analyze-local.ts <photo-dir> [target-area]')
+  Deno.exit(1)
+}
+
+const fileNames: string[] = []
+for await (const entry of Deno.readDir(inputDir)) {
+  if (entry.isFile && /\.(jpe?g|png)$/i.test(entry.name)) {
+    fileNames.push(entry.name)
+  }
+}
+fileNames.sort()
+
+console.log(`Found ${fileNames.length} photos in ${inputDir}`)
+
+const measured: { dayNumber: number; metrics: PhotoMetrics }[] = []
+
+for (const [index, name] of fileNames.entries()) {
+  const dayNumber = index + 1
+  const metrics = await measurePhoto(await Deno.readFile(`${inputDir}/${name}`))
+  const previous = measured.slice(-COMPARE_DAYS).reverse()
+  const comparison = comparePhotos(metrics, previous)
+  const result = buildLocalFeedback({ dayNumber, targetArea, comparison })
+
+  console.log(`\nDay ${dayNumber} (${name})`)
+  console.log('  metrics:', JSON.stringify({ brightness: metrics.brightness, redness: metrics.redness, color: metrics.color }))
+  if (comparison) {
+    console.log('  change:', JSON.stringify({ ...comparison, changedRegions: comparison.changedRegions.map(r => r.label) }))
+  }
+  console.log(`  ${result.sentiment} (${result.confidence}): ${result.feedback}`)
+  for (const suggestion of result.suggestions) {
+    console.log(`  - ${suggestion}`)
+  }
+
+  measured.push({ dayNumber, metrics })
+}
@@ -0,0 +1,96 @@
+// supabase/functions/analyze-photo/feedback.ts
+//
+// Turns the measured comparison into the short feedback shown on the challenge
+// card. Used as-is by the local provider and as the fallback when a model
+// provider fails. The wording stays descriptive: it reports what changed in the
+// photos and never tries to diagnose.
+
+import { PhotoComparison } from './metrics.ts'
+
+export type FeedbackSentiment = 'proud' | 'encouraging' | 'hopeful' | 'supportive'
+
+export interface PhotoFeedback {
+  feedback: string
+  sentiment: FeedbackSentiment
+  suggestions: string[]
+  confidence: number // 0-1, how much the comparison can be trusted
+}
+
+export interface FeedbackContext {
+  dayNumber: number
+  targetArea: string | null
+  comparison: PhotoComparison | null
+}
+
+// Below this the photos are considered unchanged
+const NOTICEABLE_CHANGE = 3
+const NOTICEABLE_REDNESS = 2
+
+export function buildLocalFeedback({ dayNumber, targetArea, comparison }: FeedbackContext): PhotoFeedback {
+  const area = targetArea || 'tracking area'
+
+  if (!comparison) {
+    return {
+      feedback: `Day ${dayNumber} is your baseline. Every photo from here on will be compared with it so you can see how your ${area} changes.`,
+      sentiment: 'proud',
+      suggestions: [
+        'Take tomorrow\'s photo in the same spot and light',
+        'Keep the camera at the same distance and angle'
+      ],
+      confidence: 1
+    }
+  }
+
+  const suggestions: string[] = []
+  const days = comparison.comparedDays.length === 1 ? 'the previous day' : `the previous ${comparison.comparedDays.length} days`
+  let feedback: string
+  let sentiment: FeedbackSentiment
+
+  if (!comparison.lightingConsistent) {
+    feedback = `Day ${dayNumber} was ${comparison.brightnessChange > 0 ? 'much brighter' : 'much darker'} than ${days}, so small changes are hard to judge this time.`
+    sentiment = 'supportive'
+    suggestions.push('Try to use the same lighting each day, ideally indirect daylight')
+  } else if (comparison.rednessChange <= -NOTICEABLE_REDNESS) {
+    feedback = `Redness in your ${area} looks lower than ${days}${describeRegions(comparison)}.`
+    sentiment = 'hopeful'
+  } else if (comparison.rednessChange >= NOTICEABLE_REDNESS) {
+    feedback = `There's a bit more redness in your ${area} than ${days}${describeRegions(comparison)}. Tracking it is exactly how you spot patterns.`
+    sentiment = 'supportive'
+    suggestions.push('Note anything different today (food, sleep, products) so you can compare later')
+  } else if (comparison.overallChange >= NOTICEABLE_CHANGE) {
+    feedback = `Some areas look different from ${days}${describeRegions(comparison)}.`
+    sentiment = 'encouraging'
+  } else {
+    feedback = `Your ${area} looks steady compared with ${days}. Consistent photos like this make real changes easy to spot.`
+    sentiment = 'proud'
+  }
+
+  if (comparison.colorShift >= 10 && comparison.lightingConsistent) {
+    suggestions.push('Colours shifted noticeably; check for tinted light or a different background')
+  }
+  if (comparison.changedRegions.length > 0) {
+    suggestions.push('Compare this photo side by side with earlier days to take a closer look')
+  }
+  if (suggestions.length === 0) {
+    suggestions.push('Keep going: a photo at the same time each day gives the clearest picture')
+  }
+
+  return {
+    feedback,
+    sentiment,
+    suggestions,
+    confidence: estimateConfidence(comparison)
+  }
+}
+
+// More history and steadier lighting make the comparison more reliable
+export function estimateConfidence(comparison: PhotoComparison): number {
+  const history = Math.min(1, 0.5 + comparison.comparedDays.length * 0.15)
+  const lighting = Math.max(0.2, 1 - Math.abs(comparison.brightnessChange) / 40)
+  return Math.round(history * lighting * 100) / 100
+}
+
+function describeRegions(comparison: PhotoComparison): string {
+  const labels = comparison.changedRegions.slice(0, 2).map(region => region.label)
+  return labels.length > 0 ? `, mostly around the ${labels.join(' and ')}` : ''
+}
@@ -0,0 +1,49 @@
+// supabase/functions/analyze-photo/index.ts
+
+import { serveFunction, jsonResponse } from '../_shared/http.ts'
+import { badRequest, forbidden, notFound } from '../_shared/errors.ts'
+import { getCaller, assertSameUser } from '../_shared/auth.ts'
+import { createServiceClient } from '../_shared/supabase.ts'
+import { enqueueJob, kickWorker } from '../_shared/jobs.ts'
+import { getAnalysisProvider } from './providers/index.ts'
+
+// Fail at boot rather than in the worker if the configured provider is missing its secrets
+const provider = getAnalysisProvider()
+console.log('Photo analysis provider:', provider.name)
+
+serveFunction('analyze-photo', async (req) => {
+  console.log('Photo analysis function started')
+
+  const supabase = createServiceClient()
+  const caller = await getCaller(req, supabase)
+
+  const { entryId, userId: claimedUserId } = await req.json()
+  console.log('Received request:', { entryId, userId: caller.id })
+
+  if (!entryId) {
+    throw badRequest('Invalid request: need entryId')
+  }
+
+  assertSameUser(caller, claimedUserId)
+  const userId = caller.id
+
+  const { data: entry, error: entryError } = await supabase
+    .from('challenge_entries')
+    .select('user_id, image_path')
+    .eq('id', entryId)
+    .maybeSingle()
+
+  if (entryError) throw entryError
+  if (!entry) throw notFound('Photo not found')
+  if (entry.user_id !== userId) throw forbidden('You do not own this photo')
+
+  // One analysis per photo; asking again returns the existing job. Replacing
+  // the entry's photo changes its path, so the new photo is analysed too.
+  const job = await enqueueJob(supabase, userId, 'analyze_photo', { entryId, userId }, `${entryId}:${entry.image_path}`)
+
+  if (job.created) {
+    kickWorker()
+  }
+
+  return jsonResponse({ jobId: job.id, status: job.status }, 202)
+})
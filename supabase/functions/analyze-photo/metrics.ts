@@ -0,0 +1,190 @@
+// supabase/functions/analyze-photo/metrics.ts
+//
+// Brightness, colour and per-region measurements for challenge photos, and the
+// comparison of a new photo against earlier days. Photos are cropped to the same
+// frame the time-lapse uses and sampled on a small grid, so the numbers are
+// cheap to compute and comparable between cameras.
+//
+// Nothing in here talks to Supabase, so it can be exercised locally with
+// analyze-local.ts.
+
+import { Image } from 'https://deno.land/x/imagescript@1.2.15/mod.ts'
+
+// Portrait 3:4, like the time-lapse frame
+const SAMPLE_WIDTH = 96
+const SAMPLE_HEIGHT = 128
+export const REGION_GRID = 4 // Regions per side
+
+// Changes smaller than these (on a 0-100 scale) are treated as noise
+const REGION_CHANGE_THRESHOLD = 8
+const LIGHTING_TOLERANCE = 12
+
+export interface RegionMetrics {
+  brightness: number
+  redness: number
+}
+
+export interface PhotoMetrics {
+  brightness: number // Mean luma, 0-100
+  color: { r: number; g: number; b: number } // Mean channel values, 0-255
+  redness: number // How much red dominates the other channels, 0-100
+  regions: RegionMetrics[] // REGION_GRID x REGION_GRID, row by row from the top left
+}
+
+export interface RegionChange {
+  row: number
+  column: number
+  label: string // e.g. 'upper left'
+  brightnessChange: number
+  rednessChange: number
+}
+
+export interface PhotoComparison {
+  comparedDays: number[] // Day numbers of the photos the new one was compared with
+  brightnessChange: number // Percentage points, positive when brighter
+  colorShift: number // Distance between mean colours, 0-100
+  rednessChange: number // Percentage points, positive when redder
+  overallChange: number // Mean per-region difference, 0-100
+  lightingConsistent: boolean // False when exposure differs too much to trust small changes
+  changedRegions: RegionChange[] // Largest changes first
+}
+
+export async function measurePhoto(bytes: Uint8Array): Promise<PhotoMetrics> {
+  const decoded = await Image.decode(bytes)
+  if (!(decoded instanceof Image)) {
+    throw new Error('Animated images are not supported for analysis')
+  }
+
+  const image = decoded.cover(SAMPLE_WIDTH, SAMPLE_HEIGHT)
+  const pixels = image.bitmap
+  const cellWidth = SAMPLE_WIDTH / REGION_GRID
+  const cellHeight = SAMPLE_HEIGHT / REGION_GRID
+
+  const cells = Array.from({ length: REGION_GRID * REGION_GRID }, () => ({ luma: 0, redness: 0, count: 0 }))
+  let totalR = 0
+  let totalG = 0
+  let totalB = 0
+  let totalLuma = 0
+  let totalRedness = 0
+
+  for (let y = 0; y < SAMPLE_HEIGHT; y++) {
+    for (let x = 0; x < SAMPLE_WIDTH; x++) {
+      const i = (y * SAMPLE_WIDTH + x) * 4
+      const r = pixels[i]
+      const g = pixels[i + 1]
+      const b = pixels[i + 2]
+      const luma = 0.299 * r + 0.587 * g + 0.114 * b
+      const redness = Math.max(0, r - (g + b) / 2)
+
+      totalR += r
+      totalG += g
+      totalB += b
+      totalLuma += luma
+      totalRedness += redness
+
+      const cell = cells[Math.floor(y / cellHeight) * REGION_GRID + Math.floor(x / cellWidth)]
+      cell.luma += luma
+      cell.redness += redness
+      cell.count++
+    }
+  }
+
+  const count = SAMPLE_WIDTH * SAMPLE_HEIGHT
+
+  return {
+    brightness: round(toPercent(totalLuma / count)),
+    color: {
+      r: round(totalR / count),
+      g: round(totalG / count),
+      b: round(totalB / count)
+    },
+    redness: round(toPercent(totalRedness / count)),
+    regions: cells.map(cell => ({
+      brightness: round(toPercent(cell.luma / cell.count)),
+      redness: round(toPercent(cell.redness / cell.count))
+    }))
+  }
+}
+
+// Compare a photo with the average of earlier days. Brightness is normalised
+// first, so a sunnier day doesn't show up as a change in every region.
+export function comparePhotos(
+  current: PhotoMetrics,
+  previous: { dayNumber: number; metrics: PhotoMetrics }[]
+): PhotoComparison | null {
+  if (previous.length === 0) return null
+
+  const baseline = averageMetrics(previous.map(p => p.metrics))
+  const brightnessChange = current.brightness - baseline.brightness
+
+  const changedRegions: RegionChange[] = []
+  let totalRegionChange = 0
+
+  current.regions.forEach((region, index) => {
+    const base = baseline.regions[index]
+    const regionBrightnessChange = region.brightness - base.brightness - brightnessChange
+    const regionRednessChange = region.redness - base.redness
+    const magnitude = Math.max(Math.abs(regionBrightnessChange), Math.abs(regionRednessChange))
+    totalRegionChange += magnitude
+
+    if (magnitude >= REGION_CHANGE_THRESHOLD) {
+      const row = Math.floor(index / REGION_GRID)
+      const column = index % REGION_GRID
+      changedRegions.push({
+        row,
+        column,
+        label: regionLabel(row, column),
+        brightnessChange: round(regionBrightnessChange),
+        rednessChange: round(regionRednessChange)
+      })
+    }
+  })
+
+  changedRegions.sort((a, b) =>
+    Math.max(Math.abs(b.brightnessChange), Math.abs(b.rednessChange)) -
+    Math.max(Math.abs(a.brightnessChange), Math.abs(a.rednessChange))
+  )
+
+  const colorShift = Math.hypot(
+    current.color.r - baseline.color.r,
+    current.color.g - baseline.color.g,
+    current.color.b - baseline.color.b
+  ) / Math.hypot(255, 255, 255) * 100
+
+  return {
+    comparedDays: previous.map(p => p.dayNumber),
+    brightnessChange: round(brightnessChange),
+    colorShift: round(colorShift),
+    rednessChange: round(current.redness - baseline.redness),
+    overallChange: round(totalRegionChange / current.regions.length),
+    lightingConsistent: Math.abs(brightnessChange) <= LIGHTING_TOLERANCE,
+    changedRegions
+  }
+}
+
+function averageMetrics(metrics: PhotoMetrics[]): PhotoMetrics {
+  const mean = (values: number[]) => values.reduce((total, value) => total + value, 0) / values.length
+
+  return {
+    brightness: mean(metrics.map(m => m.brightness)),
+    color: {
+      r: mean(metrics.map(m => m.color.r)),
+      g: mean(metrics.map(m => m.color.g)),
+      b: mean(metrics.map(m => m.color.b))
+    },
+    redness: mean(metrics.map(m => m.redness)),
+    regions: metrics[0].regions.map((_, index) => ({
+      brightness: mean(metrics.map(m => m.regions[index].brightness)),
+      redness: mean(metrics.map(m => m.regions[index].redness))
+    }))
+  }
+}
+
+function regionLabel(row: number, column: number): string {
+  const vertical = ['top', 'upper', 'lower', 'bottom'][row] ?? 'middle'
+  const horizontal = ['far left', 'left', 'right', 'far right'][column] ?? 'centre'
+  return `${vertical} ${horizontal}`
+}
+
+const toPercent = (value: number) => (value / 255) * 100
+const round = (value: number) => Math.round(value * 10) / 10
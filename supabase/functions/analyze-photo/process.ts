@@ -0,0 +1,149 @@
+// supabase/functions/analyze-photo/process.ts
+//
+// Job handler for 'analyze_photo', run by the process-jobs worker.
+
+import { SupabaseClient } from '../_shared/supabase.ts'
+import { downloadChallengePhotos } from '../_shared/photos.ts'
+import { measurePhoto, comparePhotos, PhotoMetrics } from './metrics.ts'
+import { buildLocalFeedback, PhotoFeedback } from './feedback.ts'
+import { getAnalysisProvider } from './providers/index.ts'
+
+export interface PhotoAnalysisJobPayload {
+  entryId: string
+  userId: string
+}
+
+export const ANALYSIS_TYPE = 'visual_change'
+
+// How many earlier days each photo is compared with
+const COMPARE_DAYS = 3
+
+interface StoredAnalysis {
+  entry_id: string
+  detected_changes: { metrics?: PhotoMetrics } | null
+}
+
+// Measure a new challenge photo, compare it with earlier days and store the
+// feedback on both ai_analysis and the entry itself
+export async function analyzePhoto(supabase: SupabaseClient, job: PhotoAnalysisJobPayload) {
+  const { data: entry, error: entryError } = await supabase
+    .from('challenge_entries')
+    .select('id, challenge_id, image_path, day_number')
+    .eq('id', job.entryId)
+    .eq('user_id', job.userId)
+    .single()
+
+  if (entryError) throw entryError
+
+  const { data: challenge, error: challengeError } = await supabase
+    .from('photo_challenges')
+    .select('target_area')
+    .eq('id', entry.challenge_id)
+    .single()
+
+  if (challengeError) throw challengeError
+
+  const { data: previous, error: previousError } = await supabase
+    .from('challenge_entries')
+    .select('id, image_path, day_number')
+    .eq('challenge_id', entry.challenge_id)
+    .eq('user_id', job.userId)
+    .lt('day_number', entry.day_number)
+    .order('day_number', { ascending: false })
+    .limit(COMPARE_DAYS)
+
+  if (previousError) throw previousError
+
+  // Earlier days were measured when they were analysed; only download what's missing
+  const storedMetrics = await loadStoredMetrics(supabase, previous.map(p => p.id))
+  const missing = previous.filter(p => !storedMetrics[p.id])
+  const paths = [entry.image_path, ...missing.map(p => p.image_path)]
+  const [photo, ...missingPhotos] = await downloadChallengePhotos(supabase, paths)
+
+  const metrics = await measurePhoto(photo)
+  for (let i = 0; i < missing.length; i++) {
+    storedMetrics[missing[i].id] = await measurePhoto(missingPhotos[i])
+  }
+
+  const comparison = comparePhotos(
+    metrics,
+    previous.map(p => ({ dayNumber: p.day_number, metrics: storedMetrics[p.id] }))
+  )
+
+  const context = { dayNumber: entry.day_number, targetArea: challenge.target_area, comparison }
+  const provider = getAnalysisProvider()
+  let providerName = provider.name
+  let result: PhotoFeedback
+
+  try {
+    if (provider.name === 'local') {
+      result = buildLocalFeedback(context)
+    } else {
+      // Model providers also look at the most recent earlier photo
+      const latest = previous[0]
+      const downloaded = latest ? missing.indexOf(latest) : -1
+      const previousPhoto = !latest
+        ? undefined
+        : downloaded >= 0
+          ? missingPhotos[downloaded]
+          : (await downloadChallengePhotos(supabase, [latest.image_path]))[0]
+
+      result = await provider.analyze({ ...context, photo, previousPhoto, metrics })
+    }
+  } catch (error) {
+    // A model outage shouldn't leave the photo without feedback
+    console.error(`Analysis provider ${provider.name} failed, using local feedback:`, error)
+    result = buildLocalFeedback(context)
+    providerName = 'local'
+  }
+
+  const { error: analysisError } = await supabase
+    .from('ai_analysis')
+    .upsert({
+      entry_id: entry.id,
+      analysis_type: ANALYSIS_TYPE,
+      confidence_score: result.confidence,
+      detected_changes: { provider: providerName, metrics, comparison },
+      sentiment_analysis: { sentiment: result.sentiment, feedback: result.feedback },
+      improvement_suggestions: result.suggestions
+    }, { onConflict: 'entry_id,analysis_type' })
+
+  if (analysisError) throw analysisError
+
+  const { error: updateError } = await supabase
+    .from('challenge_entries')
+    .update({ ai_feedback: result.feedback, ai_sentiment: result.sentiment })
+    .eq('id', entry.id)
+
+  if (updateError) throw updateError
+
+  console.log(`Photo ${entry.id} analysed with ${providerName}`)
+
+  return {
+    entryId: entry.id,
+    provider: providerName,
+    feedback: result.feedback,
+    sentiment: result.sentiment,
+    confidence: result.confidence
+  }
+}
+
+async function loadStoredMetrics(supabase: SupabaseClient, entryIds: string[]): Promise<Record<string, PhotoMetrics>> {
+  if (entryIds.length === 0) return {}
+
+  const { data, error } = await supabase
+    .from('ai_analysis')
+    .select('entry_id, detected_changes')
+    .eq('analysis_type', ANALYSIS_TYPE)
+    .in('entry_id', entryIds)
+
+  if (error) throw error
+
+  const metrics: Record<string, PhotoMetrics> = {}
+  for (const row of (data || []) as StoredAnalysis[]) {
+    if (row.detected_changes?.metrics) {
+      metrics[row.entry_id] = row.detected_changes.metrics
+    }
+  }
+  return metrics
+}
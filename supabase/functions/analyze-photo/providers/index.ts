@@ -0,0 +1,24 @@
+// supabase/functions/analyze-photo/providers/index.ts
+//
+// Picks the feedback backend from ANALYSIS_PROVIDER ('local' or 'openai').
+// Defaults to 'local', which needs no secrets.
+
+import { AnalysisProvider } from './types.ts'
+import { optionalEnv } from '../../_shared/env.ts'
+import { createLocalProvider } from './local.ts'
+import { createOpenAIProvider } from './openai.ts'
+
+export type { AnalysisProvider, AnalysisRequest } from './types.ts'
+
+const providers: Record<string, () => AnalysisProvider> = {
+  local: createLocalProvider,
+  openai: createOpenAIProvider
+}
+
+export function getAnalysisProvider(name = optionalEnv('ANALYSIS_PROVIDER', 'local')): AnalysisProvider {
+  const factory = providers[name]
+  if (!factory) {
+    throw new Error(`Unknown analysis provider: ${name}. Expected one of ${Object.keys(providers).join(', ')}`)
+  }
+  return factory()
+}
@@ -0,0 +1,16 @@
+// supabase/functions/analyze-photo/providers/local.ts
+//
+// Feedback from the measured metrics alone. Needs no secrets or network.
+
+import { AnalysisProvider } from './types.ts'
+import { buildLocalFeedback } from '../feedback.ts'
+
+export function createLocalProvider(): AnalysisProvider {
+  return {
+    name: 'local',
+
+    analyze({ dayNumber, targetArea, comparison }) {
+      return Promise.resolve(buildLocalFeedback({ dayNumber, targetArea, comparison }))
+    }
+  }
+}
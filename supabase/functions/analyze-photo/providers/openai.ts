@@ -0,0 +1,99 @@
+// supabase/functions/analyze-photo/providers/openai.ts
+//
+// Asks a vision model to describe the change between the new photo and the
+// previous day, grounded by the locally measured metrics.
+
+import { encode as encodeBase64 } from 'https://deno.land/std@0.168.0/encoding/base64.ts'
+import { Image } from 'https://deno.land/x/imagescript@1.2.15/mod.ts'
+import { AnalysisProvider } from './types.ts'
+import { PhotoFeedback, FeedbackSentiment, estimateConfidence } from '../feedback.ts'
+import { requireEnv, optionalEnv } from '../../_shared/env.ts'
+
+const DEFAULT_MODEL = 'gpt-4o-mini'
+const UPLOAD_WIDTH = 512 // Photos are downscaled before they leave the function
+
+const SENTIMENTS: FeedbackSentiment[] = ['proud', 'encouraging', 'hopeful', 'supportive']
+
+const SYSTEM_PROMPT = `You help people who track a skin condition with daily progress photos.
+Compare today's photo with the previous one. Describe visible changes plainly and kindly.
+Never diagnose, name conditions or give medical advice. If the photos are hard to compare, say so.
+Reply with JSON: {"feedback": string (max 2 sentences), "sentiment": one of ${SENTIMENTS.join(', ')}, "suggestions": string[] (max 3, about taking consistent photos or noting what changed)}`
+
+export function createOpenAIProvider(): AnalysisProvider {
+  const { OPENAI_API_KEY: apiKey } = requireEnv('OPENAI_API_KEY')
+  const model = optionalEnv('OPENAI_ANALYSIS_MODEL', DEFAULT_MODEL)
+
+  return {
+    name: `openai:${model}`,
+
+    async analyze({ dayNumber, targetArea, photo, previousPhoto, metrics, comparison }) {
+      console.log('Calling OpenAI Chat Completions API...')
+
+      const images = [photo, ...(previousPhoto ? [previousPhoto] : [])]
+      const content = [
+        {
+          type: 'text',
+          text: [
+            `Day ${dayNumber} of tracking the ${targetArea || 'same area'}.`,
+            previousPhoto ? 'The first image is today, the second is the previous day.' : 'This is the first photo.',
+            `Measured metrics: ${JSON.stringify({ metrics, comparison })}`
+          ].join('\n')
+        },
+        ...(await Promise.all(images.map(async (bytes) => ({
+          type: 'image_url',
+          image_url: { url: `data:image/jpeg;base64,${encodeBase64(await downscale(bytes))}` }
+        }))))
+      ]
+
+      const response = await fetch('https://api.openai.com/v1/chat/completions', {
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        method: 'POST',
+        body: JSON.stringify({
+          model,
+          response_format: { type: 'json_object' },
+          messages: [
+            { role: 'system', content: SYSTEM_PROMPT },
+            { role: 'user', content }
+          ]
+        }),
+      })
+
+      console.log('OpenAI response status:', response.status)
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        console.error('OpenAI API error:', errorText)
+        throw new Error(`OpenAI API error: ${response.status} - ${errorText}`)
+      }
+
+      const { choices } = await response.json()
+      const parsed = JSON.parse(choices?.[0]?.message?.content || '{}') as Partial<PhotoFeedback>
+
+      if (!parsed.feedback) {
+        throw new Error('OpenAI API returned no feedback')
+      }
+
+      return {
+        feedback: parsed.feedback,
+        sentiment: SENTIMENTS.includes(parsed.sentiment as FeedbackSentiment) ? parsed.sentiment as FeedbackSentiment : 'encouraging',
+        suggestions: Array.isArray(parsed.suggestions) ? parsed.suggestions.slice(0, 3).map(String) : [],
+        // The model's reading is only as reliable as the photos it compared
+        confidence: comparison ? estimateConfidence(comparison) : 1
+      }
+    }
+  }
+}
+
+async function downscale(bytes: Uint8Array): Promise<Uint8Array> {
+  const decoded = await Image.decode(bytes)
+  if (!(decoded instanceof Image)) {
+    throw new Error('Animated images are not supported for analysis')
+  }
+  if (decoded.width > UPLOAD_WIDTH) {
+    decoded.resize(UPLOAD_WIDTH, Image.RESIZE_AUTO)
+  }
+  return await decoded.encodeJPEG(80)
+}
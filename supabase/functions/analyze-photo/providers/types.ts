@@ -0,0 +1,18 @@
+// supabase/functions/analyze-photo/providers/types.ts
+
+import { PhotoMetrics, PhotoComparison } from '../metrics.ts'
+import { PhotoFeedback } from '../feedback.ts'
+
+export interface AnalysisRequest {
+  dayNumber: number
+  targetArea: string | null
+  photo: Uint8Array
+  previousPhoto?: Uint8Array // The most recent earlier day, if any
+  metrics: PhotoMetrics
+  comparison: PhotoComparison | null
+}
+
+export interface AnalysisProvider {
+  name: string
+  analyze(request: AnalysisRequest): Promise<PhotoFeedback>
+}
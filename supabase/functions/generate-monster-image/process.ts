@@ -0,0 +1,108 @@
+// supabase/functions/generate-monster-image/process.ts
+//
+// Job handler for 'generate_monster_image', run by the process-jobs worker.
+
+import { SupabaseClient } from '../_shared/supabase.ts'
+import { Image } from 'https://deno.land/x/imagescript@1.2.15/mod.ts'
+import { getImageProvider, GeneratedImage } from './providers/index.ts'
+import { buildMonsterPrompt } from './prompt-builder.ts'
+
+export interface MonsterImageJobPayload {
+  userId: string
+  keywords: string[]
+  keywordsByCategory?: Record<string, string>
+  style?: string
+  seed?: number // Reuse a stored seed to recreate a monster; omit for a new one
+}
+
+interface StoredImage {
+  path: string
+  url: string
+  width: number
+  height: number
+}
+
+// Sizes stored for every monster; the original is kept as returned by the provider
+const IMAGE_SIZES = {
+  medium: 512,
+  thumbnail: 128
+}
+
+export async function generateMonsterImage(supabase: SupabaseClient, job: MonsterImageJobPayload) {
+  const provider = getImageProvider()
+
+  const { prompt, negativePrompt, style, seed } = buildMonsterPrompt(job)
+  console.log('Generated prompt:', { prompt, style, seed })
+
+  console.log(`Generating image with ${provider.name}...`)
+  const generated = await provider.generate({ prompt, negativePrompt, keywords: job.keywords, seed })
+
+  console.log('Image generated successfully, uploading to storage...')
+
+  // Each generation gets its own folder so earlier versions stay intact
+  const versionId = crypto.randomUUID()
+  const images = await uploadMonsterImages(supabase, `${job.userId}/${versionId}`, generated)
+
+  const { data: version, error } = await supabase.rpc('add_monster_image_version', {
+    p_version_id: versionId,
+    p_user_id: job.userId,
+    p_prompt: prompt,
+    p_keywords: job.keywords,
+    p_images: images,
+    p_style: style,
+    p_seed: seed,
+    p_negative_prompt: negativePrompt
+  })
+
+  if (error) {
+    console.error('Error recording monster image version:', error)
+    throw new Error('Failed to save image to profile')
+  }
+
+  console.log('Monster image generated and saved successfully:', version)
+
+  return { prompt, style, seed, provider: provider.name, versionId, version: version?.version, imageUrl: images.medium.url }
+}
+
+async function uploadMonsterImages(
+  supabase: SupabaseClient,
+  folder: string,
+  generated: GeneratedImage
+): Promise<Record<'original' | keyof typeof IMAGE_SIZES, StoredImage>> {
+  const upload = async (name: string, bytes: Uint8Array, contentType: string, width: number, height: number) => {
+    const path = `${folder}/${name}`
+    const { error } = await supabase.storage
+      .from('monster-images')
+      .upload(path, bytes, { contentType, upsert: true })
+
+    if (error) throw error
+
+    const { data: { publicUrl } } = supabase.storage
+      .from('monster-images')
+      .getPublicUrl(path)
+
+    return { path, url: publicUrl, width, height }
+  }
+
+  // Vector output scales to every size, so a single file serves them all
+  if (generated.contentType === 'image/svg+xml') {
+    const svg = await upload('original.svg', generated.bytes, generated.contentType, 512, 512)
+    return { original: svg, medium: svg, thumbnail: svg }
+  }
+
+  const decoded = await Image.decode(generated.bytes)
+  if (!(decoded instanceof Image)) {
+    throw new Error('Unexpected animated image from the image provider')
+  }
+
+  const extension = generated.contentType.includes('jpeg') ? 'jpg' : 'png'
+  const originalImage = await upload(`original.${extension}`, generated.bytes, generated.contentType, decoded.width, decoded.height)
+
+  const medium = decoded.clone().resize(IMAGE_SIZES.medium, Image.RESIZE_AUTO)
+  const mediumImage = await upload('medium.webp', await medium.encodeWEBP(85), 'image/webp', medium.width, medium.height)
+
+  const thumbnail = decoded.clone().cover(IMAGE_SIZES.thumbnail, IMAGE_SIZES.thumbnail)
+  const thumbnailImage = await upload('thumbnail.webp', await thumbnail.encodeWEBP(80), 'image/webp', thumbnail.width, thumbnail.height)
+
+  return { original: originalImage, medium: mediumImage, thumbnail: thumbnailImage }
+}
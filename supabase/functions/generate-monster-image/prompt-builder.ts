@@ -0,0 +1,123 @@
+// supabase/functions/generate-monster-image/prompt-builder.ts
+//
+// Builds the image prompt for a monster. Every random choice comes from the
+// seed, so the same keywords, style and seed always give the same prompt; a new
+// seed gives a variation. Style ids mirror src/data/monsterStyles.ts.
+
+import { mulberry32, randomSeed } from './random.ts'
+
+export interface StylePreset {
+  name: string
+  style: string
+  elements: string[]
+  negative: string[]
+}
+
+export const STYLE_PRESETS: Record<string, StylePreset> = {
+  'gothic-whimsy': {
+    name: 'Gothic Whimsy',
+    style: 'in a Tim Burton-esque dark fantasy style',
+    elements: [
+      'intricate fiber-like textures woven throughout its form',
+      'mysterious glowing eyes that reflect deep wisdom',
+      'spindly limbs and a lopsided, endearing grin'
+    ],
+    negative: ['gore', 'horror', 'photorealistic']
+  },
+  'victorian-romance': {
+    name: 'Victorian Romance',
+    style: 'in a romantic Victorian gothic aesthetic',
+    elements: [
+      'lace-like filaments trailing from its shoulders',
+      'a locket-shaped heart glowing softly in its chest',
+      'elegant tendrils and flowing organic shapes'
+    ],
+    negative: ['modern clothing', 'neon colors', 'gore']
+  },
+  'dreamlike-surreal': {
+    name: 'Dreamlike Surreal',
+    style: 'with surreal and dreamlike qualities, soft pastel watercolor',
+    elements: [
+      'a body that dissolves into drifting threads of light',
+      'floating fragments orbiting its head',
+      'eyes like small glowing moons'
+    ],
+    negative: ['harsh shadows', 'gore', 'text']
+  },
+  'storybook-friendly': {
+    name: 'Storybook Friendly',
+    style: "as a friendly creature from a children's picture book, gentle ink and gouache",
+    elements: [
+      'round, huggable proportions',
+      'a fuzzy coat of soft, curling fibers',
+      'a mix of vulnerability and strength in its expression'
+    ],
+    negative: ['scary', 'sharp teeth', 'gore', 'dark palette']
+  },
+  'bioluminescent': {
+    name: 'Bioluminescent Deep',
+    style: 'as a bioluminescent deep-sea creature, glowing against a dark background',
+    elements: [
+      'glowing fiber filaments pulsing with light',
+      'translucent skin revealing gentle inner light',
+      'long drifting tendrils like a jellyfish'
+    ],
+    negative: ['daylight', 'gore', 'blurry']
+  }
+}
+
+export const DEFAULT_STYLE = 'gothic-whimsy'
+
+// How each Monster Creator pillar is woven into the description
+const CATEGORY_PHRASES: Record<string, (keyword: string) => string> = {
+  "My Journey's Mark": keyword => `bearing the visible marks of ${keyword.toLowerCase()}`,
+  "My Shield & Strategy": keyword => `armored with ${keyword.toLowerCase()}`,
+  "My Hidden Superpower": keyword => `secretly radiating the power of ${keyword.toLowerCase()}`,
+  "My World of Wonders": keyword => `surrounded by little symbols of ${keyword.toLowerCase()}`,
+  "My Quirks & Comforts": keyword => `with a charming quirk: ${keyword.toLowerCase()}`
+}
+
+const BASE_NEGATIVE = ['low quality', 'deformed', 'watermark', 'text', 'signature']
+
+export interface PromptInput {
+  keywords: string[]
+  keywordsByCategory?: Record<string, string>
+  style?: string
+  seed?: number
+}
+
+export interface BuiltPrompt {
+  prompt: string
+  negativePrompt: string
+  style: string
+  seed: number
+}
+
+export function buildMonsterPrompt(input: PromptInput): BuiltPrompt {
+  const style = input.style && STYLE_PRESETS[input.style] ? input.style : DEFAULT_STYLE
+  const preset = STYLE_PRESETS[style]
+  const seed = input.seed ?? randomSeed()
+  const random = mulberry32(seed)
+
+  const traits = describeKeywords(input)
+  const element = preset.elements[Math.floor(random() * preset.elements.length)]
+
+  const prompt = `Create a whimsical, artistic monster character ${traits}. Design it ${preset.style}, featuring ${element}. The monster should be endearing yet mysterious, representing the complex journey of someone with unique experiences. High quality digital art, detailed, atmospheric lighting.`
+  const negativePrompt = [...BASE_NEGATIVE, ...preset.negative].join(', ')
+
+  return { prompt, negativePrompt, style, seed }
+}
+
+function describeKeywords({ keywords, keywordsByCategory }: PromptInput): string {
+  // Walk the pillars in a fixed order so the prompt doesn't depend on the
+  // order the user picked their keywords in
+  const phrases = Object.entries(CATEGORY_PHRASES)
+    .filter(([category]) => keywordsByCategory?.[category])
+    .map(([category, phrase]) => phrase(keywordsByCategory[category]))
+
+  if (phrases.length > 0) {
+    return phrases.join(', ')
+  }
+
+  return `that embodies these qualities: ${keywords.join(', ')}`
+}
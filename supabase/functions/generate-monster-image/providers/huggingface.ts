@@ -0,0 +1,50 @@
+// supabase/functions/generate-monster-image/providers/huggingface.ts
+
+import { ImageProvider } from './types.ts'
+import { requireEnv, optionalEnv } from '../../_shared/env.ts'
+
+const DEFAULT_MODEL = 'black-forest-labs/FLUX.1-schnell'
+
+export function createHuggingFaceProvider(): ImageProvider {
+  const { HUGGING_FACE_ACCESS_TOKEN: token } = requireEnv('HUGGING_FACE_ACCESS_TOKEN')
+  const model = optionalEnv('HUGGING_FACE_IMAGE_MODEL', DEFAULT_MODEL)
+
+  return {
+    name: `huggingface:${model}`,
+
+    async generate({ prompt, negativePrompt, seed }) {
+      console.log('Calling Hugging Face API...')
+
+      const response = await fetch(
+        `https://api-inference.huggingface.co/models/${model}`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            "Content-Type": "application/json",
+          },
+          method: "POST",
+          body: JSON.stringify({
+            inputs: prompt,
+            parameters: {
+              ...(seed !== undefined && { seed }),
+              ...(negativePrompt && { negative_prompt: negativePrompt }),
+            },
+          }),
+        }
+      )
+
+      console.log('Hugging Face response status:', response.status)
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        console.error('Hugging Face API error:', errorText)
+        throw new Error(`Hugging Face API error: ${response.status} - ${errorText}`)
+      }
+
+      return {
+        bytes: new Uint8Array(await response.arrayBuffer()),
+        contentType: response.headers.get('content-type') || 'image/png'
+      }
+    }
+  }
+}
@@ -0,0 +1,26 @@
+// supabase/functions/generate-monster-image/providers/index.ts
+//
+// Picks the image backend from IMAGE_PROVIDER ('huggingface', 'openai' or
+// 'local-svg'). Defaults to Hugging Face to match the original behaviour.
+
+import { ImageProvider } from './types.ts'
+import { optionalEnv } from '../../_shared/env.ts'
+import { createHuggingFaceProvider } from './huggingface.ts'
+import { createOpenAIProvider } from './openai.ts'
+import { createLocalSvgProvider } from './local-svg.ts'
+
+export type { ImageProvider, ImageRequest, GeneratedImage } from './types.ts'
+
+const providers: Record<string, () => ImageProvider> = {
+  huggingface: createHuggingFaceProvider,
+  openai: createOpenAIProvider,
+  'local-svg': createLocalSvgProvider
+}
+
+export function getImageProvider(name = optionalEnv('IMAGE_PROVIDER', 'huggingface')): ImageProvider {
+  const factory = providers[name]
+  if (!factory) {
+    throw new Error(`Unknown image provider: ${name}. Expected one of ${Object.keys(providers).join(', ')}`)
+  }
+  return factory()
+}
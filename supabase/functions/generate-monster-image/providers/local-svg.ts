@@ -0,0 +1,117 @@
+// supabase/functions/generate-monster-image/providers/local-svg.ts
+//
+// Offline provider that draws a procedural monster as SVG. The same keywords
+// (or seed) always produce the same image, so it is safe for development and
+// tests without network access or API keys.
+
+import { ImageProvider } from './types.ts'
+import { hashString, mulberry32 } from '../random.ts'
+
+const SIZE = 512
+
+const PALETTES = [
+  ['#2d1b3d', '#7b4b94', '#f2a7c3', '#fde2e4'],
+  ['#1b263b', '#415a77', '#a3c4bc', '#e0fbfc'],
+  ['#3d1f1f', '#8c3b4a', '#f4a261', '#fff1e6'],
+  ['#1f2d24', '#4f772d', '#c9e4ca', '#fefae0'],
+  ['#240046', '#5a189a', '#c77dff', '#f3e8ff']
+]
+
+export function createLocalSvgProvider(): ImageProvider {
+  return {
+    name: 'local-svg',
+
+    generate({ keywords, seed }) {
+      const svg = drawMonster(seed ?? hashString(keywords.join('|')))
+      return Promise.resolve({
+        bytes: new TextEncoder().encode(svg),
+        contentType: 'image/svg+xml'
+      })
+    }
+  }
+}
+
+export function drawMonster(seed: number): string {
+  const random = mulberry32(seed)
+  const [background, body, accent, eye] = PALETTES[Math.floor(random() * PALETTES.length)]
+  const center = SIZE / 2
+  const radius = SIZE * (0.24 + random() * 0.08)
+
+  // Wobbly body outline
+  const points = 10 + Math.floor(random() * 6)
+  const outline = Array.from({ length: points }, (_, i) => {
+    const angle = (i / points) * Math.PI * 2
+    const r = radius * (0.8 + random() * 0.35)
+    return [center + Math.cos(angle) * r, center + Math.sin(angle) * r]
+  })
+  const bodyPath = smoothPath(outline)
+
+  // Fibres woven through the body
+  const fibres = Array.from({ length: 6 + Math.floor(random() * 8) }, () => {
+    const [x1, y1] = outline[Math.floor(random() * points)]
+    const [x2, y2] = outline[Math.floor(random() * points)]
+    const cx = center + (random() - 0.5) * radius
+    const cy = center + (random() - 0.5) * radius
+    return `<path d="M${fmt(x1)} ${fmt(y1)} Q${fmt(cx)} ${fmt(cy)} ${fmt(x2)} ${fmt(y2)}" stroke="${accent}" stroke-width="${fmt(1 + random() * 2)}" fill="none" opacity="0.6"/>`
+  })
+
+  // Tendrils reaching out from the lower half
+  const tendrils = Array.from({ length: 3 + Math.floor(random() * 4) }, () => {
+    const angle = Math.PI * (0.15 + random() * 0.7)
+    const startX = center + Math.cos(angle) * radius * 0.9
+    const startY = center + Math.sin(angle) * radius * 0.9
+    const length = radius * (0.5 + random() * 0.6)
+    const endX = startX + Math.cos(angle) * length
+    const endY = startY + Math.sin(angle) * length
+    const bend = (random() - 0.5) * length
+    return `<path d="M${fmt(startX)} ${fmt(startY)} Q${fmt(startX + bend)} ${fmt((startY + endY) / 2)} ${fmt(endX)} ${fmt(endY)}" stroke="${body}" stroke-width="${fmt(6 + random() * 6)}" stroke-linecap="round" fill="none"/>`
+  })
+
+  // One to three glowing eyes
+  const eyeCount = 1 + Math.floor(random() * 3)
+  const eyeSize = radius * (0.14 + random() * 0.08)
+  const eyes = Array.from({ length: eyeCount }, (_, i) => {
+    const x = center + (i - (eyeCount - 1) / 2) * eyeSize * 2.6
+    const y = center - radius * 0.2
+    return `<circle cx="${fmt(x)}" cy="${fmt(y)}" r="${fmt(eyeSize)}" fill="${eye}"/>` +
+      `<circle cx="${fmt(x)}" cy="${fmt(y + eyeSize * 0.15)}" r="${fmt(eyeSize * 0.45)}" fill="${background}"/>`
+  })
+
+  const smile = random() > 0.3
+  const mouthY = center + radius * 0.3
+  const mouth = `<path d="M${fmt(center - radius * 0.3)} ${fmt(mouthY)} Q${fmt(center)} ${fmt(mouthY + (smile ? 1 : -1) * radius * 0.2)} ${fmt(center + radius * 0.3)} ${fmt(mouthY)}" stroke="${background}" stroke-width="5" stroke-linecap="round" fill="none"/>`
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${SIZE}" height="${SIZE}" viewBox="0 0 ${SIZE} ${SIZE}">`,
+    `<defs><radialGradient id="glow"><stop offset="0%" stop-color="${accent}" stop-opacity="0.5"/><stop offset="100%" stop-color="${background}" stop-opacity="0"/></radialGradient></defs>`,
+    `<rect width="${SIZE}" height="${SIZE}" fill="${background}"/>`,
+    `<circle cx="${center}" cy="${center}" r="${fmt(radius * 1.8)}" fill="url(#glow)"/>`,
+    ...tendrils,
+    `<path d="${bodyPath}" fill="${body}"/>`,
+    ...fibres,
+    ...eyes,
+    mouth,
+    '</svg>'
+  ].join('')
+}
+
+// Closed Catmull-Rom style curve through the outline points
+function smoothPath(points: number[][]): string {
+  const n = points.length
+  const segments = points.map((_, i) => {
+    const [x0, y0] = points[(i - 1 + n) % n]
+    const [x1, y1] = points[i]
+    const [x2, y2] = points[(i + 1) % n]
+    const [x3, y3] = points[(i + 2) % n]
+    const c1x = x1 + (x2 - x0) / 6
+    const c1y = y1 + (y2 - y0) / 6
+    const c2x = x2 - (x3 - x1) / 6
+    const c2y = y2 - (y3 - y1) / 6
+    return `C${fmt(c1x)} ${fmt(c1y)} ${fmt(c2x)} ${fmt(c2y)} ${fmt(x2)} ${fmt(y2)}`
+  })
+  return `M${fmt(points[0][0])} ${fmt(points[0][1])} ${segments.join(' ')} Z`
+}
+
+function fmt(value: number): string {
+  return value.toFixed(1)
+}
@@ -0,0 +1,52 @@
+// supabase/functions/generate-monster-image/providers/openai.ts
+
+import { ImageProvider } from './types.ts'
+import { requireEnv, optionalEnv } from '../../_shared/env.ts'
+
+const DEFAULT_MODEL = 'gpt-image-1'
+
+export function createOpenAIProvider(): ImageProvider {
+  const { OPENAI_API_KEY: apiKey } = requireEnv('OPENAI_API_KEY')
+  const model = optionalEnv('OPENAI_IMAGE_MODEL', DEFAULT_MODEL)
+
+  return {
+    name: `openai:${model}`,
+
+    async generate({ prompt }) {
+      console.log('Calling OpenAI Images API...')
+
+      const response = await fetch('https://api.openai.com/v1/images/generations', {
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        method: 'POST',
+        body: JSON.stringify({
+          model,
+          prompt,
+          size: '1024x1024',
+          n: 1,
+        }),
+      })
+
+      console.log('OpenAI response status:', response.status)
+
+      if (!response.ok) {
+        const errorText = await response.text()
+        console.error('OpenAI API error:', errorText)
+        throw new Error(`OpenAI API error: ${response.status} - ${errorText}`)
+      }
+
+      const { data } = await response.json()
+      const base64 = data?.[0]?.b64_json
+      if (!base64) {
+        throw new Error('OpenAI API returned no image data')
+      }
+
+      return {
+        bytes: Uint8Array.from(atob(base64), char => char.charCodeAt(0)),
+        contentType: 'image/png'
+      }
+    }
+  }
+}
@@ -0,0 +1,18 @@
+// supabase/functions/generate-monster-image/providers/types.ts
+
+export interface ImageRequest {
+  prompt: string
+  negativePrompt?: string
+  keywords: string[]
+  seed?: number
+}
+
+export interface GeneratedImage {
+  bytes: Uint8Array
+  contentType: string // 'image/png', 'image/jpeg' or 'image/svg+xml'
+}
+
+export interface ImageProvider {
+  name: string
+  generate(request: ImageRequest): Promise<GeneratedImage>
+}
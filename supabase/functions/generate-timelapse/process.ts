@@ -0,0 +1,96 @@
+// supabase/functions/generate-timelapse/process.ts
+//
+// Job handler for 'generate_timelapse', run by the process-jobs worker.
+
+import { SupabaseClient } from '../_shared/supabase.ts'
+import { renderTimelapse, pickEvenly, MAX_TIMELAPSE_PHOTOS, TimelapseEncoder } from './renderer.ts'
+import { optionalEnv } from '../_shared/env.ts'
+import { downloadChallengePhotos } from '../_shared/photos.ts'
+
+export interface TimelapseJobPayload {
+  timelapseId: string
+  challengeId: string
+  userId: string
+}
+
+// Download, render and upload a time-lapse, then record the outcome
+export async function processTimelapse(supabase: SupabaseClient, job: TimelapseJobPayload) {
+  // Load the photos ourselves so they are rendered in capture order
+  const { data: entries, error: entriesError } = await supabase
+    .from('challenge_entries')
+    .select('image_path, day_number, taken_at')
+    .eq('challenge_id', job.challengeId)
+    .eq('user_id', job.userId)
+    .eq('exclude_from_timelapse', false)
+    .order('day_number', { ascending: true })
+    .order('taken_at', { ascending: true })
+
+  if (entriesError) throw entriesError
+
+  // Long challenges are sampled before downloading; the renderer can't use more
+  const selected = pickEvenly(entries, MAX_TIMELAPSE_PHOTOS)
+  const photos = await downloadChallengePhotos(supabase, selected.map(entry => entry.image_path))
+
+  const rendered = await renderTimelapse(photos, {
+    encoder: optionalEnv('TIMELAPSE_ENCODER', 'auto') as TimelapseEncoder
+  })
+
+  const basePath = `${job.userId}/${job.challengeId}/${job.timelapseId}`
+  const videoPath = `${basePath}.${rendered.extension}`
+  const thumbnailPath = `${basePath}-thumb.jpg`
+
+  const { error: videoError } = await supabase.storage
+    .from('timelapse-videos')
+    .upload(videoPath, rendered.data, { contentType: rendered.contentType, upsert: true })
+
+  if (videoError) throw videoError
+
+  const { error: thumbnailError } = await supabase.storage
+    .from('timelapse-videos')
+    .upload(thumbnailPath, rendered.thumbnail, { contentType: 'image/jpeg', upsert: true })
+
+  if (thumbnailError) throw thumbnailError
+
+  // Paths are relative to the private timelapse-videos bucket
+  const durationSeconds = Math.max(1, Math.round(rendered.durationMs / 1000))
+  const { data: updated, error: updateError } = await supabase
+    .from('timelapse_videos')
+    .update({
+      video_url: videoPath,
+      thumbnail_url: thumbnailPath,
+      duration_seconds: durationSeconds,
+      photo_count: entries.length,
+      processing_status: 'completed',
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', job.timelapseId)
+    .select('id')
+
+  if (updateError) throw updateError
+  // The record is inserted right after the job is enqueued; retry if we got here first
+  if (!updated?.length) throw new Error(`Time-lapse record ${job.timelapseId} not found`)
+
+  console.log('Time-lapse processing completed:', videoPath)
+
+  return {
+    timelapseId: job.timelapseId,
+    videoPath,
+    thumbnailPath,
+    durationSeconds
+  }
+}
+
+// Called once the worker has given up retrying
+export async function markTimelapseFailed(supabase: SupabaseClient, job: TimelapseJobPayload) {
+  const { error } = await supabase
+    .from('timelapse_videos')
+    .update({
+      processing_status: 'failed',
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', job.timelapseId)
+
+  if (error) {
+    console.error('Error marking time-lapse as failed:', error)
+  }
+}
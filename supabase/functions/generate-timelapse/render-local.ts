@@ -0,0 +1,36 @@
+// supabase/functions/generate-timelapse/render-local.ts
+//
+// Renders a time-lapse from a folder of photos without Supabase, e.g.
+//
+//   deno run --allow-read --allow-write --allow-run --allow-env \
+//     supabase/functions/generate-timelapse/render-local.ts ./photos ./out/timelapse [ffmpeg|webp]
+//
+// Photos are used in file name order. Writes <output>.<mp4|webp> and <output>-thumb.jpg.
+
+import { renderTimelapse, pickEvenly, MAX_TIMELAPSE_PHOTOS, TimelapseEncoder } from './renderer.ts'
+
+const [inputDir, outputBase = 'timelapse', encoder = 'auto'] = Deno.args
+
+if (!inputDir) {
+  console.error('Usage: render-local.ts <photo-dir> [output-base] [auto|ffmpeg|webp]')
+  Deno.exit(1)
+}
+
+const fileNames: string[] = []
+for await (const entry of Deno.readDir(inputDir)) {
+  if (entry.isFile && /\.(jpe?g|png)$/i.test(entry.name)) {
+    fileNames.push(entry.name)
+  }
+}
+fileNames.sort()
+
+console.log(`Found ${fileNames.length} photos in ${inputDir}`)
+
+const selected = pickEvenly(fileNames, MAX_TIMELAPSE_PHOTOS)
+const photos = await Promise.all(selected.map(name => Deno.readFile(`${inputDir}/${name}`)))
+const rendered = await renderTimelapse(photos, { encoder: encoder as TimelapseEncoder })
+
+await Deno.writeFile(`${outputBase}.${rendered.extension}`, rendered.data)
+await Deno.writeFile(`${outputBase}-thumb.jpg`, rendered.thumbnail)
+
+console.log(`Wrote ${outputBase}.${rendered.extension}: ${rendered.frameCount} frames from ${rendered.photoCount} photos, ${rendered.durationMs}ms, ${rendered.data.length} bytes`)
@@ -0,0 +1,321 @@
+// supabase/functions/generate-timelapse/renderer.ts
+//
+// Turns an ordered list of photos into a time-lapse. Photos are normalised to a
+// common frame, crossfaded into each other and encoded either as an MP4 (when an
+// ffmpeg binary is available) or as an animated WebP, which needs nothing but
+// WASM and therefore works inside the edge runtime. Frames are encoded one at a
+// time and long challenges are sampled down, so memory stays bounded.
+//
+// Nothing in here talks to Supabase, so it can be exercised locally with
+// render-local.ts.
+
+import { Image } from 'https://deno.land/x/imagescript@1.2.15/mod.ts'
+
+export type TimelapseEncoder = 'auto' | 'ffmpeg' | 'webp'
+
+export interface RenderOptions {
+  width: number
+  height: number
+  holdMs: number // How long each photo stays on screen
+  fadeMs: number // Length of the crossfade between two photos
+  fadeSteps: number // Intermediate frames per crossfade
+  encoder: TimelapseEncoder
+}
+
+export interface RenderedTimelapse {
+  data: Uint8Array
+  contentType: string
+  extension: string
+  durationMs: number
+  frameCount: number
+  photoCount: number
+  thumbnail: Uint8Array // JPEG of the final photo
+}
+
+// Frames are encoded as soon as they are produced, so only the current photo,
+// the next one and a blend buffer are ever decoded at the same time
+interface FrameSink {
+  add(image: Image, durationMs: number): Promise<void>
+  finish(): Promise<Uint8Array>
+  close(): Promise<void>
+}
+
+export const DEFAULT_RENDER_OPTIONS: RenderOptions = {
+  width: 720,
+  height: 960,
+  holdMs: 600,
+  fadeMs: 400,
+  fadeSteps: 4,
+  encoder: 'auto'
+}
+
+// Limits that keep a render within the edge runtime's memory and time budget
+export const MAX_TIMELAPSE_PHOTOS = 90
+const MAX_FRAMES = 360
+const MAX_FRAME_DIMENSION = 1080
+
+// Keep the first and last item and spread the rest evenly
+export function pickEvenly<T>(items: T[], max: number): T[] {
+  if (items.length <= max) return items
+  if (max <= 1) return items.slice(-1)
+
+  const picked: T[] = []
+  for (let i = 0; i < max; i++) {
+    picked.push(items[Math.round(i * (items.length - 1) / (max - 1))])
+  }
+  return picked
+}
+
+export async function renderTimelapse(
+  allPhotos: Uint8Array[],
+  overrides: Partial<RenderOptions> = {}
+): Promise<RenderedTimelapse> {
+  const options = limitOptions({ ...DEFAULT_RENDER_OPTIONS, ...overrides })
+  const photos = pickEvenly(allPhotos, MAX_TIMELAPSE_PHOTOS)
+
+  if (photos.length < 2) {
+    throw new Error('At least 2 photos are required to render a time-lapse')
+  }
+
+  // Fewer crossfade steps for long challenges so the frame count stays bounded
+  const fadeSteps = Math.max(0, Math.min(
+    options.fadeSteps,
+    Math.floor((MAX_FRAMES - photos.length) / (photos.length - 1))
+  ))
+  const stepMs = Math.max(1, Math.round(options.fadeMs / Math.max(1, fadeSteps)))
+  const frameCount = photos.length + (photos.length - 1) * fadeSteps
+  const durationMs = photos.length * options.holdMs + (photos.length - 1) * fadeSteps * stepMs
+
+  const encoder = options.encoder === 'auto'
+    ? (await isFfmpegAvailable() ? 'ffmpeg' : 'webp')
+    : options.encoder
+
+  console.log(`Rendering ${frameCount} frames (${durationMs}ms) from ${photos.length} photos with ${encoder} encoder`)
+
+  const sink = encoder === 'ffmpeg' ? await createMp4Sink() : createWebpSink(options)
+
+  try {
+    // Hold each photo, then blend it into the next one
+    const blendBuffer = new Image(options.width, options.height)
+    let current = await alignPhoto(photos[0], options)
+
+    for (let index = 0; index < photos.length; index++) {
+      await sink.add(current, options.holdMs)
+      if (index === photos.length - 1) break
+
+      const next = await alignPhoto(photos[index + 1], options)
+      for (let step = 1; step <= fadeSteps; step++) {
+        blendInto(blendBuffer, current, next, step / (fadeSteps + 1))
+        await sink.add(blendBuffer, stepMs)
+      }
+      current = next
+    }
+
+    const thumbnail = await current.encodeJPEG(80)
+    const data = await sink.finish()
+
+    return {
+      data,
+      contentType: encoder === 'ffmpeg' ? 'video/mp4' : 'image/webp',
+      extension: encoder === 'ffmpeg' ? 'mp4' : 'webp',
+      durationMs,
+      frameCount,
+      photoCount: photos.length,
+      thumbnail
+    }
+  } finally {
+    await sink.close()
+  }
+}
+
+// Scale oversized canvases down, keeping the aspect ratio and even sizes for H.264
+function limitOptions(options: RenderOptions): RenderOptions {
+  const scale = Math.min(1, MAX_FRAME_DIMENSION / Math.max(options.width, options.height))
+  const even = (value: number) => Math.max(2, Math.round(value * scale / 2) * 2)
+
+  return {
+    ...options,
+    width: even(options.width),
+    height: even(options.height),
+    fadeSteps: Math.max(0, Math.floor(options.fadeSteps))
+  }
+}
+
+// Scale and centre-crop every photo onto the same canvas so the subject stays
+// in place between days, regardless of the camera resolution or orientation
+async function alignPhoto(bytes: Uint8Array, options: RenderOptions): Promise<Image> {
+  const decoded = await Image.decode(bytes)
+  if (!(decoded instanceof Image)) {
+    throw new Error('Animated images are not supported as time-lapse input')
+  }
+  return decoded.cover(options.width, options.height)
+}
+
+function blendInto(target: Image, from: Image, to: Image, t: number) {
+  const a = from.bitmap
+  const b = to.bitmap
+  const out = target.bitmap
+
+  for (let i = 0; i < out.length; i += 4) {
+    out[i] = a[i] + (b[i] - a[i]) * t
+    out[i + 1] = a[i + 1] + (b[i + 1] - a[i + 1]) * t
+    out[i + 2] = a[i + 2] + (b[i + 2] - a[i + 2]) * t
+    out[i + 3] = 255
+  }
+}
+
+// --- ffmpeg (MP4) ---
+
+async function isFfmpegAvailable(): Promise<boolean> {
+  try {
+    const { success } = await new Deno.Command('ffmpeg', { args: ['-version'], stdout: 'null', stderr: 'null' }).output()
+    return success
+  } catch {
+    // Subprocesses are not permitted in the hosted edge runtime
+    return false
+  }
+}
+
+// Frames are written to disk as JPEGs as they arrive; ffmpeg encodes them at the end
+async function createMp4Sink(): Promise<FrameSink> {
+  const workDir = await Deno.makeTempDir({ prefix: 'timelapse-' })
+  // The concat demuxer lets every frame keep its own duration
+  const lines: string[] = []
+
+  return {
+    async add(image, durationMs) {
+      const fileName = `frame-${String(lines.length / 2).padStart(5, '0')}.jpg`
+      await Deno.writeFile(`${workDir}/${fileName}`, await image.encodeJPEG(90))
+      lines.push(`file '${fileName}'`, `duration ${(durationMs / 1000).toFixed(3)}`)
+    },
+
+    async finish() {
+      // The last entry has to be repeated or its duration is ignored
+      lines.push(lines[lines.length - 2])
+      await Deno.writeTextFile(`${workDir}/frames.txt`, lines.join('\n'))
+
+      const output = `${workDir}/timelapse.mp4`
+      const { success, stderr } = await new Deno.Command('ffmpeg', {
+        args: [
+          '-y',
+          '-f', 'concat',
+          '-safe', '0',
+          '-i', `${workDir}/frames.txt`,
+          '-vsync', 'vfr',
+          '-c:v', 'libx264',
+          '-pix_fmt', 'yuv420p',
+          '-movflags', '+faststart',
+          output
+        ],
+        stdout: 'null',
+        stderr: 'piped'
+      }).output()
+
+      if (!success) {
+        throw new Error(`ffmpeg failed: ${new TextDecoder().decode(stderr).slice(-500)}`)
+      }
+
+      return await Deno.readFile(output)
+    },
+
+    async close() {
+      await Deno.remove(workDir, { recursive: true })
+    }
+  }
+}
+
+// --- Animated WebP ---
+
+// Every frame is encoded as a still WebP as it arrives and its bitstream is
+// wrapped in an ANMF chunk of an extended (VP8X) WebP container
+function createWebpSink(options: RenderOptions): FrameSink {
+  const chunks: Uint8Array[] = []
+  let hasAlpha = false
+
+  return {
+    async add(image, durationMs) {
+      const still = await image.encodeWEBP(80)
+      const frameChunks = readRiffChunks(still).filter(chunk => chunk.fourCC !== 'VP8X')
+      hasAlpha = hasAlpha || frameChunks.some(chunk => chunk.fourCC === 'ALPH')
+
+      const header = new Uint8Array(16)
+      writeUint24(header, 0, 0) // X offset / 2
+      writeUint24(header, 3, 0) // Y offset / 2
+      writeUint24(header, 6, options.width - 1)
+      writeUint24(header, 9, options.height - 1)
+      writeUint24(header, 12, Math.min(durationMs, 0xffffff))
+      header[15] = 0b10 // Do not blend, frames are opaque and cover the canvas
+
+      chunks.push(riffChunk('ANMF', concatBytes([header, ...frameChunks.map(chunk => chunk.bytes)])))
+    },
+
+    finish() {
+      const vp8x = new Uint8Array(10)
+      vp8x[0] = 0b10 | (hasAlpha ? 0b10000 : 0) // Animation (+ alpha) flags
+      writeUint24(vp8x, 4, options.width - 1)
+      writeUint24(vp8x, 7, options.height - 1)
+
+      const anim = new Uint8Array(6) // Black background, loop forever
+
+      const body = concatBytes([
+        new TextEncoder().encode('WEBP'),
+        riffChunk('VP8X', vp8x),
+        riffChunk('ANIM', anim),
+        ...chunks
+      ])
+
+      return Promise.resolve(riffChunk('RIFF', body))
+    },
+
+    close() {
+      chunks.length = 0
+      return Promise.resolve()
+    }
+  }
+}
+
+interface RiffChunk {
+  fourCC: string
+  bytes: Uint8Array // Complete chunk including header and padding
+}
+
+function readRiffChunks(file: Uint8Array): RiffChunk[] {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength)
+  const chunks: RiffChunk[] = []
+  let offset = 12 // Skip "RIFF" <size> "WEBP"
+
+  while (offset + 8 <= file.length) {
+    const fourCC = new TextDecoder().decode(file.subarray(offset, offset + 4))
+    const size = view.getUint32(offset + 4, true)
+    const end = offset + 8 + size + (size % 2)
+    chunks.push({ fourCC, bytes: file.subarray(offset, end) })
+    offset = end
+  }
+
+  return chunks
+}
+
+function riffChunk(fourCC: string, payload: Uint8Array): Uint8Array {
+  const padded = payload.length % 2
+  const chunk = new Uint8Array(8 + payload.length + padded)
+  chunk.set(new TextEncoder().encode(fourCC), 0)
+  new DataView(chunk.buffer).setUint32(4, payload.length, true)
+  chunk.set(payload, 8)
+  return chunk
+}
+
+function writeUint24(target: Uint8Array, offset: number, value: number) {
+  target[offset] = value & 0xff
+  target[offset + 1] = (value >> 8) & 0xff
+  target[offset + 2] = (value >> 16) & 0xff
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
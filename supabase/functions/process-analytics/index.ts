@@ -1,9 +1,5 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
-
-const corsHeaders = {
-  'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
-};
+import { serveFunction, jsonResponse } from '../_shared/http.ts';
+import { createServiceClient } from '../_shared/supabase.ts';
 
 interface Profile {
   id: string;
@@ -48,185 +44,150 @@ interface CommunityInsight {
   tags: string[];
 }
 
-Deno.serve(async (req) => {
-  // Handle CORS preflight requests
-  if (req.method === 'OPTIONS') {
-    return new Response(null, { headers: corsHeaders });
-  }
-
-  try {
-    const supabase = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    );
-
-    console.log('Starting analytics processing...');
-
-    // Get all consented profiles with their data
-    const { data: profiles, error: profilesError } = await supabase
-      .from('profiles')
-      .select(`
-        id, age_range, sex, height_cm, weight_kg, location_country, location_region,
-        climate_type, occupation_category, education_level, household_income_range,
-        primary_symptoms, secondary_symptoms, trigger_foods, safe_foods,
-        helpful_supplements, helpful_medications, weather_triggers, stress_triggers,
-        symptom_severity, condition_duration, analytics_consent, data_sharing_level
-      `)
-      .eq('analytics_consent', true)
-      .not('data_sharing_level', 'eq', 'none');
+serveFunction('process-analytics', async () => {
+  const supabase = createServiceClient();
 
-    if (profilesError) {
-      console.error('Error fetching profiles:', profilesError);
-      throw profilesError;
-    }
+  console.log('Starting analytics processing...');
 
-    if (!profiles || profiles.length < 10) {
-      console.log('Insufficient data for meaningful analytics (need at least 10 consented users)');
-      return new Response(
-        JSON.stringify({ 
-          message: 'Insufficient data for analytics. Need at least 10 consented participants.',
-          participant_count: profiles?.length || 0 
-        }),
-        { 
-          status: 200, 
-          headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
-        }
-      );
-    }
+  // Get all consented profiles with their data
+  const { data: profiles, error: profilesError } = await supabase
+    .from('profiles')
+    .select(`
+      id, age_range, sex, height_cm, weight_kg, location_country, location_region,
+      climate_type, occupation_category, education_level, household_income_range,
+      primary_symptoms, secondary_symptoms, trigger_foods, safe_foods,
+      helpful_supplements, helpful_medications, weather_triggers, stress_triggers,
+      symptom_severity, condition_duration, analytics_consent, data_sharing_level
+    `)
+    .eq('analytics_consent', true)
+    .not('data_sharing_level', 'eq', 'none');
 
-    console.log(`Processing analytics for ${profiles.length} consented participants`);
+  if (profilesError) {
+    console.error('Error fetching profiles:', profilesError);
+    throw profilesError;
+  }
 
-    const patterns: AnalyticsPattern[] = [];
-    const insights: CommunityInsight[] = [];
+  if (!profiles || profiles.length < 10) {
+    console.log('Insufficient data for meaningful analytics (need at least 10 consented users)');
+    return jsonResponse({
+      message: 'Insufficient data for analytics. Need at least 10 consented participants.',
+      participant_count: profiles?.length || 0
+    });
+  }
 
-    // 1. Demographic-Symptom Correlations
-    const demographicSymptomAnalysis = analyzeDemographicSymptoms(profiles);
-    if (demographicSymptomAnalysis.length > 0) {
-      patterns.push(...demographicSymptomAnalysis);
-      
-      // Create insights from strongest correlations
-      const strongCorrelations = demographicSymptomAnalysis
-        .filter(p => (p.confidence_score || 0) > 0.7)
-        .slice(0, 3);
-      
-      for (const correlation of strongCorrelations) {
-        insights.push({
-          insight_type: 'demographic_correlation',
-          title: `${correlation.pattern_data.demographic_factor} and Symptom Patterns`,
-          description: `Analysis reveals significant patterns between ${correlation.pattern_data.demographic_factor.toLowerCase()} and specific symptoms.`,
-          data_summary: correlation.pattern_data,
-          participant_count: correlation.participant_count,
-          tags: ['demographics', 'symptoms', 'correlation']
-        });
-      }
-    }
+  console.log(`Processing analytics for ${profiles.length} consented participants`);
 
-    // 2. Geographic Climate Analysis
-    const climateAnalysis = analyzeClimatePatterns(profiles);
-    if (climateAnalysis.length > 0) {
-      patterns.push(...climateAnalysis);
-      
-      insights.push({
-        insight_type: 'climate_analysis',
-        title: 'Climate and Symptom Severity Patterns',
-        description: 'Geographic and climate-based analysis reveals environmental factors that may influence symptom severity.',
-        data_summary: climateAnalysis[0]?.pattern_data || {},
-        participant_count: climateAnalysis[0]?.participant_count || 0,
-        tags: ['climate', 'geography', 'environment', 'symptoms']
-      });
-    }
+  const patterns: AnalyticsPattern[] = [];
+  const insights: CommunityInsight[] = [];
 
-    // 3. Treatment Effectiveness Analysis
-    const treatmentAnalysis = analyzeTreatmentEffectiveness(profiles);
-    if (treatmentAnalysis.length > 0) {
-      patterns.push(...treatmentAnalysis);
-      
+  // 1. Demographic-Symptom Correlations
+  const demographicSymptomAnalysis = analyzeDemographicSymptoms(profiles);
+  if (demographicSymptomAnalysis.length > 0) {
+    patterns.push(...demographicSymptomAnalysis);
+    
+    // Create insights from strongest correlations
+    const strongCorrelations = demographicSymptomAnalysis
+      .filter(p => (p.confidence_score || 0) > 0.7)
+      .slice(0, 3);
+    
+    for (const correlation of strongCorrelations) {
       insights.push({
-        insight_type: 'treatment_effectiveness',
-        title: 'Most Effective Treatment Combinations',
-        description: 'Community data reveals which supplements and medications are most commonly reported as helpful.',
-        data_summary: treatmentAnalysis[0]?.pattern_data || {},
-        participant_count: treatmentAnalysis[0]?.participant_count || 0,
-        tags: ['treatments', 'supplements', 'medications', 'effectiveness']
+        insight_type: 'demographic_correlation',
+        title: `${correlation.pattern_data.demographic_factor} and Symptom Patterns`,
+        description: `Analysis reveals significant patterns between ${correlation.pattern_data.demographic_factor.toLowerCase()} and specific symptoms.`,
+        data_summary: correlation.pattern_data,
+        participant_count: correlation.participant_count,
+        tags: ['demographics', 'symptoms', 'correlation']
       });
     }
+  }
 
-    // 4. Trigger Pattern Analysis
-    const triggerAnalysis = analyzeTriggerPatterns(profiles);
-    if (triggerAnalysis.length > 0) {
-      patterns.push(...triggerAnalysis);
-      
-      insights.push({
-        insight_type: 'trigger_patterns',
-        title: 'Common Trigger Combinations',
-        description: 'Identifies the most frequently reported trigger combinations across the community.',
-        data_summary: triggerAnalysis[0]?.pattern_data || {},
-        participant_count: triggerAnalysis[0]?.participant_count || 0,
-        tags: ['triggers', 'patterns', 'foods', 'environment']
-      });
-    }
+  // 2. Geographic Climate Analysis
+  const climateAnalysis = analyzeClimatePatterns(profiles);
+  if (climateAnalysis.length > 0) {
+    patterns.push(...climateAnalysis);
+    
+    insights.push({
+      insight_type: 'climate_analysis',
+      title: 'Climate and Symptom Severity Patterns',
+      description: 'Geographic and climate-based analysis reveals environmental factors that may influence symptom severity.',
+      data_summary: climateAnalysis[0]?.pattern_data || {},
+      participant_count: climateAnalysis[0]?.participant_count || 0,
+      tags: ['climate', 'geography', 'environment', 'symptoms']
+    });
+  }
 
-    // Save patterns to database
-    if (patterns.length > 0) {
-      const { error: patternsError } = await supabase
-        .from('analytics_patterns')
-        .upsert(patterns.map(pattern => ({
-          ...pattern,
-          is_published: true
-        })));
+  // 3. Treatment Effectiveness Analysis
+  const treatmentAnalysis = analyzeTreatmentEffectiveness(profiles);
+  if (treatmentAnalysis.length > 0) {
+    patterns.push(...treatmentAnalysis);
+    
+    insights.push({
+      insight_type: 'treatment_effectiveness',
+      title: 'Most Effective Treatment Combinations',
+      description: 'Community data reveals which supplements and medications are most commonly reported as helpful.',
+      data_summary: treatmentAnalysis[0]?.pattern_data || {},
+      participant_count: treatmentAnalysis[0]?.participant_count || 0,
+      tags: ['treatments', 'supplements', 'medications', 'effectiveness']
+    });
+  }
 
-      if (patternsError) {
-        console.error('Error saving patterns:', patternsError);
-      } else {
-        console.log(`Saved ${patterns.length} analytics patterns`);
-      }
-    }
+  // 4. Trigger Pattern Analysis
+  const triggerAnalysis = analyzeTriggerPatterns(profiles);
+  if (triggerAnalysis.length > 0) {
+    patterns.push(...triggerAnalysis);
+    
+    insights.push({
+      insight_type: 'trigger_patterns',
+      title: 'Common Trigger Combinations',
+      description: 'Identifies the most frequently reported trigger combinations across the community.',
+      data_summary: triggerAnalysis[0]?.pattern_data || {},
+      participant_count: triggerAnalysis[0]?.participant_count || 0,
+      tags: ['triggers', 'patterns', 'foods', 'environment']
+    });
+  }
 
-    // Save insights to database
-    if (insights.length > 0) {
-      const { error: insightsError } = await supabase
-        .from('community_insights')
-        .upsert(insights.map(insight => ({
-          ...insight,
-          date_range_start: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
-          date_range_end: new Date().toISOString().split('T')[0],
-          is_featured: true
-        })));
+  // Save patterns to database
+  if (patterns.length > 0) {
+    const { error: patternsError } = await supabase
+      .from('analytics_patterns')
+      .upsert(patterns.map(pattern => ({
+        ...pattern,
+        is_published: true
+      })));
 
-      if (insightsError) {
-        console.error('Error saving insights:', insightsError);
-      } else {
-        console.log(`Saved ${insights.length} community insights`);
-      }
+    if (patternsError) {
+      console.error('Error saving patterns:', patternsError);
+    } else {
+      console.log(`Saved ${patterns.length} analytics patterns`);
     }
+  }
 
-    return new Response(
-      JSON.stringify({
-        success: true,
-        message: 'Analytics processing completed successfully',
-        patterns_generated: patterns.length,
-        insights_generated: insights.length,
-        participant_count: profiles.length
-      }),
-      {
-        status: 200,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      }
-    );
+  // Save insights to database
+  if (insights.length > 0) {
+    const { error: insightsError } = await supabase
+      .from('community_insights')
+      .upsert(insights.map(insight => ({
+        ...insight,
+        date_range_start: new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+        date_range_end: new Date().toISOString().split('T')[0],
+        is_featured: true
+      })));
 
-  } catch (error) {
-    console.error('Analytics processing error:', error);
-    return new Response(
-      JSON.stringify({ 
-        error: 'Analytics processing failed', 
-        details: error.message 
-      }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      }
-    );
+    if (insightsError) {
+      console.error('Error saving insights:', insightsError);
+    } else {
+      console.log(`Saved ${insights.length} community insights`);
+    }
   }
+
+  return jsonResponse({
+    success: true,
+    message: 'Analytics processing completed successfully',
+    patterns_generated: patterns.length,
+    insights_generated: insights.length,
+    participant_count: profiles.length
+  });
 });
 
 function analyzeDemographicSymptoms(profiles: Profile[]): AnalyticsPattern[] {
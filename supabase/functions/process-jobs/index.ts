@@ -0,0 +1,114 @@
+// supabase/functions/process-jobs/index.ts
+//
+// Worker for the jobs table. Claims a batch of runnable jobs, runs each through
+// its handler and settles it with complete_job / fail_job. It is started right
+// after a job is enqueued and by the 'process-jobs' pg_cron schedule, which
+// picks up retries and jobs orphaned by a crash.
+
+import { serveFunction, jsonResponse } from '../_shared/http.ts'
+import { createServiceClient, SupabaseClient } from '../_shared/supabase.ts'
+import { JobType } from '../_shared/jobs.ts'
+import { requireServiceRole } from '../_shared/auth.ts'
+import { processTimelapse, markTimelapseFailed, TimelapseJobPayload } from '../generate-timelapse/process.ts'
+import { generateMonsterImage, MonsterImageJobPayload } from '../generate-monster-image/process.ts'
+import { analyzePhoto, PhotoAnalysisJobPayload } from '../analyze-photo/process.ts'
+
+const BATCH_SIZE = 5
+
+interface Job {
+  id: string
+  job_type: JobType
+  status: string
+  payload: Record<string, unknown>
+  attempts: number
+  max_attempts: number
+}
+
+interface JobHandler {
+  run: (supabase: SupabaseClient, payload: Record<string, unknown>) => Promise<unknown>
+  onGiveUp?: (supabase: SupabaseClient, payload: Record<string, unknown>) => Promise<void>
+}
+
+const handlers: Record<JobType, JobHandler> = {
+  generate_timelapse: {
+    run: (supabase, payload) => processTimelapse(supabase, payload as unknown as TimelapseJobPayload),
+    onGiveUp: (supabase, payload) => markTimelapseFailed(supabase, payload as unknown as TimelapseJobPayload)
+  },
+  generate_monster_image: {
+    run: (supabase, payload) => generateMonsterImage(supabase, payload as unknown as MonsterImageJobPayload)
+  },
+  analyze_photo: {
+    run: (supabase, payload) => analyzePhoto(supabase, payload as unknown as PhotoAnalysisJobPayload)
+  }
+}
+
+serveFunction('process-jobs', async (req) => {
+  console.log('Job worker started')
+
+  requireServiceRole(req)
+
+  const supabase = createServiceClient()
+
+  const { data: jobs, error: claimError } = await supabase.rpc('claim_jobs', { p_limit: BATCH_SIZE })
+
+  if (claimError) {
+    console.error('Error claiming jobs:', claimError)
+    throw claimError
+  }
+
+  console.log(`Claimed ${jobs?.length || 0} jobs`)
+
+  const results = []
+  for (const job of (jobs || []) as Job[]) {
+    results.push({ id: job.id, status: await runJob(supabase, job) })
+  }
+
+  return jsonResponse({ processed: results.length, jobs: results })
+})
+
+async function runJob(supabase: SupabaseClient, job: Job): Promise<string> {
+  const handler = handlers[job.job_type]
+
+  // claim_jobs gave up on a job that kept timing out the worker
+  if (job.status === 'failed') {
+    console.log(`Job ${job.id} (${job.job_type}) gave up after ${job.attempts} attempts`)
+    await handler?.onGiveUp?.(supabase, job.payload)
+    return 'failed'
+  }
+
+  console.log(`Running job ${job.id} (${job.job_type}), attempt ${job.attempts}/${job.max_attempts}`)
+
+  if (!handler) {
+    await supabase.rpc('fail_job', { p_job_id: job.id, p_error: `Unknown job type: ${job.job_type}`, p_retry: false })
+    return 'failed'
+  }
+
+  try {
+    const result = await handler.run(supabase, job.payload)
+
+    const { error } = await supabase.rpc('complete_job', { p_job_id: job.id, p_result: result ?? null })
+    if (error) throw error
+
+    console.log(`Job ${job.id} succeeded`)
+    return 'succeeded'
+  } catch (error) {
+    console.error(`Job ${job.id} failed:`, error)
+
+    const { data: status, error: failError } = await supabase.rpc('fail_job', {
+      p_job_id: job.id,
+      p_error: error.message || String(error)
+    })
+
+    if (failError) {
+      // The lock times out and the job is reclaimed on a later run
+      console.error('Error recording job failure:', failError)
+      return 'running'
+    }
+
+    if (status === 'failed' && handler.onGiveUp) {
+      await handler.onGiveUp(supabase, job.payload)
+    }
+
+    return status
+  }
+}
@@ -0,0 +1,187 @@
+-- Server-authoritative Light ledger
+-- Clients can no longer write points_transactions or user_tiers directly.
+-- Every award goes through award_light(), which validates the action against
+-- light_action_rules, enforces daily caps and updates total_light atomically.
+
+-- Rules table describing which actions may earn Light and how much
+CREATE TABLE public.light_action_rules (
+  action_type TEXT NOT NULL PRIMARY KEY,
+  description TEXT,
+  max_points INTEGER NOT NULL, -- Upper bound for a single award
+  daily_limit INTEGER, -- Max awards per day, NULL = unlimited
+  daily_light_cap INTEGER, -- Max Light per day from this action, NULL = unlimited
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.light_action_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view Light action rules"
+ON public.light_action_rules
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_light_action_rules_updated_at
+BEFORE UPDATE ON public.light_action_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.light_action_rules (action_type, description, max_points, daily_limit, daily_light_cap) VALUES
+('daily_defiance', 'Daily login with streak bonus', 40, 1, 40),
+('daily_photo_capture', 'Daily photo challenge capture', 45, 10, NULL),
+('beacon_hope', 'Send support to users in symptom flare', 10, 5, 50),
+('silence_whispers', 'React to posts in vent channel', 5, 10, 50),
+('reinforce_resistance', 'Welcome new members', 25, 3, 75),
+('expose_deceit', 'Upvote helpful research links', 5, 10, 50),
+('forbidden_knowledge', 'Share a relief strategy in What Works', 150, 3, 450),
+('forge_alliance', 'Connect with a match', 20, 5, 100),
+('forge_armor', 'Complete your resistance profile', 25, 1, 25),
+('monster_creation', 'Create your monster', 15, 1, 15),
+('achievement_unlock', 'Reward for an unlocked achievement', 1000, NULL, NULL);
+
+-- Remove direct client writes to the ledger tables
+DROP POLICY IF EXISTS "Users can create their own point transactions" ON public.points_transactions;
+DROP POLICY IF EXISTS "Users can update their own tier progress" ON public.user_tiers;
+
+-- Core ledger write. Only callable by the service role (edge functions) and by
+-- award_light() below. Negative amounts are allowed here for penalties/spending.
+CREATE OR REPLACE FUNCTION public.apply_light_transaction(
+  p_user_id UUID,
+  p_action_type TEXT,
+  p_points_amount INTEGER,
+  p_source_id UUID DEFAULT NULL,
+  p_source_type TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  tier_row public.user_tiers%ROWTYPE;
+  transaction_id UUID;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RAISE EXCEPTION 'User is required' USING ERRCODE = '28000';
+  END IF;
+
+  -- Make sure the tier row exists, then lock it so concurrent awards serialize
+  INSERT INTO public.user_tiers (user_id, current_tier, total_light)
+  VALUES (p_user_id, 1, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO tier_row
+  FROM public.user_tiers
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  INSERT INTO public.points_transactions (user_id, action_type, points_amount, source_id, source_type, metadata)
+  VALUES (p_user_id, p_action_type, p_points_amount, p_source_id, p_source_type, COALESCE(p_metadata, '{}'))
+  RETURNING id INTO transaction_id;
+
+  -- Tier recalculation is handled by the update_tier_on_light_change trigger
+  UPDATE public.user_tiers
+  SET total_light = GREATEST(0, total_light + p_points_amount)
+  WHERE user_id = p_user_id
+  RETURNING * INTO tier_row;
+
+  RETURN jsonb_build_object(
+    'transaction_id', transaction_id,
+    'points_awarded', p_points_amount,
+    'total_light', tier_row.total_light,
+    'current_tier', tier_row.current_tier
+  );
+END;
+$$;
+
+-- Client entry point. Validates the action against light_action_rules for the
+-- calling user and enforces per-day caps before writing to the ledger.
+CREATE OR REPLACE FUNCTION public.award_light(
+  p_action_type TEXT,
+  p_points_amount INTEGER,
+  p_source_id UUID DEFAULT NULL,
+  p_source_type TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  rule public.light_action_rules%ROWTYPE;
+  awarded INTEGER := p_points_amount;
+  today_count INTEGER;
+  today_light INTEGER;
+  achievement_reward INTEGER;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO rule
+  FROM public.light_action_rules
+  WHERE action_type = p_action_type AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown action type: %', p_action_type USING ERRCODE = '22023';
+  END IF;
+
+  IF awarded IS NULL OR awarded <= 0 OR awarded > rule.max_points THEN
+    RAISE EXCEPTION 'Invalid Light amount % for %', awarded, p_action_type USING ERRCODE = '22023';
+  END IF;
+
+  -- Achievement rewards must match an unlocked, not yet paid achievement
+  IF p_action_type = 'achievement_unlock' THEN
+    SELECT a.points_reward INTO achievement_reward
+    FROM public.user_achievements ua
+    JOIN public.achievements a ON a.id = ua.achievement_id
+    WHERE ua.user_id = caller_id AND ua.achievement_id = p_source_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Achievement not unlocked' USING ERRCODE = '42501';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1 FROM public.points_transactions
+      WHERE user_id = caller_id AND action_type = 'achievement_unlock' AND source_id = p_source_id
+    ) THEN
+      RAISE EXCEPTION 'Achievement reward already claimed' USING ERRCODE = '23505';
+    END IF;
+
+    awarded := COALESCE(achievement_reward, 0);
+  END IF;
+
+  -- Serialize awards per user before counting today's usage
+  PERFORM pg_advisory_xact_lock(hashtext(caller_id::text));
+
+  SELECT COUNT(*), COALESCE(SUM(points_amount), 0)
+  INTO today_count, today_light
+  FROM public.points_transactions
+  WHERE user_id = caller_id
+    AND action_type = p_action_type
+    AND created_at >= date_trunc('day', now());
+
+  IF rule.daily_limit IS NOT NULL AND today_count >= rule.daily_limit THEN
+    RAISE EXCEPTION 'Daily limit reached for %', p_action_type USING ERRCODE = 'P0001';
+  END IF;
+
+  IF rule.daily_light_cap IS NOT NULL THEN
+    awarded := LEAST(awarded, rule.daily_light_cap - today_light);
+    IF awarded <= 0 THEN
+      RAISE EXCEPTION 'Daily Light cap reached for %', p_action_type USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  RETURN public.apply_light_transaction(
+    caller_id, p_action_type, awarded, p_source_id, p_source_type, p_metadata
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.apply_light_transaction(UUID, TEXT, INTEGER, UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.apply_light_transaction(UUID, TEXT, INTEGER, UUID, TEXT, JSONB) TO service_role;
+
+REVOKE ALL ON FUNCTION public.award_light(TEXT, INTEGER, UUID, TEXT, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.award_light(TEXT, INTEGER, UUID, TEXT, JSONB) TO authenticated;
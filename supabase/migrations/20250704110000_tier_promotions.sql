@@ -0,0 +1,166 @@
+-- Tier promotion engine
+-- Tier thresholds live in tier_definitions (mirrored by src/data/tiers.ts) and
+-- every change to user_tiers.total_light re-evaluates the tier. Promotions are
+-- recorded in tier_promotions, which the client subscribes to via Realtime.
+
+CREATE TABLE public.tier_definitions (
+  tier INTEGER NOT NULL PRIMARY KEY,
+  title TEXT NOT NULL,
+  threshold INTEGER NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.tier_definitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view tier definitions"
+ON public.tier_definitions
+FOR SELECT
+USING (true);
+
+INSERT INTO public.tier_definitions (tier, title, threshold) VALUES
+(1, 'The Spark', 0),
+(2, 'The Lamplighter', 250),
+(3, 'The Beacon', 1000),
+(4, 'The Sentinel', 3000),
+(5, 'The Guardian', 7000),
+(6, 'The Luminary', 15000),
+(7, 'The Citadel Heart', 30000);
+
+-- Promotion events
+CREATE TABLE public.tier_promotions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  from_tier INTEGER NOT NULL,
+  to_tier INTEGER NOT NULL REFERENCES public.tier_definitions(tier),
+  total_light INTEGER NOT NULL,
+  seen_at TIMESTAMP WITH TIME ZONE, -- Set once the user has seen the celebration
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.tier_promotions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own tier promotions"
+ON public.tier_promotions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can acknowledge their own tier promotions"
+ON public.tier_promotions
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_tier_promotions_user_id ON public.tier_promotions(user_id, created_at DESC);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.tier_promotions;
+
+-- Resolve the tier for a Light total from tier_definitions
+CREATE OR REPLACE FUNCTION public.tier_for_light(p_total_light INTEGER)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT COALESCE(MAX(tier), 1)
+  FROM public.tier_definitions
+  WHERE threshold <= COALESCE(p_total_light, 0);
+$$;
+
+-- Replace the hard-coded CASE with the shared tier definitions. Tiers are
+-- never lost once earned, so spending Light does not demote a user.
+CREATE OR REPLACE FUNCTION public.update_user_tier()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  new_tier INTEGER;
+BEGIN
+  new_tier := public.tier_for_light(NEW.total_light);
+
+  IF new_tier > NEW.current_tier THEN
+    NEW.current_tier := new_tier;
+    NEW.tier_achieved_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Record a promotion event whenever current_tier goes up
+CREATE OR REPLACE FUNCTION public.record_tier_promotion()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.tier_promotions (user_id, from_tier, to_tier, total_light)
+  VALUES (NEW.user_id, OLD.current_tier, NEW.current_tier, NEW.total_light);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_tier_promotion_on_update
+AFTER UPDATE ON public.user_tiers
+FOR EACH ROW
+WHEN (NEW.current_tier > OLD.current_tier)
+EXECUTE FUNCTION public.record_tier_promotion();
+
+-- Report promotions from the ledger so callers can react immediately
+CREATE OR REPLACE FUNCTION public.apply_light_transaction(
+  p_user_id UUID,
+  p_action_type TEXT,
+  p_points_amount INTEGER,
+  p_source_id UUID DEFAULT NULL,
+  p_source_type TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  tier_row public.user_tiers%ROWTYPE;
+  previous_tier INTEGER;
+  transaction_id UUID;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RAISE EXCEPTION 'User is required' USING ERRCODE = '28000';
+  END IF;
+
+  INSERT INTO public.user_tiers (user_id, current_tier, total_light)
+  VALUES (p_user_id, 1, 0)
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO tier_row
+  FROM public.user_tiers
+  WHERE user_id = p_user_id
+  FOR UPDATE;
+
+  previous_tier := tier_row.current_tier;
+
+  INSERT INTO public.points_transactions (user_id, action_type, points_amount, source_id, source_type, metadata)
+  VALUES (p_user_id, p_action_type, p_points_amount, p_source_id, p_source_type, COALESCE(p_metadata, '{}'))
+  RETURNING id INTO transaction_id;
+
+  -- update_tier_on_light_change promotes and record_tier_promotion_on_update logs it
+  UPDATE public.user_tiers
+  SET total_light = GREATEST(0, total_light + p_points_amount)
+  WHERE user_id = p_user_id
+  RETURNING * INTO tier_row;
+
+  RETURN jsonb_build_object(
+    'transaction_id', transaction_id,
+    'points_awarded', p_points_amount,
+    'total_light', tier_row.total_light,
+    'current_tier', tier_row.current_tier,
+    'previous_tier', previous_tier,
+    'promoted', tier_row.current_tier > previous_tier
+  );
+END;
+$$;
+
+-- Bring existing users up to the tier their Light already earns
+UPDATE public.user_tiers
+SET current_tier = public.tier_for_light(total_light),
+    tier_achieved_at = now()
+WHERE public.tier_for_light(total_light) > current_tier;
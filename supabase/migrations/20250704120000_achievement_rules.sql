@@ -0,0 +1,382 @@
+-- Declarative achievement rule engine
+-- Each achievements.requirement_type maps to a metric in achievement_rules.
+-- evaluate_achievements() computes every metric server-side, stores progress in
+-- user_achievement_progress, unlocks achievements whose requirement_value is
+-- reached and pays their reward through the Light ledger.
+-- Metrics that pay Light are read from rows clients cannot write: the ledger,
+-- moderated strategies and matches changed only through RPCs. Rules marked
+-- self_reported measure the user's own profile or challenge progress, so they
+-- unlock the achievement without paying its reward.
+
+CREATE TABLE public.achievement_rules (
+  requirement_type TEXT NOT NULL PRIMARY KEY,
+  metric TEXT NOT NULL, -- Evaluator used by achievement_metric()
+  params JSONB NOT NULL DEFAULT '{}', -- Evaluator parameters, e.g. {"action_type": "beacon_hope"}
+  self_reported BOOLEAN NOT NULL DEFAULT false, -- Measured from client-written rows; never pays Light
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.achievement_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view achievement rules"
+ON public.achievement_rules
+FOR SELECT
+USING (true);
+
+INSERT INTO public.achievement_rules (requirement_type, metric, params, self_reported, description) VALUES
+-- Community & Support
+('tips_shared', 'strategies_shared', '{}', false, 'Approved relief strategies shared in What Works'),
+('support_sent', 'ledger_action_count', '{"action_type": "beacon_hope"}', false, 'Beacon of Hope actions sent'),
+('vent_reactions', 'ledger_action_count', '{"action_type": "silence_whispers"}', false, 'Reactions in the vent channel'),
+('welcomes_sent', 'ledger_action_count', '{"action_type": "reinforce_resistance"}', false, 'New members welcomed'),
+('upvotes_given', 'ledger_action_count', '{"action_type": "expose_deceit"}', false, 'Research upvotes given'),
+('upvotes_received', 'strategy_upvotes_received', '{}', false, 'Other members upvoting your approved strategies'),
+-- Direct Interaction
+('riddles_solved', 'ledger_action_count', '{"action_type": "breach_interference"}', false, 'Riddles solved'),
+('first_messages', 'matches_initiated', '{}', false, 'Connections you initiated that were accepted'),
+('support_pacts', 'matches_accepted', '{}', false, 'Accepted connections'),
+-- Personal Growth
+('profile_completion', 'profile_completion', '{}', true, 'Percentage of health profile completed'),
+('login_streak', 'ledger_daily_streak', '{"action_type": "daily_defiance"}', false, 'Longest daily login streak'),
+('bio_length', 'bio_length', '{}', true, 'Characters in your bio'),
+-- Photo challenges
+('total_photos', 'ledger_action_count', '{"action_type": "daily_photo_capture"}', false, 'Challenge photos taken'),
+('days_streak', 'challenge_streak', '{}', true, 'Longest photo challenge streak'),
+('challenges_completed', 'challenges_completed', '{}', true, 'Photo challenges completed'),
+-- Active Gamification
+('hunts_joined', 'weekly_challenges_joined', '{"challenge_type": "alpha_monster_hunt"}', false, 'Alpha monster hunts joined'),
+('strikes_joined', 'weekly_challenges_joined', '{"challenge_type": "synchronized_strike"}', false, 'Synchronized strikes joined'),
+('curses_broken', 'ledger_action_count', '{"action_type": "shatter_illusions"}', false, 'Monster curses broken');
+
+-- Self-reported achievements are badges only
+UPDATE public.achievements
+SET points_reward = 0
+WHERE requirement_type IN (SELECT requirement_type FROM public.achievement_rules WHERE self_reported);
+
+-- Per-user progress towards every achievement
+CREATE TABLE public.user_achievement_progress (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  achievement_id UUID NOT NULL REFERENCES public.achievements(id) ON DELETE CASCADE,
+  progress_value INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, achievement_id)
+);
+
+ALTER TABLE public.user_achievement_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own achievement progress"
+ON public.user_achievement_progress
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_user_achievement_progress_user_id ON public.user_achievement_progress(user_id);
+
+-- Unlocks are written by evaluate_achievements() only
+DROP POLICY IF EXISTS "Users can create their own achievements" ON public.user_achievements;
+
+-- Authors can edit their strategies but not approve them or set their vote counts.
+-- Moderators and SECURITY DEFINER functions don't run as a client role.
+CREATE OR REPLACE FUNCTION public.protect_strategy_moderation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.is_approved := false;
+    NEW.helpful_votes := 0;
+    NEW.not_helpful_votes := 0;
+  ELSE
+    NEW.is_approved := OLD.is_approved;
+    NEW.helpful_votes := OLD.helpful_votes;
+    NEW.not_helpful_votes := OLD.not_helpful_votes;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_strategy_moderation
+BEFORE INSERT OR UPDATE ON public.relief_strategies
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_strategy_moderation();
+
+-- Compute a single metric for a user
+CREATE OR REPLACE FUNCTION public.achievement_metric(
+  p_user_id UUID,
+  p_metric TEXT,
+  p_params JSONB DEFAULT '{}'
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  result INTEGER := 0;
+  profile_row public.profiles%ROWTYPE;
+  filled INTEGER;
+BEGIN
+  CASE p_metric
+    WHEN 'ledger_action_count' THEN
+      SELECT COUNT(*) INTO result
+      FROM public.points_transactions
+      WHERE user_id = p_user_id AND action_type = p_params ->> 'action_type';
+
+    -- Longest run of consecutive days with at least one award of this type
+    WHEN 'ledger_daily_streak' THEN
+      SELECT COALESCE(MAX(run_length), 0) INTO result
+      FROM (
+        SELECT COUNT(*) AS run_length
+        FROM (
+          SELECT award_day, award_day - (ROW_NUMBER() OVER (ORDER BY award_day))::INTEGER AS run_start
+          FROM (
+            SELECT DISTINCT (created_at AT TIME ZONE 'UTC')::DATE AS award_day
+            FROM public.points_transactions
+            WHERE user_id = p_user_id AND action_type = p_params ->> 'action_type'
+          ) days
+        ) numbered
+        GROUP BY run_start
+      ) runs;
+
+    -- Only moderators approve strategies; see protect_strategy_moderation()
+    WHEN 'strategies_shared' THEN
+      SELECT COUNT(*) INTO result
+      FROM public.relief_strategies
+      WHERE user_id = p_user_id AND is_approved = true;
+
+    -- One vote per member per strategy, read from the voters' ledger rows
+    WHEN 'strategy_upvotes_received' THEN
+      SELECT COUNT(DISTINCT (pt.user_id, pt.source_id)) INTO result
+      FROM public.points_transactions pt
+      JOIN public.relief_strategies rs ON rs.id = pt.source_id
+      WHERE rs.user_id = p_user_id
+        AND rs.is_approved = true
+        AND pt.action_type = 'expose_deceit'
+        AND pt.user_id <> p_user_id;
+
+    WHEN 'matches_initiated' THEN
+      SELECT COUNT(*) INTO result
+      FROM public.matches
+      WHERE user1_id = p_user_id AND connection_status = 'accepted';
+
+    WHEN 'matches_accepted' THEN
+      SELECT COUNT(*) INTO result
+      FROM public.matches
+      WHERE (user1_id = p_user_id OR user2_id = p_user_id)
+        AND connection_status = 'accepted';
+
+    WHEN 'profile_completion' THEN
+      SELECT * INTO profile_row FROM public.profiles WHERE user_id = p_user_id;
+      IF FOUND THEN
+        filled :=
+          (profile_row.display_name IS NOT NULL AND profile_row.display_name <> '')::INTEGER +
+          (profile_row.bio IS NOT NULL AND profile_row.bio <> '')::INTEGER +
+          (profile_row.avatar_url IS NOT NULL AND profile_row.avatar_url <> '')::INTEGER +
+          (COALESCE(cardinality(profile_row.monster_keywords), 0) > 0)::INTEGER +
+          (COALESCE(cardinality(profile_row.primary_symptoms), 0) > 0)::INTEGER +
+          (COALESCE(profile_row.condition_duration, '') <> '')::INTEGER +
+          (COALESCE(cardinality(profile_row.safe_foods), 0) > 0)::INTEGER +
+          (COALESCE(cardinality(profile_row.trigger_foods), 0) > 0)::INTEGER +
+          (COALESCE(cardinality(profile_row.helpful_supplements), 0) > 0)::INTEGER +
+          (profile_row.climate_type IS NOT NULL)::INTEGER +
+          (profile_row.age_range IS NOT NULL)::INTEGER +
+          (COALESCE(cardinality(profile_row.likes), 0) > 0)::INTEGER;
+        result := ROUND(filled * 100.0 / 12);
+      END IF;
+
+    WHEN 'bio_length' THEN
+      SELECT COALESCE(length(bio), 0) INTO result
+      FROM public.profiles
+      WHERE user_id = p_user_id;
+
+    WHEN 'challenge_streak' THEN
+      SELECT COALESCE(MAX(longest_streak), 0) INTO result
+      FROM public.user_challenge_progress
+      WHERE user_id = p_user_id;
+
+    WHEN 'challenges_completed' THEN
+      SELECT COUNT(*) INTO result
+      FROM public.photo_challenges
+      WHERE user_id = p_user_id AND status = 'completed';
+
+    WHEN 'weekly_challenges_joined' THEN
+      SELECT COUNT(*) INTO result
+      FROM public.user_challenge_participation ucp
+      JOIN public.weekly_challenges wc ON wc.id = ucp.challenge_id
+      WHERE ucp.user_id = p_user_id AND wc.challenge_type = p_params ->> 'challenge_type';
+
+    ELSE
+      result := 0;
+  END CASE;
+
+  RETURN COALESCE(result, 0);
+END;
+$$;
+
+-- Refresh progress for every achievement and unlock the ones now earned.
+-- Returns the newly unlocked achievements.
+CREATE OR REPLACE FUNCTION public.evaluate_achievements(p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  metric_values JSONB := '{}';
+  achievement RECORD;
+  current_value INTEGER;
+  unlocked JSONB := '[]';
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN unlocked;
+  END IF;
+
+  -- Evaluate each rule once, even when several achievements share it
+  SELECT COALESCE(jsonb_object_agg(r.requirement_type, public.achievement_metric(p_user_id, r.metric, r.params)), '{}')
+  INTO metric_values
+  FROM public.achievement_rules r
+  WHERE r.requirement_type IN (SELECT DISTINCT requirement_type FROM public.achievements);
+
+  FOR achievement IN
+    SELECT a.*, (ua.id IS NOT NULL) AS is_unlocked,
+      CASE WHEN COALESCE(r.self_reported, false) THEN 0 ELSE COALESCE(a.points_reward, 0) END AS light_reward
+    FROM public.achievements a
+    LEFT JOIN public.achievement_rules r ON r.requirement_type = a.requirement_type
+    LEFT JOIN public.user_achievements ua
+      ON ua.achievement_id = a.id AND ua.user_id = p_user_id
+  LOOP
+    current_value := COALESCE((metric_values ->> achievement.requirement_type)::INTEGER, 0);
+
+    INSERT INTO public.user_achievement_progress (user_id, achievement_id, progress_value, updated_at)
+    VALUES (p_user_id, achievement.id, current_value, now())
+    ON CONFLICT (user_id, achievement_id)
+    DO UPDATE SET progress_value = EXCLUDED.progress_value, updated_at = now();
+
+    IF NOT achievement.is_unlocked AND current_value >= achievement.requirement_value THEN
+      INSERT INTO public.user_achievements (user_id, achievement_id, progress_value)
+      VALUES (p_user_id, achievement.id, current_value)
+      ON CONFLICT (user_id, achievement_id) DO NOTHING;
+
+      IF FOUND THEN
+        IF achievement.light_reward > 0 THEN
+          PERFORM public.apply_light_transaction(
+            p_user_id, 'achievement_unlock', achievement.light_reward,
+            achievement.id, 'achievement',
+            jsonb_build_object('achievement_name', achievement.name)
+          );
+        END IF;
+
+        unlocked := unlocked || jsonb_build_array(jsonb_build_object(
+          'id', achievement.id,
+          'name', achievement.name,
+          'points_reward', achievement.light_reward
+        ));
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN unlocked;
+END;
+$$;
+
+-- Client entry point for refreshing progress outside of a Light award
+CREATE OR REPLACE FUNCTION public.check_achievements()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  RETURN public.evaluate_achievements(auth.uid());
+END;
+$$;
+
+-- award_light now evaluates achievements after every award
+CREATE OR REPLACE FUNCTION public.award_light(
+  p_action_type TEXT,
+  p_points_amount INTEGER,
+  p_source_id UUID DEFAULT NULL,
+  p_source_type TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  rule public.light_action_rules%ROWTYPE;
+  awarded INTEGER := p_points_amount;
+  today_count INTEGER;
+  today_light INTEGER;
+  ledger_result JSONB;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Achievement rewards are paid by evaluate_achievements()
+  IF p_action_type = 'achievement_unlock' THEN
+    RAISE EXCEPTION 'Achievement rewards are awarded automatically' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO rule
+  FROM public.light_action_rules
+  WHERE action_type = p_action_type AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown action type: %', p_action_type USING ERRCODE = '22023';
+  END IF;
+
+  IF awarded IS NULL OR awarded <= 0 OR awarded > rule.max_points THEN
+    RAISE EXCEPTION 'Invalid Light amount % for %', awarded, p_action_type USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(caller_id::text));
+
+  SELECT COUNT(*), COALESCE(SUM(points_amount), 0)
+  INTO today_count, today_light
+  FROM public.points_transactions
+  WHERE user_id = caller_id
+    AND action_type = p_action_type
+    AND created_at >= date_trunc('day', now());
+
+  IF rule.daily_limit IS NOT NULL AND today_count >= rule.daily_limit THEN
+    RAISE EXCEPTION 'Daily limit reached for %', p_action_type USING ERRCODE = 'P0001';
+  END IF;
+
+  IF rule.daily_light_cap IS NOT NULL THEN
+    awarded := LEAST(awarded, rule.daily_light_cap - today_light);
+    IF awarded <= 0 THEN
+      RAISE EXCEPTION 'Daily Light cap reached for %', p_action_type USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  ledger_result := public.apply_light_transaction(
+    caller_id, p_action_type, awarded, p_source_id, p_source_type, p_metadata
+  );
+
+  RETURN ledger_result || jsonb_build_object(
+    'unlocked_achievements', public.evaluate_achievements(caller_id)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.achievement_metric(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.evaluate_achievements(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.evaluate_achievements(UUID) TO service_role;
+
+REVOKE ALL ON FUNCTION public.check_achievements() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.check_achievements() TO authenticated;
+
+-- Backfill progress for existing users
+SELECT public.evaluate_achievements(user_id) FROM public.profiles;
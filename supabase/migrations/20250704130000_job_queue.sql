@@ -0,0 +1,244 @@
+-- Durable job queue for long-running edge function work
+-- Functions enqueue jobs with enqueue_job() and the process-jobs worker claims,
+-- runs and settles them. Failed jobs are retried with exponential backoff until
+-- max_attempts is reached. Clients watch their jobs through Realtime (useJob).
+
+CREATE TABLE public.jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  job_type TEXT NOT NULL, -- 'generate_timelapse', 'generate_monster_image'
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+  payload JSONB NOT NULL DEFAULT '{}',
+  result JSONB,
+  last_error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  idempotency_key TEXT, -- Repeated requests with the same key return the original job
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(), -- Not picked up before this time
+  locked_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, job_type, idempotency_key)
+);
+
+ALTER TABLE public.jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are written by edge functions only; users can follow their own
+CREATE POLICY "Users can view their own jobs"
+ON public.jobs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_jobs_runnable ON public.jobs(run_at) WHERE status = 'queued';
+CREATE INDEX idx_jobs_user_id ON public.jobs(user_id, created_at DESC);
+
+CREATE TRIGGER update_jobs_updated_at
+BEFORE UPDATE ON public.jobs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.jobs;
+
+-- Enqueue a job, or return the existing one for the same idempotency key.
+-- A job that has failed for good is queued again under its original payload,
+-- so asking again is a real retry rather than a replay of the failure.
+CREATE OR REPLACE FUNCTION public.enqueue_job(
+  p_user_id UUID,
+  p_job_type TEXT,
+  p_payload JSONB DEFAULT '{}',
+  p_idempotency_key TEXT DEFAULT NULL,
+  p_max_attempts INTEGER DEFAULT 5
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  job public.jobs%ROWTYPE;
+BEGIN
+  INSERT INTO public.jobs (user_id, job_type, payload, idempotency_key, max_attempts)
+  VALUES (p_user_id, p_job_type, COALESCE(p_payload, '{}'), p_idempotency_key, p_max_attempts)
+  ON CONFLICT (user_id, job_type, idempotency_key) DO NOTHING
+  RETURNING * INTO job;
+
+  IF FOUND THEN
+    RETURN to_jsonb(job) || jsonb_build_object('created', true, 'retried', false);
+  END IF;
+
+  UPDATE public.jobs
+  SET status = 'queued',
+      attempts = 0,
+      result = NULL,
+      last_error = NULL,
+      run_at = now(),
+      locked_at = NULL,
+      completed_at = NULL
+  WHERE user_id = p_user_id
+    AND job_type = p_job_type
+    AND idempotency_key = p_idempotency_key
+    AND status = 'failed'
+  RETURNING * INTO job;
+
+  IF FOUND THEN
+    RETURN to_jsonb(job) || jsonb_build_object('created', true, 'retried', true);
+  END IF;
+
+  SELECT * INTO job
+  FROM public.jobs
+  WHERE user_id = p_user_id
+    AND job_type = p_job_type
+    AND idempotency_key = p_idempotency_key;
+
+  RETURN to_jsonb(job) || jsonb_build_object('created', false, 'retried', false);
+END;
+$$;
+
+-- Claim runnable jobs for a worker. Jobs left running by a crashed worker are
+-- reclaimed once their lock is older than p_lock_timeout, unless they have used
+-- up their attempts: those are marked failed and returned with that status so
+-- the worker can run its give-up handler instead of the job.
+CREATE OR REPLACE FUNCTION public.claim_jobs(
+  p_limit INTEGER DEFAULT 5,
+  p_lock_timeout INTERVAL DEFAULT interval '15 minutes'
+)
+RETURNS SETOF public.jobs
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.jobs j
+  SET status = 'failed',
+      last_error = COALESCE(j.last_error, 'Worker stopped responding') || ' (gave up after ' || j.attempts || ' attempts)',
+      locked_at = NULL,
+      completed_at = now()
+  WHERE j.id IN (
+    SELECT id
+    FROM public.jobs
+    WHERE status = 'running'
+      AND locked_at < now() - p_lock_timeout
+      AND attempts >= max_attempts
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+
+  RETURN QUERY
+  UPDATE public.jobs j
+  SET status = 'running',
+      attempts = j.attempts + 1,
+      locked_at = now()
+  WHERE j.id IN (
+    SELECT id
+    FROM public.jobs
+    WHERE (status = 'queued' AND run_at <= now())
+       OR (status = 'running' AND locked_at < now() - p_lock_timeout AND attempts < max_attempts)
+    ORDER BY run_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.complete_job(p_job_id UUID, p_result JSONB DEFAULT NULL)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.jobs
+  SET status = 'succeeded',
+      result = p_result,
+      last_error = NULL,
+      locked_at = NULL,
+      completed_at = now()
+  WHERE id = p_job_id;
+END;
+$$;
+
+-- Record a failure and schedule a retry (30s, 1m, 2m, ... capped at 1h).
+-- Returns the job's new status so the worker knows whether it gave up.
+CREATE OR REPLACE FUNCTION public.fail_job(p_job_id UUID, p_error TEXT, p_retry BOOLEAN DEFAULT true)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  new_status TEXT;
+BEGIN
+  UPDATE public.jobs
+  SET status = CASE WHEN p_retry AND attempts < max_attempts THEN 'queued' ELSE 'failed' END,
+      last_error = p_error,
+      locked_at = NULL,
+      run_at = now() + LEAST(interval '1 hour', interval '30 seconds' * power(2, GREATEST(attempts - 1, 0))),
+      completed_at = CASE WHEN p_retry AND attempts < max_attempts THEN NULL ELSE now() END
+  WHERE id = p_job_id
+  RETURNING status INTO new_status;
+
+  RETURN new_status;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.enqueue_job(UUID, TEXT, JSONB, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.claim_jobs(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.complete_job(UUID, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.fail_job(UUID, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION public.enqueue_job(UUID, TEXT, JSONB, TEXT, INTEGER) TO service_role;
+GRANT EXECUTE ON FUNCTION public.claim_jobs(INTEGER, INTERVAL) TO service_role;
+GRANT EXECUTE ON FUNCTION public.complete_job(UUID, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION public.fail_job(UUID, TEXT, BOOLEAN) TO service_role;
+
+-- Start the worker every minute while anything is runnable, so retries waiting
+-- on their backoff and jobs orphaned by a crash are picked up without a new
+-- enqueue. The project URL and service role key are read from Vault secrets
+-- named 'project_url' and 'service_role_key'.
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION public.kick_job_worker(p_lock_timeout INTERVAL DEFAULT interval '15 minutes')
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  project_url TEXT;
+  service_role_key TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.jobs
+    WHERE (status = 'queued' AND run_at <= now())
+       OR (status = 'running' AND locked_at < now() - p_lock_timeout)
+  ) THEN
+    RETURN;
+  END IF;
+
+  SELECT decrypted_secret INTO project_url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO service_role_key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF project_url IS NULL OR service_role_key IS NULL THEN
+    RAISE WARNING 'kick_job_worker: project_url and service_role_key must be stored in Vault';
+    RETURN;
+  END IF;
+
+  PERFORM net.http_post(
+    url := project_url || '/functions/v1/process-jobs',
+    headers := jsonb_build_object(
+      'Authorization', 'Bearer ' || service_role_key,
+      'Content-Type', 'application/json'
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.kick_job_worker(INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.kick_job_worker(INTERVAL) TO service_role;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'process-jobs',
+  '* * * * *',
+  'SELECT public.kick_job_worker()'
+);
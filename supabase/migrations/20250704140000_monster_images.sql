@@ -0,0 +1,116 @@
+-- Monster images in Storage
+-- Generated monsters are uploaded to the monster-images bucket in several sizes
+-- and every generation is kept as a version. profiles.monster_image_url only
+-- holds the public URL of the current version.
+
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('monster-images', 'monster-images', true)
+ON CONFLICT (id) DO NOTHING;
+
+-- Uploads happen in the process-jobs worker with the service role
+CREATE POLICY "Monster images are publicly accessible"
+ON storage.objects FOR SELECT
+USING (bucket_id = 'monster-images');
+
+CREATE TABLE public.monster_image_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  version INTEGER NOT NULL,
+  prompt TEXT,
+  keywords TEXT[],
+  images JSONB NOT NULL, -- {"original": {"path", "url", "width", "height"}, "medium": {...}, "thumbnail": {...}}
+  is_current BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, version)
+);
+
+ALTER TABLE public.monster_image_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own monster image versions"
+ON public.monster_image_versions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE UNIQUE INDEX idx_monster_image_versions_current
+ON public.monster_image_versions(user_id)
+WHERE is_current;
+
+-- New rows must point at Storage; legacy inline images are replaced the next
+-- time the user generates a monster
+ALTER TABLE public.profiles
+ADD CONSTRAINT profiles_monster_image_url_not_inline
+CHECK (monster_image_url IS NULL OR monster_image_url NOT LIKE 'data:%') NOT VALID;
+
+-- Record a new monster version, make it current and point the profile at it
+CREATE OR REPLACE FUNCTION public.add_monster_image_version(
+  p_version_id UUID,
+  p_user_id UUID,
+  p_prompt TEXT,
+  p_keywords TEXT[],
+  p_images JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  new_version INTEGER;
+BEGIN
+  -- Serialise version numbering per user
+  PERFORM pg_advisory_xact_lock(hashtext('monster_image_versions:' || p_user_id::text));
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO new_version
+  FROM public.monster_image_versions
+  WHERE user_id = p_user_id;
+
+  UPDATE public.monster_image_versions
+  SET is_current = false
+  WHERE user_id = p_user_id AND is_current;
+
+  INSERT INTO public.monster_image_versions (id, user_id, version, prompt, keywords, images)
+  VALUES (p_version_id, p_user_id, new_version, p_prompt, p_keywords, p_images);
+
+  UPDATE public.profiles
+  SET monster_image_url = p_images->'medium'->>'url'
+  WHERE user_id = p_user_id;
+
+  RETURN jsonb_build_object('id', p_version_id, 'version', new_version);
+END;
+$$;
+
+-- Switch back to an earlier monster
+CREATE OR REPLACE FUNCTION public.restore_monster_image_version(p_version_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  target public.monster_image_versions%ROWTYPE;
+BEGIN
+  SELECT * INTO target
+  FROM public.monster_image_versions
+  WHERE id = p_version_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Monster image version not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  UPDATE public.monster_image_versions
+  SET is_current = false
+  WHERE user_id = target.user_id AND is_current;
+
+  UPDATE public.monster_image_versions
+  SET is_current = true
+  WHERE id = target.id;
+
+  UPDATE public.profiles
+  SET monster_image_url = target.images->'medium'->>'url'
+  WHERE user_id = target.user_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.add_monster_image_version(UUID, UUID, TEXT, TEXT[], JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.add_monster_image_version(UUID, UUID, TEXT, TEXT[], JSONB) TO service_role;
+
+REVOKE ALL ON FUNCTION public.restore_monster_image_version(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.restore_monster_image_version(UUID) TO authenticated;
@@ -0,0 +1,51 @@
+-- Store how each monster was prompted so it can be recreated (same seed) or
+-- varied (new seed) later
+
+ALTER TABLE public.monster_image_versions
+ADD COLUMN style TEXT,
+ADD COLUMN seed BIGINT,
+ADD COLUMN negative_prompt TEXT;
+
+DROP FUNCTION public.add_monster_image_version(UUID, UUID, TEXT, TEXT[], JSONB);
+
+CREATE OR REPLACE FUNCTION public.add_monster_image_version(
+  p_version_id UUID,
+  p_user_id UUID,
+  p_prompt TEXT,
+  p_keywords TEXT[],
+  p_images JSONB,
+  p_style TEXT DEFAULT NULL,
+  p_seed BIGINT DEFAULT NULL,
+  p_negative_prompt TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  new_version INTEGER;
+BEGIN
+  -- Serialise version numbering per user
+  PERFORM pg_advisory_xact_lock(hashtext('monster_image_versions:' || p_user_id::text));
+
+  SELECT COALESCE(MAX(version), 0) + 1 INTO new_version
+  FROM public.monster_image_versions
+  WHERE user_id = p_user_id;
+
+  UPDATE public.monster_image_versions
+  SET is_current = false
+  WHERE user_id = p_user_id AND is_current;
+
+  INSERT INTO public.monster_image_versions (id, user_id, version, prompt, keywords, images, style, seed, negative_prompt)
+  VALUES (p_version_id, p_user_id, new_version, p_prompt, p_keywords, p_images, p_style, p_seed, p_negative_prompt);
+
+  UPDATE public.profiles
+  SET monster_image_url = p_images->'medium'->>'url'
+  WHERE user_id = p_user_id;
+
+  RETURN jsonb_build_object('id', p_version_id, 'version', new_version);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.add_monster_image_version(UUID, UUID, TEXT, TEXT[], JSONB, TEXT, BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.add_monster_image_version(UUID, UUID, TEXT, TEXT[], JSONB, TEXT, BIGINT, TEXT) TO service_role;
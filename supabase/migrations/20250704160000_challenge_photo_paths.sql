@@ -0,0 +1,29 @@
+-- challenge-photos is a private bucket, so the public URLs stored in
+-- challenge_entries.image_url never resolved. Entries now store the object path
+-- and clients mint short-lived signed URLs when they need to display a photo.
+
+ALTER TABLE public.challenge_entries
+ADD COLUMN image_path TEXT;
+
+-- Recover the object path from the stored URL
+-- (.../storage/v1/object/public/challenge-photos/<user>/<challenge>/<file>)
+UPDATE public.challenge_entries
+SET image_path = COALESCE(
+  split_part(substring(image_url FROM '/challenge-photos/(.*)$'), '?', 1),
+  image_url
+)
+WHERE image_path IS NULL;
+
+ALTER TABLE public.challenge_entries
+ALTER COLUMN image_path SET NOT NULL;
+
+-- image_url is kept for reference only and no longer written
+ALTER TABLE public.challenge_entries
+ALTER COLUMN image_url DROP NOT NULL;
+
+COMMENT ON COLUMN public.challenge_entries.image_url IS 'Deprecated: use image_path with a signed URL';
+
+-- Pose guides built from a user's first photo pointed at the same broken URLs
+UPDATE public.photo_challenges
+SET pose_guide_url = split_part(substring(pose_guide_url FROM '/challenge-photos/(.*)$'), '?', 1)
+WHERE pose_guide_url LIKE '%/challenge-photos/%';
@@ -0,0 +1,357 @@
+-- Community weekly challenges
+-- Users join the active challenge with join_weekly_challenge(). Every Light award
+-- for one of the challenge's qualifying actions counts towards actions_completed
+-- and pays base_reward. settle_weekly_challenges() runs daily: once a challenge
+-- reaches its end_date it pays completion_bonus to everyone who hit action_target
+-- (provided the community reached target_participants) and rolls over to the
+-- next challenge.
+
+-- Rotation used when no challenge has been scheduled ahead of time
+CREATE TABLE public.weekly_challenge_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT,
+  challenge_type TEXT NOT NULL,
+  qualifying_actions TEXT[] NOT NULL, -- points_transactions.action_type values that count
+  action_target INTEGER NOT NULL DEFAULT 1, -- Actions needed to earn the completion bonus
+  target_participants INTEGER,
+  base_reward INTEGER NOT NULL DEFAULT 5,
+  completion_bonus INTEGER NOT NULL DEFAULT 500,
+  duration_days INTEGER NOT NULL DEFAULT 7,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.weekly_challenge_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view weekly challenge templates"
+ON public.weekly_challenge_templates
+FOR SELECT
+USING (true);
+
+INSERT INTO public.weekly_challenge_templates
+  (title, description, challenge_type, qualifying_actions, action_target, target_participants, base_reward, completion_bonus, sort_order)
+VALUES
+('The Alpha Hunt', 'Unite against the Alpha Monster''s influence on our community', 'alpha_monster_hunt',
+  ARRAY['beacon_hope', 'silence_whispers', 'reinforce_resistance', 'expose_deceit'], 10, 50, 5, 500, 1),
+('Synchronized Strike', 'Strike together: check in and capture your challenge photos all week long', 'synchronized_strike',
+  ARRAY['daily_defiance', 'daily_photo_capture'], 7, 25, 5, 300, 2),
+('Forbidden Knowledge', 'Share what brings you relief and lift up the research that helps', 'forbidden_knowledge_week',
+  ARRAY['forbidden_knowledge', 'expose_deceit'], 5, 20, 10, 400, 3);
+
+ALTER TABLE public.weekly_challenges
+  ADD COLUMN template_id UUID REFERENCES public.weekly_challenge_templates(id) ON DELETE SET NULL,
+  ADD COLUMN qualifying_actions TEXT[] NOT NULL DEFAULT '{}',
+  ADD COLUMN action_target INTEGER NOT NULL DEFAULT 1,
+  ADD COLUMN goal_reached BOOLEAN, -- Set at settlement
+  ADD COLUMN settled_at TIMESTAMP WITH TIME ZONE;
+
+-- Existing challenges inherit their rules from the matching template
+UPDATE public.weekly_challenges wc
+SET template_id = t.id,
+    qualifying_actions = t.qualifying_actions,
+    action_target = t.action_target
+FROM public.weekly_challenge_templates t
+WHERE t.challenge_type = wc.challenge_type;
+
+ALTER TABLE public.user_challenge_participation
+  ADD COLUMN completed_at TIMESTAMP WITH TIME ZONE, -- When action_target was reached
+  ADD COLUMN bonus_awarded_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_user_challenge_participation_challenge_id ON public.user_challenge_participation(challenge_id);
+
+-- Progress is counted by the server; clients can only read their own rows
+DROP POLICY IF EXISTS "Users can manage their challenge participation" ON public.user_challenge_participation;
+
+CREATE POLICY "Users can view their own challenge participation"
+ON public.user_challenge_participation
+FOR SELECT
+USING (auth.uid() = user_id);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.weekly_challenges;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.user_challenge_participation;
+
+-- Join an open challenge. Joining twice returns the existing participation.
+CREATE OR REPLACE FUNCTION public.join_weekly_challenge(p_challenge_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  challenge public.weekly_challenges%ROWTYPE;
+  participation public.user_challenge_participation%ROWTYPE;
+  joined BOOLEAN := false;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Lock the challenge so current_participants stays consistent
+  SELECT * INTO challenge
+  FROM public.weekly_challenges
+  WHERE id = p_challenge_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Challenge not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT COALESCE(challenge.is_active, false)
+    OR challenge.settled_at IS NOT NULL
+    OR CURRENT_DATE < challenge.start_date
+    OR CURRENT_DATE >= challenge.end_date THEN
+    RAISE EXCEPTION 'Challenge is not open for joining' USING ERRCODE = 'P0001';
+  END IF;
+
+  INSERT INTO public.user_challenge_participation (user_id, challenge_id)
+  VALUES (caller_id, p_challenge_id)
+  ON CONFLICT (user_id, challenge_id) DO NOTHING
+  RETURNING * INTO participation;
+
+  IF FOUND THEN
+    joined := true;
+
+    UPDATE public.weekly_challenges
+    SET current_participants = COALESCE(current_participants, 0) + 1
+    WHERE id = p_challenge_id;
+  ELSE
+    SELECT * INTO participation
+    FROM public.user_challenge_participation
+    WHERE user_id = caller_id AND challenge_id = p_challenge_id;
+  END IF;
+
+  RETURN to_jsonb(participation) || jsonb_build_object(
+    'joined', joined,
+    'unlocked_achievements', public.evaluate_achievements(caller_id)
+  );
+END;
+$$;
+
+-- Count qualifying Light awards towards every open challenge the user joined
+CREATE OR REPLACE FUNCTION public.count_weekly_challenge_action()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  progress RECORD;
+BEGIN
+  -- Penalties and the challenge's own rewards never count
+  IF NEW.points_amount <= 0 OR NEW.source_type = 'weekly_challenge' THEN
+    RETURN NEW;
+  END IF;
+
+  FOR progress IN
+    UPDATE public.user_challenge_participation ucp
+    SET actions_completed = COALESCE(ucp.actions_completed, 0) + 1,
+        light_earned = COALESCE(ucp.light_earned, 0) + wc.base_reward,
+        completed_at = CASE
+          WHEN ucp.completed_at IS NULL AND COALESCE(ucp.actions_completed, 0) + 1 >= wc.action_target THEN now()
+          ELSE ucp.completed_at
+        END
+    FROM public.weekly_challenges wc
+    WHERE wc.id = ucp.challenge_id
+      AND ucp.user_id = NEW.user_id
+      AND wc.is_active = true
+      AND wc.settled_at IS NULL
+      AND NEW.action_type = ANY(wc.qualifying_actions)
+      AND CURRENT_DATE >= wc.start_date
+      AND CURRENT_DATE < wc.end_date
+    RETURNING wc.id AS challenge_id, wc.title, wc.base_reward, ucp.actions_completed
+  LOOP
+    IF progress.base_reward > 0 THEN
+      PERFORM public.apply_light_transaction(
+        NEW.user_id, 'weekly_challenge_action', progress.base_reward,
+        progress.challenge_id, 'weekly_challenge',
+        jsonb_build_object(
+          'challenge_title', progress.title,
+          'qualifying_action', NEW.action_type,
+          'actions_completed', progress.actions_completed
+        )
+      );
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER count_weekly_challenge_action
+AFTER INSERT ON public.points_transactions
+FOR EACH ROW
+EXECUTE FUNCTION public.count_weekly_challenge_action();
+
+-- Make sure a challenge is running today. Prefers a challenge scheduled ahead of
+-- time, otherwise creates the next one from the template rotation. Returns the
+-- newly activated challenge, or NULL when one is already running.
+CREATE OR REPLACE FUNCTION public.activate_next_weekly_challenge()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  next_challenge public.weekly_challenges%ROWTYPE;
+  last_sort_order INTEGER;
+  template public.weekly_challenge_templates%ROWTYPE;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.weekly_challenges
+    WHERE is_active = true
+      AND settled_at IS NULL
+      AND start_date <= CURRENT_DATE
+      AND end_date > CURRENT_DATE
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.weekly_challenges
+  SET is_active = true
+  WHERE id = (
+    SELECT id FROM public.weekly_challenges
+    WHERE settled_at IS NULL
+      AND NOT COALESCE(is_active, false)
+      AND start_date <= CURRENT_DATE
+      AND end_date > CURRENT_DATE
+    ORDER BY start_date, created_at
+    LIMIT 1
+  )
+  RETURNING * INTO next_challenge;
+
+  IF FOUND THEN
+    RETURN to_jsonb(next_challenge);
+  END IF;
+
+  -- Leave the gap alone if an admin has already scheduled an upcoming challenge
+  IF EXISTS (
+    SELECT 1 FROM public.weekly_challenges
+    WHERE settled_at IS NULL AND start_date > CURRENT_DATE
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT t.sort_order INTO last_sort_order
+  FROM public.weekly_challenges wc
+  JOIN public.weekly_challenge_templates t ON t.id = wc.template_id
+  ORDER BY wc.start_date DESC, wc.created_at DESC
+  LIMIT 1;
+
+  SELECT * INTO template
+  FROM public.weekly_challenge_templates
+  WHERE is_active = true
+  ORDER BY (sort_order <= COALESCE(last_sort_order, -1)), sort_order
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.weekly_challenges (
+    template_id, title, description, challenge_type, qualifying_actions, action_target,
+    start_date, end_date, target_participants, base_reward, completion_bonus, is_active
+  )
+  VALUES (
+    template.id, template.title, template.description, template.challenge_type,
+    template.qualifying_actions, template.action_target,
+    CURRENT_DATE, CURRENT_DATE + template.duration_days,
+    template.target_participants, template.base_reward, template.completion_bonus, true
+  )
+  RETURNING * INTO next_challenge;
+
+  RETURN to_jsonb(next_challenge);
+END;
+$$;
+
+-- Pay completion bonuses for every challenge past its end_date, close it and
+-- roll over to the next one. Safe to run repeatedly.
+CREATE OR REPLACE FUNCTION public.settle_weekly_challenges()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  challenge public.weekly_challenges%ROWTYPE;
+  participant public.user_challenge_participation%ROWTYPE;
+  goal_met BOOLEAN;
+  bonuses_paid INTEGER;
+  settled JSONB := '[]';
+BEGIN
+  FOR challenge IN
+    SELECT * FROM public.weekly_challenges
+    WHERE settled_at IS NULL AND end_date <= CURRENT_DATE
+    ORDER BY end_date
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    goal_met := challenge.target_participants IS NULL
+      OR COALESCE(challenge.current_participants, 0) >= challenge.target_participants;
+    bonuses_paid := 0;
+
+    IF goal_met AND challenge.completion_bonus > 0 THEN
+      FOR participant IN
+        SELECT * FROM public.user_challenge_participation
+        WHERE challenge_id = challenge.id
+          AND completed_at IS NOT NULL
+          AND bonus_awarded_at IS NULL
+      LOOP
+        PERFORM public.apply_light_transaction(
+          participant.user_id, 'weekly_challenge_bonus', challenge.completion_bonus,
+          challenge.id, 'weekly_challenge',
+          jsonb_build_object(
+            'challenge_title', challenge.title,
+            'actions_completed', participant.actions_completed
+          )
+        );
+
+        UPDATE public.user_challenge_participation
+        SET bonus_awarded_at = now(),
+            light_earned = COALESCE(light_earned, 0) + challenge.completion_bonus
+        WHERE id = participant.id;
+
+        bonuses_paid := bonuses_paid + 1;
+      END LOOP;
+    END IF;
+
+    UPDATE public.weekly_challenges
+    SET is_active = false,
+        goal_reached = goal_met,
+        settled_at = now()
+    WHERE id = challenge.id;
+
+    settled := settled || jsonb_build_array(jsonb_build_object(
+      'id', challenge.id,
+      'title', challenge.title,
+      'goal_reached', goal_met,
+      'bonuses_paid', bonuses_paid
+    ));
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'settled', settled,
+    'activated', public.activate_next_weekly_challenge()
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.join_weekly_challenge(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.join_weekly_challenge(UUID) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.count_weekly_challenge_action() FROM PUBLIC, anon, authenticated;
+
+REVOKE ALL ON FUNCTION public.activate_next_weekly_challenge() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.activate_next_weekly_challenge() TO service_role;
+
+REVOKE ALL ON FUNCTION public.settle_weekly_challenges() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.settle_weekly_challenges() TO service_role;
+
+-- Settle shortly after midnight so bonuses land on the end_date
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'settle-weekly-challenges',
+  '5 0 * * *',
+  'SELECT public.settle_weekly_challenges()'
+);
+
+-- Close out the seeded challenge if it has already ended and start the rotation
+SELECT public.settle_weekly_challenges();
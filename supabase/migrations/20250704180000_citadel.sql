@@ -0,0 +1,258 @@
+-- Citadel community build
+-- Users pool Light into shared citadel_upgrades with contribute_to_citadel(),
+-- which deducts the Light through the ledger and levels the upgrade up each
+-- time its pooled progress reaches cost. Upgrade levels grant community-wide
+-- perks described by citadel_upgrades.perk; award_light reads them to raise
+-- daily action caps for everyone.
+
+ALTER TABLE public.citadel_upgrades
+  ADD COLUMN progress_light INTEGER NOT NULL DEFAULT 0, -- Light pooled toward the next level
+  ADD COLUMN perk JSONB NOT NULL DEFAULT '{}', -- e.g. {"type": "action_limit", "action_types": [...], "per_level": 1}
+  ADD COLUMN last_leveled_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.citadel_upgrades SET perk = '{"type": "action_limit", "action_types": ["beacon_hope", "reinforce_resistance"], "per_level": 1}'
+WHERE name = 'Beacon Tower';
+UPDATE public.citadel_upgrades SET perk = '{"type": "action_limit", "action_types": ["expose_deceit"], "per_level": 2}'
+WHERE name = 'Research Archive';
+UPDATE public.citadel_upgrades SET perk = '{"type": "action_limit", "action_types": ["silence_whispers"], "per_level": 2}'
+WHERE name = 'Alert System';
+UPDATE public.citadel_upgrades SET perk = '{"type": "action_limit", "action_types": ["forge_alliance"], "per_level": 1}'
+WHERE name = 'Connection Hub';
+
+CREATE INDEX idx_user_citadel_contributions_upgrade ON public.user_citadel_contributions(upgrade_id, user_id);
+
+-- Contributions are written by contribute_to_citadel() only
+DROP POLICY IF EXISTS "Users can make their own contributions" ON public.user_citadel_contributions;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.citadel_upgrades;
+
+-- Extra daily uses of an action granted by unlocked citadel upgrades
+CREATE OR REPLACE FUNCTION public.citadel_action_limit_bonus(p_action_type TEXT)
+RETURNS INTEGER
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT COALESCE(SUM(COALESCE(current_level, 0) * COALESCE((perk ->> 'per_level')::INTEGER, 0)), 0)::INTEGER
+  FROM public.citadel_upgrades
+  WHERE is_active = true
+    AND perk ->> 'type' = 'action_limit'
+    AND perk -> 'action_types' ? p_action_type;
+$$;
+
+-- Daily caps per action after citadel perks, used by the client to show limits
+CREATE OR REPLACE FUNCTION public.effective_action_limits()
+RETURNS TABLE (
+  action_type TEXT,
+  max_points INTEGER,
+  daily_limit INTEGER,
+  daily_light_cap INTEGER,
+  citadel_bonus INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    r.action_type,
+    r.max_points,
+    r.daily_limit + b.bonus,
+    r.daily_light_cap + b.bonus * r.max_points,
+    b.bonus
+  FROM public.light_action_rules r
+  CROSS JOIN LATERAL (SELECT public.citadel_action_limit_bonus(r.action_type) AS bonus) b
+  WHERE r.is_active = true;
+$$;
+
+-- Spend Light on a citadel upgrade. The amount is capped at what the upgrade
+-- still needs to reach max_level.
+CREATE OR REPLACE FUNCTION public.contribute_to_citadel(
+  p_upgrade_id UUID,
+  p_amount INTEGER
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  upgrade public.citadel_upgrades%ROWTYPE;
+  available_light INTEGER;
+  remaining INTEGER;
+  spent INTEGER;
+  levels_gained INTEGER;
+  ledger_result JSONB;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'Contribution must be positive' USING ERRCODE = '22023';
+  END IF;
+
+  -- Lock the upgrade so concurrent contributions level it up exactly once
+  SELECT * INTO upgrade
+  FROM public.citadel_upgrades
+  WHERE id = p_upgrade_id AND is_active = true
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Upgrade not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  remaining := (COALESCE(upgrade.max_level, 0) - COALESCE(upgrade.current_level, 0)) * upgrade.cost
+    - upgrade.progress_light;
+
+  IF remaining <= 0 THEN
+    RAISE EXCEPTION '% is already at its maximum level', upgrade.name USING ERRCODE = 'P0001';
+  END IF;
+
+  spent := LEAST(p_amount, remaining);
+
+  SELECT total_light INTO available_light
+  FROM public.user_tiers
+  WHERE user_id = caller_id
+  FOR UPDATE;
+
+  IF COALESCE(available_light, 0) < spent THEN
+    RAISE EXCEPTION 'Not enough Light' USING ERRCODE = 'P0001';
+  END IF;
+
+  ledger_result := public.apply_light_transaction(
+    caller_id, 'citadel_contribution', -spent, upgrade.id, 'citadel_upgrade',
+    jsonb_build_object('upgrade_name', upgrade.name)
+  );
+
+  INSERT INTO public.user_citadel_contributions (user_id, upgrade_id, light_spent)
+  VALUES (caller_id, upgrade.id, spent);
+
+  levels_gained := (upgrade.progress_light + spent) / upgrade.cost;
+
+  UPDATE public.citadel_upgrades
+  SET current_level = COALESCE(current_level, 0) + levels_gained,
+      progress_light = (progress_light + spent) - levels_gained * cost,
+      last_leveled_at = CASE WHEN levels_gained > 0 THEN now() ELSE last_leveled_at END
+  WHERE id = upgrade.id
+  RETURNING * INTO upgrade;
+
+  RETURN ledger_result || jsonb_build_object(
+    'light_spent', spent,
+    'levels_gained', levels_gained,
+    'upgrade', to_jsonb(upgrade)
+  );
+END;
+$$;
+
+-- Top contributors to an upgrade
+CREATE OR REPLACE FUNCTION public.citadel_leaderboard(
+  p_upgrade_id UUID,
+  p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  user_id UUID,
+  display_name TEXT,
+  light_spent BIGINT,
+  contributions BIGINT,
+  last_contributed_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT
+    c.user_id,
+    COALESCE(p.display_name, 'Anonymous Fighter'),
+    SUM(c.light_spent),
+    COUNT(*),
+    MAX(c.contributed_at)
+  FROM public.user_citadel_contributions c
+  LEFT JOIN public.profiles p ON p.user_id = c.user_id
+  WHERE c.upgrade_id = p_upgrade_id
+  GROUP BY c.user_id, p.display_name
+  ORDER BY SUM(c.light_spent) DESC, MAX(c.contributed_at) ASC
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 10), 1), 100);
+$$;
+
+-- award_light now adds citadel perks to the daily caps
+CREATE OR REPLACE FUNCTION public.award_light(
+  p_action_type TEXT,
+  p_points_amount INTEGER,
+  p_source_id UUID DEFAULT NULL,
+  p_source_type TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  rule public.light_action_rules%ROWTYPE;
+  awarded INTEGER := p_points_amount;
+  citadel_bonus INTEGER;
+  today_count INTEGER;
+  today_light INTEGER;
+  ledger_result JSONB;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Achievement rewards are paid by evaluate_achievements()
+  IF p_action_type = 'achievement_unlock' THEN
+    RAISE EXCEPTION 'Achievement rewards are awarded automatically' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO rule
+  FROM public.light_action_rules
+  WHERE action_type = p_action_type AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown action type: %', p_action_type USING ERRCODE = '22023';
+  END IF;
+
+  IF awarded IS NULL OR awarded <= 0 OR awarded > rule.max_points THEN
+    RAISE EXCEPTION 'Invalid Light amount % for %', awarded, p_action_type USING ERRCODE = '22023';
+  END IF;
+
+  -- Each extra daily use granted by the citadel also raises the Light cap by one award
+  citadel_bonus := public.citadel_action_limit_bonus(p_action_type);
+
+  PERFORM pg_advisory_xact_lock(hashtext(caller_id::text));
+
+  SELECT COUNT(*), COALESCE(SUM(points_amount), 0)
+  INTO today_count, today_light
+  FROM public.points_transactions
+  WHERE user_id = caller_id
+    AND action_type = p_action_type
+    AND created_at >= date_trunc('day', now());
+
+  IF rule.daily_limit IS NOT NULL AND today_count >= rule.daily_limit + citadel_bonus THEN
+    RAISE EXCEPTION 'Daily limit reached for %', p_action_type USING ERRCODE = 'P0001';
+  END IF;
+
+  IF rule.daily_light_cap IS NOT NULL THEN
+    awarded := LEAST(awarded, rule.daily_light_cap + citadel_bonus * rule.max_points - today_light);
+    IF awarded <= 0 THEN
+      RAISE EXCEPTION 'Daily Light cap reached for %', p_action_type USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  ledger_result := public.apply_light_transaction(
+    caller_id, p_action_type, awarded, p_source_id, p_source_type, p_metadata
+  );
+
+  RETURN ledger_result || jsonb_build_object(
+    'unlocked_achievements', public.evaluate_achievements(caller_id)
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.contribute_to_citadel(UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.contribute_to_citadel(UUID, INTEGER) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.citadel_leaderboard(UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.citadel_leaderboard(UUID, INTEGER) TO authenticated;
+
+GRANT EXECUTE ON FUNCTION public.effective_action_limits() TO anon, authenticated;
@@ -0,0 +1,312 @@
+-- Mutual match lifecycle
+-- A match is a connection request from user1 (requester) to user2 (recipient).
+-- request_match() creates it as 'pending'; the recipient moves it to 'accepted'
+-- or 'declined' with respond_to_match(), and either side can 'block' at any time.
+-- Who set a block is kept in user_blocks, which only the blocker can read.
+-- There is at most one row per unordered user pair, and last_interaction_at is
+-- kept current by triggers.
+
+-- Merge duplicate pairs (A→B and B→A, or repeated requests) into the oldest row
+WITH ranked AS (
+  SELECT
+    id,
+    FIRST_VALUE(id) OVER (
+      PARTITION BY LEAST(user1_id, user2_id), GREATEST(user1_id, user2_id)
+      ORDER BY created_at NULLS LAST, id
+    ) AS keep_id
+  FROM public.matches
+)
+UPDATE public.monster_journal_entries j
+SET match_id = ranked.keep_id
+FROM ranked
+WHERE j.match_id = ranked.id AND ranked.id <> ranked.keep_id;
+
+-- Carry the most advanced status over to the row that is kept
+WITH ranked AS (
+  SELECT
+    id,
+    FIRST_VALUE(id) OVER (
+      PARTITION BY LEAST(user1_id, user2_id), GREATEST(user1_id, user2_id)
+      ORDER BY created_at NULLS LAST, id
+    ) AS keep_id,
+    connection_status
+  FROM public.matches
+),
+best AS (
+  SELECT keep_id,
+    (ARRAY_AGG(connection_status ORDER BY CASE connection_status
+      WHEN 'blocked' THEN 1 WHEN 'accepted' THEN 2 WHEN 'declined' THEN 3 ELSE 4 END))[1] AS status
+  FROM ranked
+  GROUP BY keep_id
+)
+UPDATE public.matches m
+SET connection_status = best.status
+FROM best
+WHERE m.id = best.keep_id;
+
+DELETE FROM public.matches m
+USING public.matches keep
+WHERE LEAST(m.user1_id, m.user2_id) = LEAST(keep.user1_id, keep.user2_id)
+  AND GREATEST(m.user1_id, m.user2_id) = GREATEST(keep.user1_id, keep.user2_id)
+  AND (COALESCE(keep.created_at, 'infinity'), keep.id) < (COALESCE(m.created_at, 'infinity'), m.id);
+
+DELETE FROM public.matches WHERE user1_id = user2_id;
+
+UPDATE public.matches
+SET connection_status = 'pending'
+WHERE connection_status IS NULL
+  OR connection_status NOT IN ('pending', 'accepted', 'declined', 'blocked');
+
+ALTER TABLE public.matches
+  ALTER COLUMN connection_status SET NOT NULL,
+  ALTER COLUMN connection_status SET DEFAULT 'pending',
+  ADD CONSTRAINT matches_connection_status_check
+    CHECK (connection_status IN ('pending', 'accepted', 'declined', 'blocked')),
+  ADD CONSTRAINT matches_distinct_users CHECK (user1_id <> user2_id),
+  ADD COLUMN responded_at TIMESTAMP WITH TIME ZONE;
+
+-- Blocks by user. Both people can block each other; the match stays blocked
+-- until neither does.
+CREATE TABLE public.user_blocks (
+  blocker_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  blocked_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (blocker_id, blocked_id),
+  CONSTRAINT user_blocks_distinct_users CHECK (blocker_id <> blocked_id)
+);
+
+ALTER TABLE public.user_blocks ENABLE ROW LEVEL SECURITY;
+
+-- Written by the block RPCs only
+CREATE POLICY "Users can view the blocks they set"
+ON public.user_blocks
+FOR SELECT
+USING (auth.uid() = blocker_id);
+
+UPDATE public.matches
+SET last_interaction_at = COALESCE(last_interaction_at, created_at, now());
+
+ALTER TABLE public.matches
+  ALTER COLUMN last_interaction_at SET DEFAULT now();
+
+-- One row per pair regardless of who asked first
+ALTER TABLE public.matches DROP CONSTRAINT IF EXISTS unique_match;
+CREATE UNIQUE INDEX matches_unordered_pair_key
+  ON public.matches (LEAST(user1_id, user2_id), GREATEST(user1_id, user2_id));
+
+CREATE INDEX idx_matches_user2_status ON public.matches(user2_id, connection_status);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.matches;
+
+-- Any change to a match counts as an interaction
+CREATE OR REPLACE FUNCTION public.touch_match_on_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  NEW.last_interaction_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_match_on_update
+BEFORE UPDATE ON public.matches
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_match_on_update();
+
+-- Activity attached to a match (journal entries, messages) bumps its parent
+CREATE OR REPLACE FUNCTION public.touch_match_interaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.matches
+  SET last_interaction_at = now()
+  WHERE id = NEW.match_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER touch_match_on_journal_entry
+AFTER INSERT ON public.monster_journal_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_match_interaction();
+
+-- Send a connection request. Requesting someone who already asked you accepts
+-- their request; repeating your own request returns the existing match.
+CREATE OR REPLACE FUNCTION public.request_match(
+  p_target_user_id UUID,
+  p_compatibility_score NUMERIC DEFAULT NULL,
+  p_match_reason TEXT[] DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  match_row public.matches%ROWTYPE;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF p_target_user_id IS NULL OR p_target_user_id = caller_id THEN
+    RAISE EXCEPTION 'Invalid connection target' USING ERRCODE = '22023';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE user_id = p_target_user_id) THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Serialize requests for the pair so both sides can't insert at once
+  PERFORM pg_advisory_xact_lock(hashtext(LEAST(caller_id, p_target_user_id)::text || GREATEST(caller_id, p_target_user_id)::text));
+
+  SELECT * INTO match_row
+  FROM public.matches
+  WHERE LEAST(user1_id, user2_id) = LEAST(caller_id, p_target_user_id)
+    AND GREATEST(user1_id, user2_id) = GREATEST(caller_id, p_target_user_id)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.matches (user1_id, user2_id, compatibility_score, match_reason, connection_status)
+    VALUES (caller_id, p_target_user_id, p_compatibility_score, p_match_reason, 'pending')
+    RETURNING * INTO match_row;
+
+    RETURN to_jsonb(match_row) || jsonb_build_object('created', true);
+  END IF;
+
+  CASE match_row.connection_status
+    WHEN 'blocked' THEN
+      -- Don't reveal who blocked whom
+      RAISE EXCEPTION 'Connection unavailable' USING ERRCODE = '42501';
+
+    WHEN 'pending' THEN
+      IF match_row.user2_id = caller_id THEN
+        RETURN public.respond_to_match(match_row.id, 'accepted');
+      END IF;
+
+    WHEN 'declined' THEN
+      IF match_row.user1_id = caller_id THEN
+        RAISE EXCEPTION 'This connection request was declined' USING ERRCODE = 'P0001';
+      END IF;
+
+      -- The person who declined has changed their mind: it becomes their request
+      UPDATE public.matches
+      SET user1_id = caller_id,
+          user2_id = p_target_user_id,
+          connection_status = 'pending',
+          compatibility_score = COALESCE(p_compatibility_score, compatibility_score),
+          match_reason = COALESCE(p_match_reason, match_reason),
+          responded_at = NULL
+      WHERE id = match_row.id
+      RETURNING * INTO match_row;
+
+    ELSE
+      NULL; -- Already accepted
+  END CASE;
+
+  RETURN to_jsonb(match_row) || jsonb_build_object('created', false);
+END;
+$$;
+
+-- Move a match through its lifecycle. Only the recipient can accept or decline
+-- a pending request; either side can block.
+CREATE OR REPLACE FUNCTION public.respond_to_match(
+  p_match_id BIGINT,
+  p_response TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  match_row public.matches%ROWTYPE;
+  other_id UUID;
+  alliance_light INTEGER;
+  unlocked JSONB := '[]';
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF p_response NOT IN ('accepted', 'declined', 'blocked') THEN
+    RAISE EXCEPTION 'Invalid response: %', p_response USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO match_row
+  FROM public.matches
+  WHERE id = p_match_id AND (user1_id = caller_id OR user2_id = caller_id)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Match not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  other_id := CASE WHEN match_row.user1_id = caller_id THEN match_row.user2_id ELSE match_row.user1_id END;
+
+  IF match_row.connection_status = 'blocked' THEN
+    RAISE EXCEPTION 'Connection unavailable' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_response = 'blocked' THEN
+    INSERT INTO public.user_blocks (blocker_id, blocked_id)
+    VALUES (caller_id, other_id)
+    ON CONFLICT DO NOTHING;
+
+    UPDATE public.matches
+    SET connection_status = 'blocked', responded_at = now()
+    WHERE id = p_match_id
+    RETURNING * INTO match_row;
+
+    RETURN to_jsonb(match_row);
+  END IF;
+
+  IF match_row.connection_status <> 'pending' THEN
+    RAISE EXCEPTION 'Request is already %', match_row.connection_status USING ERRCODE = 'P0001';
+  END IF;
+
+  IF match_row.user2_id <> caller_id THEN
+    RAISE EXCEPTION 'Only the recipient can respond to a request' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE public.matches
+  SET connection_status = p_response, responded_at = now()
+  WHERE id = p_match_id
+  RETURNING * INTO match_row;
+
+  -- Both sides forge the alliance; pay them and refresh achievements
+  IF p_response = 'accepted' THEN
+    SELECT max_points INTO alliance_light
+    FROM public.light_action_rules
+    WHERE action_type = 'forge_alliance' AND is_active = true;
+
+    IF COALESCE(alliance_light, 0) > 0 THEN
+      PERFORM public.apply_light_transaction(
+        caller_id, 'forge_alliance', alliance_light, NULL, 'match',
+        jsonb_build_object('match_id', match_row.id, 'target_user_id', other_id)
+      );
+      PERFORM public.apply_light_transaction(
+        other_id, 'forge_alliance', alliance_light, NULL, 'match',
+        jsonb_build_object('match_id', match_row.id, 'target_user_id', caller_id)
+      );
+    END IF;
+
+    PERFORM public.evaluate_achievements(other_id);
+    unlocked := public.evaluate_achievements(caller_id);
+  END IF;
+
+  RETURN to_jsonb(match_row) || jsonb_build_object('unlocked_achievements', unlocked);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.request_match(UUID, NUMERIC, TEXT[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.request_match(UUID, NUMERIC, TEXT[]) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.respond_to_match(BIGINT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.respond_to_match(BIGINT, TEXT) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.touch_match_interaction() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,132 @@
+-- Shared monster journal per match
+-- Both people in an accepted match can post to its journal and edit or delete
+-- their own entries. Read positions are kept in monster_journal_reads so the
+-- Connections list can flag journals with unread entries.
+
+ALTER TABLE public.monster_journal_entries
+  ADD COLUMN author_id UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(), -- NULL for generated entries
+  ADD COLUMN updated_at TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT monster_journal_entries_text_length
+    CHECK (char_length(btrim(entry_text)) BETWEEN 1 AND 4000) NOT VALID;
+
+CREATE INDEX idx_monster_journal_entries_match ON public.monster_journal_entries(match_id, created_at);
+
+CREATE POLICY "Users can write to journals of their accepted matches"
+ON public.monster_journal_entries
+FOR INSERT
+WITH CHECK (
+  author_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.matches
+    WHERE matches.id = monster_journal_entries.match_id
+      AND matches.connection_status = 'accepted'
+      AND (matches.user1_id = auth.uid() OR matches.user2_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can edit their own journal entries"
+ON public.monster_journal_entries
+FOR UPDATE
+USING (author_id = auth.uid())
+WITH CHECK (
+  author_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.matches
+    WHERE matches.id = monster_journal_entries.match_id
+      AND matches.connection_status = 'accepted'
+  )
+);
+
+CREATE POLICY "Users can delete their own journal entries"
+ON public.monster_journal_entries
+FOR DELETE
+USING (author_id = auth.uid());
+
+-- Edits may only change the text
+CREATE OR REPLACE FUNCTION public.protect_journal_entry_update()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  NEW.match_id := OLD.match_id;
+  NEW.author_id := OLD.author_id;
+  NEW.created_at := OLD.created_at;
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_journal_entry_update
+BEFORE UPDATE ON public.monster_journal_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_journal_entry_update();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.monster_journal_entries;
+
+-- How far each user has read a match's journal
+CREATE TABLE public.monster_journal_reads (
+  match_id BIGINT NOT NULL REFERENCES public.matches(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  last_read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (match_id, user_id)
+);
+
+ALTER TABLE public.monster_journal_reads ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own journal read positions"
+ON public.monster_journal_reads
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Mark a match's journal as read up to now
+CREATE OR REPLACE FUNCTION public.mark_journal_read(p_match_id BIGINT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.matches
+    WHERE id = p_match_id AND (user1_id = caller_id OR user2_id = caller_id)
+  ) THEN
+    RAISE EXCEPTION 'Match not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.monster_journal_reads (match_id, user_id, last_read_at)
+  VALUES (p_match_id, caller_id, now())
+  ON CONFLICT (match_id, user_id) DO UPDATE SET last_read_at = EXCLUDED.last_read_at;
+END;
+$$;
+
+-- Entries from the other person the caller hasn't read yet, per accepted match
+CREATE OR REPLACE FUNCTION public.journal_unread_counts()
+RETURNS TABLE (match_id BIGINT, unread_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT m.id, COUNT(e.id)
+  FROM public.matches m
+  LEFT JOIN public.monster_journal_reads r
+    ON r.match_id = m.id AND r.user_id = auth.uid()
+  JOIN public.monster_journal_entries e
+    ON e.match_id = m.id
+   AND e.author_id IS DISTINCT FROM auth.uid()
+   AND e.created_at > COALESCE(r.last_read_at, '-infinity')
+  WHERE m.connection_status = 'accepted'
+    AND (m.user1_id = auth.uid() OR m.user2_id = auth.uid())
+  GROUP BY m.id;
+$$;
+
+REVOKE ALL ON FUNCTION public.mark_journal_read(BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_journal_read(BIGINT) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.journal_unread_counts() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.journal_unread_counts() TO authenticated;
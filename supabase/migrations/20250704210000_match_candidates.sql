@@ -0,0 +1,108 @@
+-- Server-side match scoring and candidate search
+-- Candidates are ranked in the database with the same weighted overlap score
+-- the Connections page used to compute in the browser. Only public profile
+-- fields leave the database, and users the caller is already matched with or
+-- has blocked (in either direction) are left out.
+
+-- Overlap between two lists as a 0-100 percentage, or NULL when either is empty
+CREATE OR REPLACE FUNCTION public.match_overlap_score(p_mine TEXT[], p_theirs TEXT[])
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT CASE
+    WHEN COALESCE(cardinality(p_mine), 0) = 0 OR COALESCE(cardinality(p_theirs), 0) = 0 THEN NULL
+    ELSE (SELECT COUNT(*) FROM unnest(p_mine) AS item WHERE item = ANY(p_theirs)) * 100.0
+      / GREATEST(cardinality(p_mine), cardinality(p_theirs))
+  END;
+$$;
+
+-- Page through people the caller could connect with, best matches first.
+-- A request the caller declined doesn't hide its sender, so they can change
+-- their mind and connect after all.
+CREATE OR REPLACE FUNCTION public.search_match_candidates(
+  p_min_score INTEGER DEFAULT 0,
+  p_shared_symptom TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  user_id UUID,
+  display_name TEXT,
+  username TEXT,
+  bio TEXT,
+  monster_keywords TEXT[],
+  shared_keywords TEXT[],
+  shared_symptoms TEXT[],
+  match_score INTEGER,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  WITH viewer AS (
+    SELECT * FROM public.profiles
+    WHERE user_id = auth.uid() AND monster_keywords IS NOT NULL
+  ),
+  scored AS (
+    SELECT
+      p.user_id,
+      p.display_name,
+      p.username,
+      p.bio,
+      p.monster_keywords,
+      ARRAY(SELECT k FROM unnest(v.monster_keywords) AS k WHERE k = ANY(p.monster_keywords)) AS shared_keywords,
+      ARRAY(SELECT s FROM unnest(v.symptoms) AS s WHERE s = ANY(p.symptoms)) AS shared_symptoms,
+      -- Weights: keywords 40%, symptoms 25%, likes 20%, dislikes 15%, over the dimensions both filled in
+      COALESCE(ROUND(
+        (COALESCE(d.keywords * 0.4, 0) + COALESCE(d.symptoms * 0.25, 0)
+          + COALESCE(d.likes * 0.2, 0) + COALESCE(d.dislikes * 0.15, 0))
+        / NULLIF(
+          CASE WHEN d.keywords IS NULL THEN 0 ELSE 0.4 END
+          + CASE WHEN d.symptoms IS NULL THEN 0 ELSE 0.25 END
+          + CASE WHEN d.likes IS NULL THEN 0 ELSE 0.2 END
+          + CASE WHEN d.dislikes IS NULL THEN 0 ELSE 0.15 END,
+          0)
+      ), 0)::INTEGER AS match_score
+    FROM viewer v
+    JOIN public.profiles p
+      ON p.user_id <> v.user_id AND p.monster_keywords IS NOT NULL
+    CROSS JOIN LATERAL (
+      SELECT
+        public.match_overlap_score(v.monster_keywords, p.monster_keywords) AS keywords,
+        public.match_overlap_score(v.symptoms, p.symptoms) AS symptoms,
+        public.match_overlap_score(v.likes, p.likes) AS likes,
+        public.match_overlap_score(v.dislikes, p.dislikes) AS dislikes
+    ) d
+    WHERE NOT EXISTS (
+        SELECT 1 FROM public.matches m
+        WHERE LEAST(m.user1_id, m.user2_id) = LEAST(v.user_id, p.user_id)
+          AND GREATEST(m.user1_id, m.user2_id) = GREATEST(v.user_id, p.user_id)
+          AND NOT (m.connection_status = 'declined' AND m.user2_id = v.user_id)
+      )
+      AND (
+        p_shared_symptom IS NULL
+        OR (p_shared_symptom = ANY(p.symptoms) AND p_shared_symptom = ANY(v.symptoms))
+      )
+  )
+  SELECT
+    scored.user_id,
+    scored.display_name,
+    scored.username,
+    scored.bio,
+    scored.monster_keywords,
+    scored.shared_keywords,
+    scored.shared_symptoms,
+    scored.match_score,
+    COUNT(*) OVER ()
+  FROM scored
+  WHERE scored.match_score >= COALESCE(p_min_score, 0)
+  ORDER BY scored.match_score DESC, scored.user_id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+$$;
+
+REVOKE ALL ON FUNCTION public.search_match_candidates(INTEGER, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.search_match_candidates(INTEGER, TEXT, INTEGER, INTEGER) TO authenticated;
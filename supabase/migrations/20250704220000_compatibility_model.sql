@@ -0,0 +1,259 @@
+-- Configurable compatibility model
+-- Each row of compatibility_dimensions compares one aspect of two profiles.
+-- 'jaccard' dimensions measure how much the listed profile fields overlap and
+-- are averaged by weight over the dimensions both people filled in.
+-- 'complementary' dimensions add a bonus of up to `weight` points when the
+-- other person has found relief for something the viewer lists in `fields`.
+-- Private dimensions hold health details: their overlap is only returned as a
+-- count unless the caller asks to reveal it (once a match has been accepted).
+
+CREATE TABLE public.compatibility_dimensions (
+  key TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  description TEXT,
+  method TEXT NOT NULL CHECK (method IN ('jaccard', 'complementary')),
+  fields TEXT[] NOT NULL, -- profiles columns, text or text[]
+  weight NUMERIC NOT NULL CHECK (weight >= 0),
+  is_private BOOLEAN NOT NULL DEFAULT false, -- Shared values hidden until a match is accepted
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.compatibility_dimensions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view compatibility dimensions"
+ON public.compatibility_dimensions
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_compatibility_dimensions_updated_at
+BEFORE UPDATE ON public.compatibility_dimensions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.compatibility_dimensions (key, label, description, method, fields, weight, is_private, sort_order) VALUES
+  ('monster_keywords', 'Monster Traits', 'Traits your monsters share', 'jaccard', ARRAY['monster_keywords'], 0.25, false, 1),
+  ('symptoms', 'Symptoms', 'Symptoms you both live with', 'jaccard', ARRAY['symptoms', 'primary_symptoms', 'secondary_symptoms'], 0.20, false, 2),
+  ('strategies', 'What Helps', 'Supplements, medications and safe foods that work for you both', 'jaccard', ARRAY['helpful_supplements', 'helpful_medications', 'safe_foods'], 0.15, true, 3),
+  ('triggers', 'Triggers', 'Foods, weather, environment and stress that set you both off', 'jaccard', ARRAY['trigger_foods', 'weather_triggers', 'environmental_triggers', 'stress_triggers'], 0.10, true, 4),
+  ('likes', 'Likes', 'Things you both enjoy', 'jaccard', ARRAY['likes'], 0.10, false, 5),
+  ('dislikes', 'Dislikes', 'Things you both avoid', 'jaccard', ARRAY['dislikes'], 0.05, false, 6),
+  ('diagnoses', 'Diagnoses', 'Diagnoses you have both been given', 'jaccard', ARRAY['previous_diagnoses'], 0.05, true, 7),
+  ('climate', 'Climate', 'Living in the same kind of climate', 'jaccard', ARRAY['climate_type'], 0.05, false, 8),
+  ('condition_duration', 'Time with Condition', 'Living with the condition for a similar time', 'jaccard', ARRAY['condition_duration'], 0.05, false, 9),
+  ('relief', 'Relief They Found', 'They shared a strategy that works for one of your symptoms', 'complementary', ARRAY['symptoms', 'primary_symptoms', 'secondary_symptoms'], 15, false, 10);
+
+-- Distinct non-empty values of the given profile fields, whether text or text[]
+CREATE OR REPLACE FUNCTION public.profile_field_values(p_profile JSONB, p_fields TEXT[])
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT COALESCE(ARRAY_AGG(DISTINCT btrim(vals.value)) FILTER (WHERE btrim(vals.value) <> ''), '{}')
+  FROM unnest(p_fields) AS field
+  CROSS JOIN LATERAL (
+    SELECT jsonb_array_elements_text(p_profile -> field) AS value
+    WHERE jsonb_typeof(p_profile -> field) = 'array'
+    UNION ALL
+    SELECT p_profile ->> field
+    WHERE jsonb_typeof(p_profile -> field) = 'string'
+  ) vals;
+$$;
+
+-- Intersection over union as a 0-100 percentage, or NULL when either side is empty
+CREATE OR REPLACE FUNCTION public.jaccard_similarity(p_a TEXT[], p_b TEXT[])
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+SET search_path = ''
+AS $$
+  SELECT CASE
+    WHEN COALESCE(cardinality(p_a), 0) = 0 OR COALESCE(cardinality(p_b), 0) = 0 THEN NULL
+    ELSE (SELECT COUNT(DISTINCT item) FROM unnest(p_a) AS item WHERE item = ANY(p_b)) * 100.0
+      / (SELECT COUNT(DISTINCT item) FROM unnest(p_a || p_b) AS item)
+  END;
+$$;
+
+-- Score a candidate for a viewer with the active dimensions. Returns
+-- { score, dimensions: [{ key, label, description, method, weight, score, points, shared, shared_count }] }
+-- where `points` is the dimension's contribution to the 0-100 total. `shared` is
+-- empty for private dimensions unless p_reveal_private is set.
+CREATE OR REPLACE FUNCTION public.compatibility_breakdown(
+  p_viewer public.profiles,
+  p_candidate public.profiles,
+  p_reveal_private BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  viewer_json JSONB := to_jsonb(p_viewer);
+  candidate_json JSONB := to_jsonb(p_candidate);
+  dimension public.compatibility_dimensions%ROWTYPE;
+  mine TEXT[];
+  theirs TEXT[];
+  shared_values TEXT[];
+  dimension_score NUMERIC;
+  results JSONB := '[]';
+  similarity_sum NUMERIC := 0;
+  similarity_weight NUMERIC := 0;
+  bonus NUMERIC := 0;
+  total NUMERIC;
+BEGIN
+  FOR dimension IN
+    SELECT * FROM public.compatibility_dimensions
+    WHERE is_active = true
+    ORDER BY sort_order, key
+  LOOP
+    mine := public.profile_field_values(viewer_json, dimension.fields);
+
+    IF dimension.method = 'complementary' THEN
+      -- Symptoms of the viewer the candidate has a well-rated, public strategy for
+      SELECT COALESCE(ARRAY_AGG(DISTINCT symptom ORDER BY symptom), '{}') INTO shared_values
+      FROM unnest(mine) AS symptom
+      WHERE EXISTS (
+        SELECT 1 FROM public.relief_strategies s
+        WHERE s.user_id = p_candidate.user_id
+          AND s.is_approved = true
+          AND COALESCE(s.is_anonymous, false) = false
+          AND COALESCE(s.effectiveness_rating, 0) >= 4
+          AND symptom = ANY(s.symptom_tags)
+      );
+
+      dimension_score := CASE WHEN cardinality(mine) > 0 THEN cardinality(shared_values) * 100.0 / cardinality(mine) END;
+      bonus := bonus + COALESCE(dimension_score, 0) * dimension.weight / 100;
+    ELSE
+      theirs := public.profile_field_values(candidate_json, dimension.fields);
+      shared_values := ARRAY(SELECT item FROM unnest(mine) AS item WHERE item = ANY(theirs) ORDER BY item);
+      dimension_score := public.jaccard_similarity(mine, theirs);
+
+      IF dimension_score IS NOT NULL THEN
+        similarity_sum := similarity_sum + dimension_score * dimension.weight;
+        similarity_weight := similarity_weight + dimension.weight;
+      END IF;
+    END IF;
+
+    results := results || jsonb_build_object(
+      'key', dimension.key,
+      'label', dimension.label,
+      'description', dimension.description,
+      'method', dimension.method,
+      'weight', dimension.weight,
+      'score', ROUND(dimension_score),
+      'shared', CASE
+        WHEN dimension.is_private AND NOT p_reveal_private THEN '[]'::JSONB
+        ELSE to_jsonb(shared_values)
+      END,
+      'shared_count', cardinality(shared_values)
+    );
+  END LOOP;
+
+  total := LEAST(100, COALESCE(similarity_sum / NULLIF(similarity_weight, 0), 0) + bonus);
+
+  -- Points each dimension added to the total, for the breakdown display
+  SELECT COALESCE(jsonb_agg(
+    d || jsonb_build_object('points', COALESCE(ROUND(CASE
+      WHEN d ->> 'method' = 'complementary' THEN (d ->> 'score')::NUMERIC * (d ->> 'weight')::NUMERIC / 100
+      ELSE (d ->> 'score')::NUMERIC * (d ->> 'weight')::NUMERIC / NULLIF(similarity_weight, 0)
+    END, 1), 0))
+    ORDER BY ord
+  ), '[]')
+  INTO results
+  FROM jsonb_array_elements(results) WITH ORDINALITY AS elements(d, ord);
+
+  RETURN jsonb_build_object('score', ROUND(total)::INTEGER, 'dimensions', results);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.compatibility_breakdown(public.profiles, public.profiles, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- Candidate search now ranks with the compatibility model and returns its breakdown
+DROP FUNCTION public.search_match_candidates(INTEGER, TEXT, INTEGER, INTEGER);
+DROP FUNCTION public.match_overlap_score(TEXT[], TEXT[]);
+
+CREATE OR REPLACE FUNCTION public.search_match_candidates(
+  p_min_score INTEGER DEFAULT 0,
+  p_shared_symptom TEXT DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  user_id UUID,
+  display_name TEXT,
+  username TEXT,
+  bio TEXT,
+  monster_keywords TEXT[],
+  shared_keywords TEXT[],
+  shared_symptoms TEXT[],
+  match_score INTEGER,
+  breakdown JSONB,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  WITH viewer AS (
+    SELECT
+      p AS profile,
+      public.profile_field_values(to_jsonb(p), ARRAY['symptoms', 'primary_symptoms', 'secondary_symptoms']) AS symptoms
+    FROM public.profiles p
+    WHERE p.user_id = auth.uid() AND p.monster_keywords IS NOT NULL
+  ),
+  candidates AS (
+    SELECT
+      p AS profile,
+      public.profile_field_values(to_jsonb(p), ARRAY['symptoms', 'primary_symptoms', 'secondary_symptoms']) AS symptoms
+    FROM viewer v
+    JOIN public.profiles p
+      ON p.user_id <> (v.profile).user_id AND p.monster_keywords IS NOT NULL
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.matches m
+      WHERE LEAST(m.user1_id, m.user2_id) = LEAST((v.profile).user_id, p.user_id)
+        AND GREATEST(m.user1_id, m.user2_id) = GREATEST((v.profile).user_id, p.user_id)
+        AND NOT (m.connection_status = 'declined' AND m.user2_id = (v.profile).user_id)
+    )
+  ),
+  scored AS (
+    SELECT
+      (c.profile).user_id,
+      (c.profile).display_name,
+      (c.profile).username,
+      (c.profile).bio,
+      (c.profile).monster_keywords,
+      ARRAY(
+        SELECT k FROM unnest((v.profile).monster_keywords) AS k
+        WHERE k = ANY((c.profile).monster_keywords)
+      ) AS shared_keywords,
+      ARRAY(SELECT s FROM unnest(v.symptoms) AS s WHERE s = ANY(c.symptoms) ORDER BY s) AS shared_symptoms,
+      public.compatibility_breakdown(v.profile, c.profile) AS breakdown
+    FROM viewer v
+    CROSS JOIN candidates c
+    WHERE p_shared_symptom IS NULL
+      OR (p_shared_symptom = ANY(v.symptoms) AND p_shared_symptom = ANY(c.symptoms))
+  )
+  SELECT
+    scored.user_id,
+    scored.display_name,
+    scored.username,
+    scored.bio,
+    scored.monster_keywords,
+    scored.shared_keywords,
+    scored.shared_symptoms,
+    (scored.breakdown ->> 'score')::INTEGER,
+    scored.breakdown -> 'dimensions',
+    COUNT(*) OVER ()
+  FROM scored
+  WHERE (scored.breakdown ->> 'score')::INTEGER >= COALESCE(p_min_score, 0)
+  ORDER BY (scored.breakdown ->> 'score')::INTEGER DESC, scored.user_id
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 20), 1), 50)
+  OFFSET GREATEST(COALESCE(p_offset, 0), 0);
+$$;
+
+REVOKE ALL ON FUNCTION public.search_match_candidates(INTEGER, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.search_match_candidates(INTEGER, TEXT, INTEGER, INTEGER) TO authenticated;
@@ -0,0 +1,245 @@
+-- Match explanations
+-- matches.match_reason becomes a JSONB explanation computed by the server when
+-- a request is sent: the compatibility breakdown, what the two profiles share,
+-- and what each person could learn from the other. It is stored with the match
+-- so the explanation stays the same when profiles change later.
+-- A pending request only explains with public information: private health
+-- dimensions are counts, and learnings are limited to approved, non-anonymous
+-- strategies. The full explanation replaces it when the match is accepted.
+
+ALTER TABLE public.matches
+  ALTER COLUMN match_reason TYPE JSONB
+  USING CASE
+    WHEN match_reason IS NULL THEN NULL
+    ELSE jsonb_build_object('shared_keywords', to_jsonb(match_reason))
+  END;
+
+-- What p_learner could pick up from p_teacher: the teacher's well-rated public
+-- strategies for the learner's symptoms, then (with p_include_remedies, for
+-- accepted matches only) supplements and medications that help the teacher and
+-- that the learner hasn't tried
+CREATE OR REPLACE FUNCTION public.match_learnings(
+  p_learner public.profiles,
+  p_teacher public.profiles,
+  p_include_remedies BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  WITH learner_symptoms AS (
+    SELECT public.profile_field_values(to_jsonb(p_learner), ARRAY['symptoms', 'primary_symptoms', 'secondary_symptoms']) AS symptoms
+  ),
+  tried AS (
+    SELECT public.profile_field_values(
+      to_jsonb(p_learner),
+      ARRAY['helpful_supplements', 'unhelpful_supplements', 'helpful_medications', 'unhelpful_medications']
+    ) AS items
+  ),
+  strategies AS (
+    SELECT jsonb_build_object(
+      'kind', 'strategy',
+      'title', s.title,
+      'symptoms', to_jsonb(ARRAY(SELECT tag FROM unnest(s.symptom_tags) AS tag WHERE tag = ANY(ls.symptoms)))
+    ) AS learning
+    FROM public.relief_strategies s, learner_symptoms ls
+    WHERE s.user_id = p_teacher.user_id
+      AND s.is_approved = true
+      AND COALESCE(s.is_anonymous, false) = false
+      AND COALESCE(s.effectiveness_rating, 0) >= 4
+      AND s.symptom_tags && ls.symptoms
+    ORDER BY s.effectiveness_rating DESC, COALESCE(s.helpful_votes, 0) DESC
+    LIMIT 3
+  ),
+  remedies AS (
+    SELECT jsonb_build_object('kind', r.kind, 'title', r.title) AS learning
+    FROM (
+      SELECT 'supplement' AS kind, btrim(item) AS title, 1 AS rank
+      FROM unnest(COALESCE(p_teacher.helpful_supplements, '{}')) AS item
+      UNION ALL
+      SELECT 'medication', btrim(item), 2
+      FROM unnest(COALESCE(p_teacher.helpful_medications, '{}')) AS item
+    ) r, tried t
+    WHERE p_include_remedies AND r.title <> '' AND NOT r.title = ANY(t.items)
+    ORDER BY r.rank, r.title
+    LIMIT 3
+  )
+  SELECT COALESCE(jsonb_agg(learning), '[]')
+  FROM (
+    SELECT learning FROM strategies
+    UNION ALL
+    SELECT learning FROM remedies
+  ) learnings;
+$$;
+
+-- The explanation stored on a match. Dimension scores are from p_requester's
+-- point of view; learnings are keyed by the user who would learn them.
+-- Health details each side hasn't chosen to share are only included once
+-- p_accepted is set.
+CREATE OR REPLACE FUNCTION public.match_explanation(
+  p_requester public.profiles,
+  p_recipient public.profiles,
+  p_accepted BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  breakdown JSONB := public.compatibility_breakdown(p_requester, p_recipient, p_accepted);
+  symptom_fields TEXT[] := ARRAY['symptoms', 'primary_symptoms', 'secondary_symptoms'];
+  strategy_fields TEXT[] := ARRAY['helpful_supplements', 'helpful_medications', 'safe_foods'];
+  requester_values TEXT[];
+  recipient_values TEXT[];
+  shared_symptoms TEXT[];
+BEGIN
+  requester_values := public.profile_field_values(to_jsonb(p_requester), symptom_fields);
+  recipient_values := public.profile_field_values(to_jsonb(p_recipient), symptom_fields);
+  shared_symptoms := ARRAY(SELECT item FROM unnest(requester_values) AS item WHERE item = ANY(recipient_values) ORDER BY item);
+
+  requester_values := public.profile_field_values(to_jsonb(p_requester), strategy_fields);
+  recipient_values := public.profile_field_values(to_jsonb(p_recipient), strategy_fields);
+
+  RETURN jsonb_build_object(
+    'score', breakdown -> 'score',
+    'dimensions', breakdown -> 'dimensions',
+    'shared_keywords', to_jsonb(ARRAY(
+      SELECT k FROM unnest(COALESCE(p_requester.monster_keywords, '{}')) AS k
+      WHERE k = ANY(COALESCE(p_recipient.monster_keywords, '{}'))
+    )),
+    'shared_symptoms', to_jsonb(shared_symptoms),
+    'shared_strategies', CASE WHEN p_accepted THEN to_jsonb(ARRAY(
+      SELECT item FROM unnest(requester_values) AS item WHERE item = ANY(recipient_values) ORDER BY item
+    )) ELSE '[]'::JSONB END,
+    'learnings', jsonb_build_object(
+      p_requester.user_id::TEXT, public.match_learnings(p_requester, p_recipient, p_accepted),
+      p_recipient.user_id::TEXT, public.match_learnings(p_recipient, p_requester, p_accepted)
+    ),
+    'computed_at', now()
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.match_learnings(public.profiles, public.profiles, BOOLEAN) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.match_explanation(public.profiles, public.profiles, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- Both people agreed to connect: store the full explanation
+CREATE OR REPLACE FUNCTION public.reveal_match_explanation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  requester_profile public.profiles%ROWTYPE;
+  recipient_profile public.profiles%ROWTYPE;
+BEGIN
+  SELECT * INTO requester_profile FROM public.profiles WHERE user_id = NEW.user1_id;
+  SELECT * INTO recipient_profile FROM public.profiles WHERE user_id = NEW.user2_id;
+
+  IF requester_profile.user_id IS NOT NULL AND recipient_profile.user_id IS NOT NULL THEN
+    NEW.match_reason := public.match_explanation(requester_profile, recipient_profile, true);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reveal_match_explanation
+BEFORE UPDATE OF connection_status ON public.matches
+FOR EACH ROW
+WHEN (NEW.connection_status = 'accepted' AND OLD.connection_status IS DISTINCT FROM 'accepted')
+EXECUTE FUNCTION public.reveal_match_explanation();
+
+-- Requests no longer take a client-computed score and reason; the server
+-- scores the pair and stores the explanation itself
+DROP FUNCTION public.request_match(UUID, NUMERIC, TEXT[]);
+
+CREATE OR REPLACE FUNCTION public.request_match(p_target_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  caller_profile public.profiles%ROWTYPE;
+  target_profile public.profiles%ROWTYPE;
+  explanation JSONB;
+  match_row public.matches%ROWTYPE;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF p_target_user_id IS NULL OR p_target_user_id = caller_id THEN
+    RAISE EXCEPTION 'Invalid connection target' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO target_profile FROM public.profiles WHERE user_id = p_target_user_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'User not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT * INTO caller_profile FROM public.profiles WHERE user_id = caller_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Create your profile before connecting' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Serialize requests for the pair so both sides can't insert at once
+  PERFORM pg_advisory_xact_lock(hashtext(LEAST(caller_id, p_target_user_id)::text || GREATEST(caller_id, p_target_user_id)::text));
+
+  SELECT * INTO match_row
+  FROM public.matches
+  WHERE LEAST(user1_id, user2_id) = LEAST(caller_id, p_target_user_id)
+    AND GREATEST(user1_id, user2_id) = GREATEST(caller_id, p_target_user_id)
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    explanation := public.match_explanation(caller_profile, target_profile);
+
+    INSERT INTO public.matches (user1_id, user2_id, compatibility_score, match_reason, connection_status)
+    VALUES (caller_id, p_target_user_id, (explanation ->> 'score')::NUMERIC / 100, explanation, 'pending')
+    RETURNING * INTO match_row;
+
+    RETURN to_jsonb(match_row) || jsonb_build_object('created', true);
+  END IF;
+
+  CASE match_row.connection_status
+    WHEN 'blocked' THEN
+      -- Don't reveal who blocked whom
+      RAISE EXCEPTION 'Connection unavailable' USING ERRCODE = '42501';
+
+    WHEN 'pending' THEN
+      IF match_row.user2_id = caller_id THEN
+        RETURN public.respond_to_match(match_row.id, 'accepted');
+      END IF;
+
+    WHEN 'declined' THEN
+      IF match_row.user1_id = caller_id THEN
+        RAISE EXCEPTION 'This connection request was declined' USING ERRCODE = 'P0001';
+      END IF;
+
+      -- The person who declined has changed their mind: it becomes their request
+      explanation := public.match_explanation(caller_profile, target_profile);
+
+      UPDATE public.matches
+      SET user1_id = caller_id,
+          user2_id = p_target_user_id,
+          connection_status = 'pending',
+          compatibility_score = (explanation ->> 'score')::NUMERIC / 100,
+          match_reason = explanation,
+          responded_at = NULL
+      WHERE id = match_row.id
+      RETURNING * INTO match_row;
+
+    ELSE
+      NULL; -- Already accepted
+  END CASE;
+
+  RETURN to_jsonb(match_row) || jsonb_build_object('created', false);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.request_match(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.request_match(UUID) TO authenticated;
@@ -0,0 +1,467 @@
+-- Blocking and reporting
+-- A block is a match row in the 'blocked' state, created on demand by
+-- block_user() when the two people were never matched, plus a user_blocks row
+-- that only the blocker can see. Blocks keep people out of each other's
+-- candidate search, journals and support actions.
+-- Reports land in content_reports, the moderation queue. Once enough
+-- independent reports accumulate (report_thresholds), the content is hidden
+-- until a moderator reviews it.
+
+-- Whether either user has blocked the other
+CREATE OR REPLACE FUNCTION public.is_blocked_between(p_user_a UUID, p_user_b UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.matches
+    WHERE LEAST(user1_id, user2_id) = LEAST(p_user_a, p_user_b)
+      AND GREATEST(user1_id, user2_id) = GREATEST(p_user_a, p_user_b)
+      AND connection_status = 'blocked'
+  );
+$$;
+
+-- Block someone, whether or not you were ever matched
+CREATE OR REPLACE FUNCTION public.block_user(p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  match_row public.matches%ROWTYPE;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF p_user_id IS NULL OR p_user_id = caller_id THEN
+    RAISE EXCEPTION 'Invalid user' USING ERRCODE = '22023';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(LEAST(caller_id, p_user_id)::text || GREATEST(caller_id, p_user_id)::text));
+
+  SELECT * INTO match_row
+  FROM public.matches
+  WHERE LEAST(user1_id, user2_id) = LEAST(caller_id, p_user_id)
+    AND GREATEST(user1_id, user2_id) = GREATEST(caller_id, p_user_id)
+  FOR UPDATE;
+
+  -- Pair order, so the row doesn't show who created it
+  IF NOT FOUND THEN
+    INSERT INTO public.matches (user1_id, user2_id, connection_status, responded_at)
+    VALUES (LEAST(caller_id, p_user_id), GREATEST(caller_id, p_user_id), 'blocked', now())
+    RETURNING * INTO match_row;
+  ELSIF match_row.connection_status <> 'blocked' THEN
+    UPDATE public.matches
+    SET connection_status = 'blocked', responded_at = now()
+    WHERE id = match_row.id
+    RETURNING * INTO match_row;
+  END IF;
+
+  INSERT INTO public.user_blocks (blocker_id, blocked_id)
+  VALUES (caller_id, p_user_id)
+  ON CONFLICT DO NOTHING;
+
+  RETURN to_jsonb(match_row);
+END;
+$$;
+
+-- Lift your own block. The match becomes a request you declined, so you can
+-- reach out again but they can't until you do. If they have blocked you too,
+-- it stays blocked.
+CREATE OR REPLACE FUNCTION public.unblock_user(p_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  match_row public.matches%ROWTYPE;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext(LEAST(caller_id, p_user_id)::text || GREATEST(caller_id, p_user_id)::text));
+
+  -- respond_to_match() only holds the row lock, so take it before reading their block
+  SELECT * INTO match_row
+  FROM public.matches
+  WHERE LEAST(user1_id, user2_id) = LEAST(caller_id, p_user_id)
+    AND GREATEST(user1_id, user2_id) = GREATEST(caller_id, p_user_id)
+  FOR UPDATE;
+
+  DELETE FROM public.user_blocks
+  WHERE blocker_id = caller_id AND blocked_id = p_user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You have not blocked this user' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.user_blocks
+    WHERE blocker_id = p_user_id AND blocked_id = caller_id
+  ) THEN
+    UPDATE public.matches
+    SET user1_id = p_user_id,
+        user2_id = caller_id,
+        connection_status = 'declined',
+        responded_at = now()
+    WHERE id = match_row.id
+      AND connection_status = 'blocked'
+    RETURNING * INTO match_row;
+  END IF;
+
+  RETURN to_jsonb(match_row);
+END;
+$$;
+
+-- Journals close when either side blocks
+DROP POLICY "Users can read journal entries for their matches" ON public.monster_journal_entries;
+
+CREATE POLICY "Users can read journal entries for their matches"
+ON public.monster_journal_entries
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.matches
+    WHERE matches.id = monster_journal_entries.match_id
+      AND matches.connection_status <> 'blocked'
+      AND (matches.user1_id = auth.uid() OR matches.user2_id = auth.uid())
+  )
+);
+
+-- Support actions can't target someone on either side of a block
+CREATE OR REPLACE FUNCTION public.reject_blocked_support_target()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  target_id UUID;
+BEGIN
+  IF TG_TABLE_NAME = 'points_transactions' THEN
+    -- Metadata comes from clients, so ignore anything that isn't a user id
+    IF NEW.metadata ->> 'target_user_id' ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+      target_id := (NEW.metadata ->> 'target_user_id')::UUID;
+    END IF;
+  ELSE
+    target_id := NEW.target_user_id;
+  END IF;
+
+  IF target_id IS NOT NULL AND public.is_blocked_between(NEW.user_id, target_id) THEN
+    RAISE EXCEPTION 'Action unavailable for this user' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reject_blocked_support_target
+BEFORE INSERT OR UPDATE OF target_user_id ON public.community_actions
+FOR EACH ROW
+EXECUTE FUNCTION public.reject_blocked_support_target();
+
+CREATE TRIGGER reject_blocked_support_target
+BEFORE INSERT ON public.points_transactions
+FOR EACH ROW
+WHEN (NEW.metadata ? 'target_user_id')
+EXECUTE FUNCTION public.reject_blocked_support_target();
+
+-- Likes and comments can't reach content owned by someone on either side of a block
+CREATE OR REPLACE FUNCTION public.reject_blocked_interaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  owner_id UUID;
+BEGIN
+  owner_id := CASE NEW.target_type
+    WHEN 'relief_strategy' THEN (SELECT user_id FROM public.relief_strategies WHERE id = NEW.target_id)
+    WHEN 'challenge_share' THEN (SELECT shared_by_user_id FROM public.challenge_shares WHERE id = NEW.target_id)
+    WHEN 'profile' THEN (SELECT user_id FROM public.profiles WHERE id = NEW.target_id)
+  END;
+
+  IF owner_id IS NOT NULL AND public.is_blocked_between(NEW.user_id, owner_id) THEN
+    RAISE EXCEPTION 'Action unavailable for this user' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER reject_blocked_interaction
+BEFORE INSERT ON public.community_interactions
+FOR EACH ROW
+EXECUTE FUNCTION public.reject_blocked_interaction();
+
+-- Reports
+ALTER TABLE public.relief_strategies
+  ADD COLUMN is_hidden BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN hidden_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.community_interactions
+  ADD COLUMN is_hidden BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN hidden_at TIMESTAMP WITH TIME ZONE;
+
+DROP POLICY "Users can view approved strategies" ON public.relief_strategies;
+
+CREATE POLICY "Users can view approved strategies"
+ON public.relief_strategies
+FOR SELECT
+USING (is_approved = true AND is_hidden = false);
+
+DROP POLICY "Users can view interactions on their content" ON public.community_interactions;
+
+CREATE POLICY "Users can view interactions on their content"
+ON public.community_interactions
+FOR SELECT
+USING (
+  is_hidden = false
+  AND (
+    EXISTS (
+      SELECT 1 FROM public.challenge_shares cs
+      WHERE cs.id = target_id AND cs.shared_by_user_id = auth.uid()
+    )
+    OR EXISTS (
+      SELECT 1 FROM public.relief_strategies rs
+      WHERE rs.id = target_id AND rs.user_id = auth.uid()
+    )
+  )
+);
+
+-- How many independent reports hide each kind of content (NULL: never hide automatically)
+CREATE TABLE public.report_thresholds (
+  content_type TEXT PRIMARY KEY,
+  hide_after INTEGER CHECK (hide_after > 0),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.report_thresholds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view report thresholds"
+ON public.report_thresholds
+FOR SELECT
+USING (true);
+
+CREATE TRIGGER update_report_thresholds_updated_at
+BEFORE UPDATE ON public.report_thresholds
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.report_thresholds (content_type, hide_after) VALUES
+  ('relief_strategy', 3),
+  ('community_interaction', 3),
+  ('user', NULL);
+
+CREATE TABLE public.content_reports (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  reporter_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  content_type TEXT NOT NULL REFERENCES public.report_thresholds(content_type),
+  content_id TEXT NOT NULL,
+  reported_user_id UUID,
+  reason TEXT NOT NULL CHECK (reason IN ('harassment', 'spam', 'misinformation', 'hate', 'self_harm', 'other')),
+  details TEXT CHECK (char_length(details) <= 1000),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'dismissed', 'actioned')),
+  resolution_note TEXT,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- One report per person per item keeps counts independent
+  CONSTRAINT content_reports_once_per_reporter UNIQUE (reporter_id, content_type, content_id)
+);
+
+CREATE INDEX idx_content_reports_open ON public.content_reports(content_type, content_id) WHERE status = 'open';
+
+ALTER TABLE public.content_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own reports"
+ON public.content_reports
+FOR SELECT
+USING (auth.uid() = reporter_id);
+
+-- Show or hide a reported item
+CREATE OR REPLACE FUNCTION public.set_content_hidden(p_content_type TEXT, p_content_id TEXT, p_hidden BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  CASE p_content_type
+    WHEN 'relief_strategy' THEN
+      UPDATE public.relief_strategies
+      SET is_hidden = p_hidden, hidden_at = CASE WHEN p_hidden THEN now() END
+      WHERE id = p_content_id::UUID;
+    WHEN 'community_interaction' THEN
+      UPDATE public.community_interactions
+      SET is_hidden = p_hidden, hidden_at = CASE WHEN p_hidden THEN now() END
+      WHERE id = p_content_id::UUID;
+    ELSE
+      NULL; -- Users and other types are only queued for review
+  END CASE;
+END;
+$$;
+
+-- Report content or a user. Optionally block its author at the same time,
+-- except for anonymous posts.
+CREATE OR REPLACE FUNCTION public.report_content(
+  p_content_type TEXT,
+  p_content_id TEXT,
+  p_reason TEXT,
+  p_details TEXT DEFAULT NULL,
+  p_block_author BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  content_uuid UUID;
+  author_id UUID;
+  threshold INTEGER;
+  report_row public.content_reports%ROWTYPE;
+  report_count INTEGER;
+  hidden BOOLEAN := false;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT hide_after INTO threshold FROM public.report_thresholds WHERE content_type = p_content_type;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid content type: %', p_content_type USING ERRCODE = '22023';
+  END IF;
+
+  BEGIN
+    content_uuid := p_content_id::UUID;
+  EXCEPTION WHEN invalid_text_representation THEN
+    RAISE EXCEPTION 'Invalid content id' USING ERRCODE = '22023';
+  END;
+
+  author_id := CASE p_content_type
+    WHEN 'relief_strategy' THEN (SELECT user_id FROM public.relief_strategies WHERE id = content_uuid)
+    WHEN 'community_interaction' THEN (SELECT user_id FROM public.community_interactions WHERE id = content_uuid)
+    WHEN 'user' THEN (SELECT user_id FROM public.profiles WHERE user_id = content_uuid)
+  END;
+
+  IF author_id IS NULL THEN
+    RAISE EXCEPTION 'Content not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF author_id = caller_id THEN
+    RAISE EXCEPTION 'You cannot report your own content' USING ERRCODE = '22023';
+  END IF;
+
+  -- Blocking would list the author among the caller's blocks
+  IF p_block_author AND COALESCE(CASE p_content_type
+    WHEN 'relief_strategy' THEN (SELECT is_anonymous FROM public.relief_strategies WHERE id = content_uuid)
+    WHEN 'community_interaction' THEN (SELECT is_anonymous FROM public.community_interactions WHERE id = content_uuid)
+  END, false) THEN
+    RAISE EXCEPTION 'The author of anonymous content cannot be blocked' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.content_reports (reporter_id, content_type, content_id, reported_user_id, reason, details)
+  VALUES (caller_id, p_content_type, content_uuid::TEXT, author_id, p_reason, NULLIF(btrim(p_details), ''))
+  ON CONFLICT (reporter_id, content_type, content_id) DO NOTHING
+  RETURNING * INTO report_row;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You have already reported this' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF threshold IS NOT NULL THEN
+    SELECT COUNT(DISTINCT reporter_id) INTO report_count
+    FROM public.content_reports
+    WHERE content_type = p_content_type AND content_id = report_row.content_id AND status = 'open';
+
+    IF report_count >= threshold THEN
+      PERFORM public.set_content_hidden(p_content_type, report_row.content_id, true);
+      hidden := true;
+    END IF;
+  END IF;
+
+  IF p_block_author THEN
+    PERFORM public.block_user(author_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'id', report_row.id,
+    'content_type', report_row.content_type,
+    'content_id', report_row.content_id,
+    'reason', report_row.reason,
+    'status', report_row.status,
+    'created_at', report_row.created_at,
+    'hidden', hidden
+  );
+END;
+$$;
+
+-- Moderation queue: open reports grouped by item, most reported first
+CREATE OR REPLACE VIEW public.moderation_queue
+WITH (security_invoker = true)
+AS
+SELECT
+  content_type,
+  content_id,
+  reported_user_id,
+  COUNT(*) AS report_count,
+  ARRAY_AGG(DISTINCT reason) AS reasons,
+  MIN(created_at) AS first_reported_at,
+  MAX(created_at) AS last_reported_at
+FROM public.content_reports
+WHERE status = 'open'
+GROUP BY content_type, content_id, reported_user_id
+ORDER BY COUNT(*) DESC, MIN(created_at);
+
+REVOKE ALL ON public.moderation_queue FROM PUBLIC, anon, authenticated;
+GRANT SELECT ON public.moderation_queue TO service_role;
+
+-- Close every open report on an item. Dismissing restores hidden content;
+-- actioning keeps it hidden.
+CREATE OR REPLACE FUNCTION public.resolve_reports(
+  p_content_type TEXT,
+  p_content_id TEXT,
+  p_resolution TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  resolved INTEGER;
+BEGIN
+  IF p_resolution NOT IN ('dismissed', 'actioned') THEN
+    RAISE EXCEPTION 'Invalid resolution: %', p_resolution USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE public.content_reports
+  SET status = p_resolution, resolution_note = p_note, reviewed_at = now()
+  WHERE content_type = p_content_type AND content_id = p_content_id AND status = 'open';
+
+  GET DIAGNOSTICS resolved = ROW_COUNT;
+
+  PERFORM public.set_content_hidden(p_content_type, p_content_id, p_resolution = 'actioned');
+
+  RETURN resolved;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.is_blocked_between(UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+REVOKE ALL ON FUNCTION public.block_user(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.block_user(UUID) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.unblock_user(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.unblock_user(UUID) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.set_content_hidden(TEXT, TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+REVOKE ALL ON FUNCTION public.report_content(TEXT, TEXT, TEXT, TEXT, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.report_content(TEXT, TEXT, TEXT, TEXT, BOOLEAN) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.resolve_reports(TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_reports(TEXT, TEXT, TEXT, TEXT) TO service_role;
@@ -0,0 +1,320 @@
+-- Direct messages between accepted matches
+-- Messages belong to a match, so blocking (or any status other than accepted)
+-- stops new messages and a block hides the history from both sides. A message
+-- can carry a relief strategy card. Read positions in match_message_reads are
+-- visible to both people and double as read receipts. Typing indicators are
+-- Realtime broadcasts and never touch the database.
+
+CREATE TABLE public.match_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  match_id BIGINT NOT NULL REFERENCES public.matches(id) ON DELETE CASCADE,
+  sender_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  body TEXT CHECK (char_length(btrim(body)) BETWEEN 1 AND 2000),
+  strategy_id UUID REFERENCES public.relief_strategies(id) ON DELETE SET NULL,
+  is_hidden BOOLEAN NOT NULL DEFAULT false,
+  hidden_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_match_messages_match ON public.match_messages(match_id, created_at);
+CREATE INDEX idx_match_messages_sender ON public.match_messages(sender_id, created_at);
+
+ALTER TABLE public.match_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read messages in their matches"
+ON public.match_messages
+FOR SELECT
+USING (
+  is_hidden = false
+  AND EXISTS (
+    SELECT 1 FROM public.matches
+    WHERE matches.id = match_messages.match_id
+      AND matches.connection_status <> 'blocked'
+      AND (matches.user1_id = auth.uid() OR matches.user2_id = auth.uid())
+  )
+);
+
+CREATE POLICY "Users can message their accepted matches"
+ON public.match_messages
+FOR INSERT
+WITH CHECK (
+  sender_id = auth.uid()
+  AND EXISTS (
+    SELECT 1 FROM public.matches
+    WHERE matches.id = match_messages.match_id
+      AND matches.connection_status = 'accepted'
+      AND (matches.user1_id = auth.uid() OR matches.user2_id = auth.uid())
+  )
+);
+
+-- Rate limits and attachment checks for new messages
+CREATE OR REPLACE FUNCTION public.validate_match_message()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  max_per_minute CONSTANT INTEGER := 20;
+  max_per_day CONSTANT INTEGER := 500;
+  sent_last_minute INTEGER;
+  sent_today INTEGER;
+BEGIN
+  -- A message is text, a strategy card, or both. Checked here rather than as a
+  -- constraint because the card goes away if the strategy is later deleted.
+  IF NEW.body IS NULL AND NEW.strategy_id IS NULL THEN
+    RAISE EXCEPTION 'Message is empty' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE created_at > now() - INTERVAL '1 minute'),
+    COUNT(*)
+  INTO sent_last_minute, sent_today
+  FROM public.match_messages
+  WHERE sender_id = NEW.sender_id
+    AND created_at > now() - INTERVAL '1 day';
+
+  IF sent_last_minute >= max_per_minute THEN
+    RAISE EXCEPTION 'You are sending messages too quickly. Please wait a moment.' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF sent_today >= max_per_day THEN
+    RAISE EXCEPTION 'Daily message limit reached' USING ERRCODE = 'P0001';
+  END IF;
+
+  -- Only strategies everyone can see can be shared
+  IF NEW.strategy_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.relief_strategies
+    WHERE id = NEW.strategy_id AND is_approved = true AND is_hidden = false
+  ) THEN
+    RAISE EXCEPTION 'Strategy not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  NEW.is_hidden := false;
+  NEW.hidden_at := NULL;
+  NEW.created_at := now();
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_match_message
+BEFORE INSERT ON public.match_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_match_message();
+
+CREATE TRIGGER touch_match_on_message
+AFTER INSERT ON public.match_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.touch_match_interaction();
+
+-- How far each user has read a match's messages
+CREATE TABLE public.match_message_reads (
+  match_id BIGINT NOT NULL REFERENCES public.matches(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  last_read_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (match_id, user_id)
+);
+
+ALTER TABLE public.match_message_reads ENABLE ROW LEVEL SECURITY;
+
+-- Both people see each other's position, which is what read receipts show
+CREATE POLICY "Users can view read positions in their matches"
+ON public.match_message_reads
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.matches
+    WHERE matches.id = match_message_reads.match_id
+      AND matches.connection_status = 'accepted'
+      AND (matches.user1_id = auth.uid() OR matches.user2_id = auth.uid())
+  )
+);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.match_messages;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.match_message_reads;
+
+-- Mark a match's messages as read up to now
+CREATE OR REPLACE FUNCTION public.mark_messages_read(p_match_id BIGINT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.matches
+    WHERE id = p_match_id
+      AND connection_status = 'accepted'
+      AND (user1_id = caller_id OR user2_id = caller_id)
+  ) THEN
+    RAISE EXCEPTION 'Match not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  INSERT INTO public.match_message_reads (match_id, user_id, last_read_at)
+  VALUES (p_match_id, caller_id, now())
+  ON CONFLICT (match_id, user_id) DO UPDATE SET last_read_at = EXCLUDED.last_read_at;
+END;
+$$;
+
+-- Messages from the other person the caller hasn't read yet, per accepted match
+CREATE OR REPLACE FUNCTION public.message_unread_counts()
+RETURNS TABLE (match_id BIGINT, unread_count BIGINT)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = ''
+AS $$
+  SELECT m.id, COUNT(msg.id)
+  FROM public.matches m
+  LEFT JOIN public.match_message_reads r
+    ON r.match_id = m.id AND r.user_id = auth.uid()
+  JOIN public.match_messages msg
+    ON msg.match_id = m.id
+   AND msg.sender_id <> auth.uid()
+   AND msg.is_hidden = false
+   AND msg.created_at > COALESCE(r.last_read_at, '-infinity')
+  WHERE m.connection_status = 'accepted'
+    AND (m.user1_id = auth.uid() OR m.user2_id = auth.uid())
+  GROUP BY m.id;
+$$;
+
+REVOKE ALL ON FUNCTION public.validate_match_message() FROM PUBLIC, anon, authenticated;
+
+REVOKE ALL ON FUNCTION public.mark_messages_read(BIGINT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_messages_read(BIGINT) TO authenticated;
+
+REVOKE ALL ON FUNCTION public.message_unread_counts() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.message_unread_counts() TO authenticated;
+
+-- Messages can be reported by the person who received them. Only the two
+-- people in the match can see a message, so one report is enough to hide it.
+INSERT INTO public.report_thresholds (content_type, hide_after) VALUES ('message', 1);
+
+CREATE OR REPLACE FUNCTION public.set_content_hidden(p_content_type TEXT, p_content_id TEXT, p_hidden BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+BEGIN
+  CASE p_content_type
+    WHEN 'relief_strategy' THEN
+      UPDATE public.relief_strategies
+      SET is_hidden = p_hidden, hidden_at = CASE WHEN p_hidden THEN now() END
+      WHERE id = p_content_id::UUID;
+    WHEN 'community_interaction' THEN
+      UPDATE public.community_interactions
+      SET is_hidden = p_hidden, hidden_at = CASE WHEN p_hidden THEN now() END
+      WHERE id = p_content_id::UUID;
+    WHEN 'message' THEN
+      UPDATE public.match_messages
+      SET is_hidden = p_hidden, hidden_at = CASE WHEN p_hidden THEN now() END
+      WHERE id = p_content_id::UUID;
+    ELSE
+      NULL; -- Users and other types are only queued for review
+  END CASE;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.report_content(
+  p_content_type TEXT,
+  p_content_id TEXT,
+  p_reason TEXT,
+  p_details TEXT DEFAULT NULL,
+  p_block_author BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  content_uuid UUID;
+  author_id UUID;
+  threshold INTEGER;
+  report_row public.content_reports%ROWTYPE;
+  report_count INTEGER;
+  hidden BOOLEAN := false;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT hide_after INTO threshold FROM public.report_thresholds WHERE content_type = p_content_type;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid content type: %', p_content_type USING ERRCODE = '22023';
+  END IF;
+
+  BEGIN
+    content_uuid := p_content_id::UUID;
+  EXCEPTION WHEN invalid_text_representation THEN
+    RAISE EXCEPTION 'Invalid content id' USING ERRCODE = '22023';
+  END;
+
+  author_id := CASE p_content_type
+    WHEN 'relief_strategy' THEN (SELECT user_id FROM public.relief_strategies WHERE id = content_uuid)
+    WHEN 'community_interaction' THEN (SELECT user_id FROM public.community_interactions WHERE id = content_uuid)
+    WHEN 'user' THEN (SELECT user_id FROM public.profiles WHERE user_id = content_uuid)
+    -- Only someone in the conversation can report a message
+    WHEN 'message' THEN (
+      SELECT msg.sender_id
+      FROM public.match_messages msg
+      JOIN public.matches m ON m.id = msg.match_id
+      WHERE msg.id = content_uuid
+        AND (m.user1_id = caller_id OR m.user2_id = caller_id)
+    )
+  END;
+
+  IF author_id IS NULL THEN
+    RAISE EXCEPTION 'Content not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF author_id = caller_id THEN
+    RAISE EXCEPTION 'You cannot report your own content' USING ERRCODE = '22023';
+  END IF;
+
+  -- Blocking would list the author among the caller's blocks
+  IF p_block_author AND COALESCE(CASE p_content_type
+    WHEN 'relief_strategy' THEN (SELECT is_anonymous FROM public.relief_strategies WHERE id = content_uuid)
+    WHEN 'community_interaction' THEN (SELECT is_anonymous FROM public.community_interactions WHERE id = content_uuid)
+  END, false) THEN
+    RAISE EXCEPTION 'The author of anonymous content cannot be blocked' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.content_reports (reporter_id, content_type, content_id, reported_user_id, reason, details)
+  VALUES (caller_id, p_content_type, content_uuid::TEXT, author_id, p_reason, NULLIF(btrim(p_details), ''))
+  ON CONFLICT (reporter_id, content_type, content_id) DO NOTHING
+  RETURNING * INTO report_row;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You have already reported this' USING ERRCODE = 'P0001';
+  END IF;
+
+  IF threshold IS NOT NULL THEN
+    SELECT COUNT(DISTINCT reporter_id) INTO report_count
+    FROM public.content_reports
+    WHERE content_type = p_content_type AND content_id = report_row.content_id AND status = 'open';
+
+    IF report_count >= threshold THEN
+      PERFORM public.set_content_hidden(p_content_type, report_row.content_id, true);
+      hidden := true;
+    END IF;
+  END IF;
+
+  IF p_block_author THEN
+    PERFORM public.block_user(author_id);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'id', report_row.id,
+    'content_type', report_row.content_type,
+    'content_id', report_row.content_id,
+    'reason', report_row.reason,
+    'status', report_row.status,
+    'created_at', report_row.created_at,
+    'hidden', hidden
+  );
+END;
+$$;
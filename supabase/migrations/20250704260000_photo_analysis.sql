@@ -0,0 +1,16 @@
+-- Per-photo analysis
+-- The analyze-photo function stores one row per entry and analysis type and
+-- re-running it replaces that row, so the pair has to be unique. Nothing has
+-- written to ai_analysis before this, but keep the newest row just in case.
+
+DELETE FROM public.ai_analysis a
+USING public.ai_analysis b
+WHERE a.entry_id = b.entry_id
+  AND a.analysis_type = b.analysis_type
+  AND (a.created_at, a.id) < (b.created_at, b.id);
+
+ALTER TABLE public.ai_analysis
+ADD CONSTRAINT ai_analysis_entry_type_key UNIQUE (entry_id, analysis_type);
+
+-- The unique constraint covers lookups by entry
+DROP INDEX IF EXISTS public.idx_ai_analysis_entry_id;
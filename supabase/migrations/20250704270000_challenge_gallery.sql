@@ -0,0 +1,13 @@
+-- Challenge gallery
+-- Users can leave a note on each day and leave bad shots out of time-lapses
+-- without deleting them. Excluded entries still count towards streaks and Light.
+
+ALTER TABLE public.challenge_entries
+ADD COLUMN exclude_from_timelapse BOOLEAN NOT NULL DEFAULT false;
+
+-- notes existed but was never written; cap it now that the gallery edits it
+ALTER TABLE public.challenge_entries
+ADD CONSTRAINT challenge_entries_notes_length CHECK (char_length(notes) <= 1000) NOT VALID;
+
+CREATE INDEX IF NOT EXISTS idx_challenge_entries_challenge_day
+ON public.challenge_entries(challenge_id, day_number);
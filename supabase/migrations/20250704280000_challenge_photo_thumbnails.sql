@@ -0,0 +1,6 @@
+-- Challenge photos are resized and stripped of metadata in the browser before
+-- upload, and a small thumbnail is stored next to each one for galleries.
+-- Older entries have no thumbnail; clients fall back to image_path.
+
+ALTER TABLE public.challenge_entries
+ADD COLUMN thumbnail_path TEXT;
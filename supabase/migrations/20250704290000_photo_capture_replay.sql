@@ -0,0 +1,213 @@
+-- Safe replays for queued photo captures
+-- The offline capture queue may replay a save from two devices at once, or
+-- repeat a step whose response was lost. The database makes each step safe to
+-- repeat instead of relying on the client's own checks.
+
+-- One photo per challenge day. Earlier duplicates from devices racing each
+-- other keep the first photo saved; the rest are dropped (their files stay in
+-- storage).
+DELETE FROM public.challenge_entries e
+USING public.challenge_entries keep
+WHERE keep.challenge_id = e.challenge_id
+  AND keep.user_id = e.user_id
+  AND keep.day_number = e.day_number
+  AND (keep.created_at, keep.id) < (e.created_at, e.id);
+
+CREATE UNIQUE INDEX idx_challenge_entries_one_per_day
+ON public.challenge_entries(challenge_id, user_id, day_number);
+
+-- Challenge progress is recorded once per entry. Entries saved before this
+-- migration were already counted by the client.
+ALTER TABLE public.challenge_entries
+ADD COLUMN progress_recorded_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.challenge_entries SET progress_recorded_at = created_at;
+
+-- Count a saved photo towards its challenge's streak, total and points.
+-- Repeating the call for the same entry returns the current progress
+-- without counting it again.
+CREATE OR REPLACE FUNCTION public.record_challenge_photo(p_entry_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  entry_row public.challenge_entries%ROWTYPE;
+  progress_row public.user_challenge_progress%ROWTYPE;
+  has_progress BOOLEAN;
+  capture_date DATE;
+  new_streak INTEGER := 1;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  SELECT * INTO entry_row
+  FROM public.challenge_entries
+  WHERE id = p_entry_id AND user_id = caller_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Photo not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('user_challenge_progress:' || caller_id::text || entry_row.challenge_id::text));
+
+  SELECT * INTO progress_row
+  FROM public.user_challenge_progress
+  WHERE user_id = caller_id AND challenge_id = entry_row.challenge_id
+  FOR UPDATE;
+  has_progress := FOUND;
+
+  IF entry_row.progress_recorded_at IS NOT NULL THEN
+    RETURN jsonb_build_object(
+      'current_streak', COALESCE(NULLIF(progress_row.current_streak, 0), 1),
+      'total_photos', COALESCE(NULLIF(progress_row.total_photos, 0), 1),
+      'recorded', false
+    );
+  END IF;
+
+  -- Streaks follow the capture date, not the date the upload finally went through
+  capture_date := (entry_row.taken_at AT TIME ZONE 'UTC')::DATE;
+
+  IF progress_row.last_photo_date IS NOT NULL THEN
+    IF progress_row.last_photo_date >= capture_date THEN
+      new_streak := COALESCE(NULLIF(progress_row.current_streak, 0), 1);
+    ELSIF progress_row.last_photo_date = capture_date - 1 THEN
+      new_streak := COALESCE(progress_row.current_streak, 0) + 1;
+    END IF;
+  END IF;
+
+  IF has_progress THEN
+    UPDATE public.user_challenge_progress
+    SET current_streak = new_streak,
+        longest_streak = GREATEST(new_streak, COALESCE(longest_streak, 0)),
+        total_photos = COALESCE(total_photos, 0) + 1,
+        points_earned = COALESCE(points_earned, 0) + 10, -- Per photo
+        last_photo_date = GREATEST(last_photo_date, capture_date),
+        updated_at = now()
+    WHERE id = progress_row.id
+    RETURNING * INTO progress_row;
+  ELSE
+    INSERT INTO public.user_challenge_progress
+      (user_id, challenge_id, current_streak, longest_streak, total_photos, points_earned, last_photo_date)
+    VALUES (caller_id, entry_row.challenge_id, new_streak, new_streak, 1, 10, capture_date)
+    RETURNING * INTO progress_row;
+  END IF;
+
+  UPDATE public.challenge_entries
+  SET progress_recorded_at = now()
+  WHERE id = p_entry_id;
+
+  RETURN jsonb_build_object(
+    'current_streak', progress_row.current_streak,
+    'total_photos', progress_row.total_photos,
+    'recorded', true
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_challenge_photo(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.record_challenge_photo(UUID) TO authenticated;
+
+-- A photo earns Light once. Captures pass their entry as the source, so an
+-- award replayed after its response was lost is refused instead of paid again.
+CREATE UNIQUE INDEX idx_points_transactions_photo_entry
+ON public.points_transactions(user_id, source_id)
+WHERE action_type = 'daily_photo_capture' AND source_type = 'challenge_entry';
+
+CREATE OR REPLACE FUNCTION public.award_light(
+  p_action_type TEXT,
+  p_points_amount INTEGER,
+  p_source_id UUID DEFAULT NULL,
+  p_source_type TEXT DEFAULT NULL,
+  p_metadata JSONB DEFAULT '{}'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = ''
+AS $$
+DECLARE
+  caller_id UUID := auth.uid();
+  rule public.light_action_rules%ROWTYPE;
+  awarded INTEGER := p_points_amount;
+  citadel_bonus INTEGER;
+  today_count INTEGER;
+  today_light INTEGER;
+  ledger_result JSONB;
+BEGIN
+  IF caller_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '28000';
+  END IF;
+
+  -- Achievement rewards are paid by evaluate_achievements()
+  IF p_action_type = 'achievement_unlock' THEN
+    RAISE EXCEPTION 'Achievement rewards are awarded automatically' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO rule
+  FROM public.light_action_rules
+  WHERE action_type = p_action_type AND is_active = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown action type: %', p_action_type USING ERRCODE = '22023';
+  END IF;
+
+  IF awarded IS NULL OR awarded <= 0 OR awarded > rule.max_points THEN
+    RAISE EXCEPTION 'Invalid Light amount % for %', awarded, p_action_type USING ERRCODE = '22023';
+  END IF;
+
+  -- Photo awards must name one of the caller's own challenge entries
+  IF p_action_type = 'daily_photo_capture' AND (
+    p_source_type IS DISTINCT FROM 'challenge_entry'
+    OR NOT EXISTS (
+      SELECT 1 FROM public.challenge_entries
+      WHERE id = p_source_id AND user_id = caller_id
+    )
+  ) THEN
+    RAISE EXCEPTION 'Photo not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- Each extra daily use granted by the citadel also raises the Light cap by one award
+  citadel_bonus := public.citadel_action_limit_bonus(p_action_type);
+
+  PERFORM pg_advisory_xact_lock(hashtext(caller_id::text));
+
+  IF p_action_type = 'daily_photo_capture' AND EXISTS (
+    SELECT 1 FROM public.points_transactions
+    WHERE user_id = caller_id
+      AND action_type = 'daily_photo_capture'
+      AND source_type = 'challenge_entry'
+      AND source_id = p_source_id
+  ) THEN
+    RAISE EXCEPTION 'Light already awarded for this photo' USING ERRCODE = '23505';
+  END IF;
+
+  SELECT COUNT(*), COALESCE(SUM(points_amount), 0)
+  INTO today_count, today_light
+  FROM public.points_transactions
+  WHERE user_id = caller_id
+    AND action_type = p_action_type
+    AND created_at >= date_trunc('day', now());
+
+  IF rule.daily_limit IS NOT NULL AND today_count >= rule.daily_limit + citadel_bonus THEN
+    RAISE EXCEPTION 'Daily limit reached for %', p_action_type USING ERRCODE = 'P0001';
+  END IF;
+
+  IF rule.daily_light_cap IS NOT NULL THEN
+    awarded := LEAST(awarded, rule.daily_light_cap + citadel_bonus * rule.max_points - today_light);
+    IF awarded <= 0 THEN
+      RAISE EXCEPTION 'Daily Light cap reached for %', p_action_type USING ERRCODE = 'P0001';
+    END IF;
+  END IF;
+
+  ledger_result := public.apply_light_transaction(
+    caller_id, p_action_type, awarded, p_source_id, p_source_type, p_metadata
+  );
+
+  RETURN ledger_result || jsonb_build_object(
+    'unlocked_achievements', public.evaluate_achievements(caller_id)
+  );
+END;
+$$;